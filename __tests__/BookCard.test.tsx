@@ -1,4 +1,4 @@
-import { render, screen, fireEvent } from '@testing-library/react'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import BookCard from '../components/BookCard'
 
 // Mock book data for testing
@@ -79,7 +79,41 @@ describe('BookCard Component', () => {
         expect(screen.getByText('Progress')).toBeInTheDocument()
     })
 
-    // Test 5: Button interactions
+    // Test 5: Page-based progress
+    test('shows current page out of total pages', () => {
+        render(
+            <BookCard
+                id={mockBook.id}
+                title={mockBook.title}
+                author={mockBook.author}
+                category={mockBook.category}
+                reading_status="reading"
+                progress_percentage={37}
+                page_count={380}
+                current_page={142}
+            />
+        )
+
+        expect(screen.getByText('p. 142 / 380')).toBeInTheDocument()
+        expect(screen.getByText('37%')).toBeInTheDocument()
+    })
+
+    test('shows how many times a book has been read', () => {
+        render(
+            <BookCard
+                id={mockBook.id}
+                title={mockBook.title}
+                author={mockBook.author}
+                category={mockBook.category}
+                reading_status="finished"
+                read_count={3}
+            />
+        )
+
+        expect(screen.getByText('Read 3 times')).toBeInTheDocument()
+    })
+
+    // Test 6: Button interactions
     test('calls onDelete when delete button is clicked', () => {
         const mockOnDelete = jest.fn()
 
@@ -103,4 +137,50 @@ describe('BookCard Component', () => {
 
         expect(mockOnDelete).toHaveBeenCalledWith('test-id-123')
     })
-})
\ No newline at end of file
+
+    // Test 7: Logging a reading session
+    test('calls onLogSession when log session button is clicked', () => {
+        const mockOnLogSession = jest.fn()
+
+        render(
+            <BookCard
+                id={mockBook.id}
+                title={mockBook.title}
+                author={mockBook.author}
+                category={mockBook.category}
+                reading_status={mockBook.reading_status}
+                onLogSession={mockOnLogSession}
+            />
+        )
+
+        const card = screen.getByText('Test Book Title').closest('div')
+        fireEvent.mouseEnter(card!)
+
+        fireEvent.click(screen.getByTitle('Log session'))
+
+        expect(mockOnLogSession).toHaveBeenCalledWith('test-id-123')
+    })
+
+    // Test 8: Copying a citation
+    test('copies a formatted citation to the clipboard', async () => {
+        const writeText = jest.fn().mockResolvedValue(undefined)
+        Object.assign(navigator, { clipboard: { writeText } })
+
+        render(
+            <BookCard
+                id={mockBook.id}
+                title={mockBook.title}
+                author={mockBook.author}
+                category={mockBook.category}
+                reading_status={mockBook.reading_status}
+                publisher="Test Press"
+                published_date="2020-05-01"
+            />
+        )
+
+        fireEvent.click(screen.getByTitle('Copy citation'))
+        fireEvent.click(screen.getByText('Copy APA'))
+
+        await waitFor(() => expect(writeText).toHaveBeenCalledWith('Author, T. (2020). Test Book Title. Test Press.'))
+    })
+})
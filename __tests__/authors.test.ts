@@ -0,0 +1,70 @@
+import type { Book, ReadingCycle } from '../lib/supabase'
+import { authorSlug, findDuplicateAuthors, formatAuthors, getAuthorStats, getSortName, hasAuthor, splitAuthors, titleKey } from '../lib/authors'
+import { makeBook } from './fixtures/books'
+
+const pragmatic = (overrides: Partial<Book> = {}) =>
+    makeBook({ author: 'Andrew Hunt & David Thomas', category: 'Programming', ...overrides })
+
+const makeCycle = (id: string): ReadingCycle =>
+    ({ id, book_id: 'book', date_finished: '2025-01-01', created_at: '2025-01-01T00:00:00.000Z' })
+
+describe('Authors', () => {
+    test('splits author strings into separate authors', () => {
+        expect(splitAuthors('Andrew Hunt & David Thomas')).toEqual(['Andrew Hunt', 'David Thomas'])
+        expect(splitAuthors('Andrew Hunt, David Thomas')).toEqual(['Andrew Hunt', 'David Thomas'])
+        expect(splitAuthors('Terry Pratchett and Neil Gaiman')).toEqual(['Terry Pratchett', 'Neil Gaiman'])
+        expect(splitAuthors('Orwell, George')).toEqual(['George Orwell'])
+        expect(splitAuthors('Martin Luther King, Jr.')).toEqual(['Martin Luther King Jr.'])
+        expect(splitAuthors('Robert C. Martin')).toEqual(['Robert C. Martin'])
+    })
+
+    test('makes URL-safe slugs and matches books by them', () => {
+        expect(authorSlug('Gabriel García Márquez')).toBe('gabriel-garcia-marquez')
+        expect(authorSlug('Robert C. Martin')).toBe('robert-c-martin')
+        expect(hasAuthor(pragmatic(), 'david-thomas')).toBe(true)
+        expect(hasAuthor(pragmatic(), 'dylan-thomas')).toBe(false)
+        expect(hasAuthor(pragmatic({ author: 'Gabriel García Márquez' }), 'gabriel-garcia-marquez')).toBe(true)
+        expect(hasAuthor(pragmatic({ author: 'Orwell, George' }), 'george-orwell')).toBe(true)
+    })
+
+    test('totals statuses, ratings and pages read', () => {
+        const stats = getAuthorStats([
+            pragmatic({ reading_status: 'finished', rating: 5, page_count: 300, reading_cycles: [makeCycle('a'), makeCycle('b')] }),
+            pragmatic({ reading_status: 'reading', rating: 4, page_count: 200, current_page: 50 }),
+            pragmatic({ reading_status: 'finished', page_count: 600, progress_unit: 'minutes' }),
+            pragmatic({ page_count: 400 })
+        ])
+
+        expect(stats).toEqual({ total: 4, toRead: 1, reading: 1, finished: 2, averageRating: 4.5, pagesRead: 650 })
+    })
+
+    test('compares titles loosely', () => {
+        expect(titleKey('Nineteen Eighty-Four: A Novel')).toBe(titleKey('nineteen eighty four'))
+        expect(titleKey('The Pragmatic Programmer')).toBe('pragmatic programmer')
+    })
+
+    test('files authors by surname', () => {
+        expect(getSortName('Robert C. Martin')).toBe('Martin, Robert C.')
+        expect(getSortName('Martin Luther King Jr.')).toBe('King, Martin Luther, Jr.')
+        expect(getSortName('Plato')).toBe('Plato')
+    })
+
+    test('joins authors into one display string', () => {
+        expect(formatAuthors(['George Orwell'])).toBe('George Orwell')
+        expect(formatAuthors(['Andrew Hunt', 'David Thomas'])).toBe('Andrew Hunt & David Thomas')
+        expect(formatAuthors(['Erich Gamma', 'Richard Helm', 'Ralph Johnson'])).toBe('Erich Gamma, Richard Helm & Ralph Johnson')
+        expect(formatAuthors(splitAuthors('Orwell, George'))).toBe('George Orwell')
+    })
+
+    test('suggests likely duplicate spellings', () => {
+        const groups = findDuplicateAuthors([
+            { id: '1', name: 'Robert C. Martin' },
+            { id: '2', name: 'Robert Martin' },
+            { id: '3', name: 'R. C. Martin' },
+            { id: '4', name: 'George R. R. Martin' },
+            { id: '5', name: 'George Orwell' }
+        ])
+
+        expect(groups.map(group => group.map(author => author.id))).toEqual([['1', '2', '3']])
+    })
+})
@@ -0,0 +1,86 @@
+import { formatCitation, getAuthorNames, toBibtex, toCslJson, toRis } from '../lib/citations'
+
+const animalFarm = {
+    id: 'animal-farm',
+    title: 'Animal Farm',
+    author: 'George Orwell',
+    publisher: 'Signet Classics',
+    published_date: '1945-08-17',
+    isbn_13: '9780451526342'
+}
+
+const pragmatic = {
+    id: 'pragmatic',
+    title: 'The Pragmatic Programmer',
+    author: 'Andrew Hunt & David Thomas',
+    publisher: 'Addison-Wesley',
+    published_date: '1999'
+}
+
+const designPatterns = {
+    id: 'gof',
+    title: 'Design Patterns',
+    author: 'Erich Gamma, Richard Helm, Ralph Johnson, John Vlissides',
+    publisher: 'Addison-Wesley',
+    published_date: '1994'
+}
+
+describe('Citations', () => {
+    test('splits authors into family and given names', () => {
+        expect(getAuthorNames('Martin Luther King Jr. & J.R.R. Tolkien')).toEqual([
+            { family: 'King', given: 'Martin Luther', suffix: 'Jr.' },
+            { family: 'Tolkien', given: 'J.R.R.', suffix: '' }
+        ])
+    })
+
+    test('formats APA references', () => {
+        expect(formatCitation(animalFarm, 'apa')).toBe('Orwell, G. (1945). Animal Farm. Signet Classics.')
+        expect(formatCitation(pragmatic, 'apa')).toBe('Hunt, A., & Thomas, D. (1999). The Pragmatic Programmer. Addison-Wesley.')
+        expect(formatCitation(designPatterns, 'apa'))
+            .toBe('Gamma, E., Helm, R., Johnson, R., & Vlissides, J. (1994). Design Patterns. Addison-Wesley.')
+        expect(formatCitation({ id: 'x', title: 'The Hobbit', author: 'J.R.R. Tolkien' }, 'apa'))
+            .toBe('Tolkien, J. R. R. (n.d.). The Hobbit.')
+    })
+
+    test('formats Chicago references', () => {
+        expect(formatCitation(animalFarm, 'chicago')).toBe('Orwell, George. Animal Farm. Signet Classics, 1945.')
+        expect(formatCitation(pragmatic, 'chicago')).toBe('Hunt, Andrew, and David Thomas. The Pragmatic Programmer. Addison-Wesley, 1999.')
+        expect(formatCitation(designPatterns, 'chicago'))
+            .toBe('Gamma, Erich, Richard Helm, Ralph Johnson, and John Vlissides. Design Patterns. Addison-Wesley, 1994.')
+    })
+
+    test('writes BibTeX entries with unique keys and escaped text', () => {
+        const bibtex = toBibtex([animalFarm, { ...animalFarm, id: 'copy', title: 'Animal Farm & Other Tales' }])
+
+        expect(bibtex).toContain('@book{orwell1945animala,\n  author = {Orwell, George},\n  title = {Animal Farm},')
+        expect(bibtex).toContain('@book{orwell1945animalb,')
+        expect(bibtex).toContain('title = {Animal Farm \\& Other Tales}')
+        expect(bibtex).toContain('isbn = {9780451526342}')
+        expect(toBibtex([pragmatic])).toContain('author = {Hunt, Andrew and Thomas, David}')
+    })
+
+    test('writes RIS records', () => {
+        expect(toRis([pragmatic])).toBe([
+            'TY  - BOOK',
+            'AU  - Hunt, Andrew',
+            'AU  - Thomas, David',
+            'TI  - The Pragmatic Programmer',
+            'PB  - Addison-Wesley',
+            'PY  - 1999',
+            'ER  - ',
+            ''
+        ].join('\r\n'))
+    })
+
+    test('writes CSL-JSON items', () => {
+        expect(JSON.parse(toCslJson([animalFarm]))).toEqual([{
+            id: 'animal-farm',
+            type: 'book',
+            title: 'Animal Farm',
+            author: [{ family: 'Orwell', given: 'George' }],
+            publisher: 'Signet Classics',
+            issued: { 'date-parts': [[1945, 8, 17]] },
+            ISBN: '9780451526342'
+        }])
+    })
+})
@@ -0,0 +1,122 @@
+import { parseCsvRecords } from '../lib/csv'
+import { toCsvExport, toGoodreadsCsv, toJsonExport } from '../lib/export'
+import { parseGoodreadsCsv } from '../lib/goodreads'
+
+const book = {
+    id: 'animal-farm',
+    title: 'Animal Farm',
+    author: 'George Orwell',
+    category: 'Fiction',
+    reading_status: 'finished' as const,
+    created_at: '2023-01-02T10:00:00.000Z',
+    rating: 5,
+    page_count: 141,
+    date_finished: '2023-03-14',
+    isbn_10: '0451526341',
+    isbn_13: '9780451526342',
+    publisher: 'Signet Classics',
+    published_date: '1945-08-17',
+    format: 'paperback' as const,
+    cover_url: 'https://example.com/animal-farm.jpg',
+    review: 'Short, sharp\nand "timeless".',
+    reading_notes: 'Reread before book club',
+    tags: ['classics', 'Book Club'],
+    reading_cycles: [
+        { id: 'r1', book_id: 'animal-farm', date_finished: '2020-01-01', created_at: '2020-01-01' },
+        { id: 'r2', book_id: 'animal-farm', date_finished: '2023-03-14', created_at: '2023-03-14' }
+    ],
+    authors: [{ id: 'orwell', name: 'George Orwell', sort_name: 'Orwell, George' }]
+}
+
+const series = {
+    id: 'leviathan',
+    title: 'Leviathan Wakes',
+    author: 'Daniel Abraham & Ty Franck',
+    category: 'Sci-Fi',
+    reading_status: 'to-read' as const,
+    created_at: '2023-04-01T10:00:00.000Z',
+    series_name: 'The Expanse',
+    series_position: 1
+}
+
+const data = {
+    books: [book, series],
+    shelves: [
+        { id: 's1', name: 'Favourites', created_at: '2023-01-01', book_ids: ['animal-farm', 'not-exported'] }
+    ],
+    smartShelves: [],
+    highlights: [
+        { id: 'h1', book_id: 'animal-farm', kind: 'highlight' as const, text: 'All animals are equal', tags: [], created_at: '2023-03-01' },
+        { id: 'h2', book_id: 'not-exported', kind: 'highlight' as const, text: 'Elsewhere', tags: [], created_at: '2023-03-01' }
+    ],
+    readingSessions: [
+        { id: 'rs1', book_id: 'animal-farm', started_at: '2023-03-01T20:00:00.000Z', to_page: 60, created_at: '2023-03-01' },
+        { id: 'rs2', book_id: 'not-exported', started_at: '2023-03-02T20:00:00.000Z', to_page: 10, created_at: '2023-03-02' }
+    ],
+    bookChanges: [
+        { id: 'c1', book_id: 'leviathan', changes: { rating: { old: null, new: 4 } }, created_at: '2023-04-02' }
+    ],
+    authors: [
+        { id: 'orwell', name: 'George Orwell', sort_name: 'Orwell, George', aliases: ['Eric Blair'], created_at: '2023-01-01', book_count: 1 },
+        { id: 'austen', name: 'Jane Austen', sort_name: 'Austen, Jane', aliases: [], created_at: '2023-01-01', book_count: 1 }
+    ]
+}
+
+describe('Library export', () => {
+    test('writes every book as stored in the JSON export', () => {
+        const library = JSON.parse(toJsonExport(data, new Date('2024-01-01T00:00:00Z')))
+
+        expect(library.version).toBe(1)
+        expect(library.exported_at).toBe('2024-01-01T00:00:00.000Z')
+        expect(library.books).toEqual([book, series])
+        expect(library.shelves[0].book_ids).toEqual(['animal-farm'])
+        expect(library.highlights.map((highlight: { id: string }) => highlight.id)).toEqual(['h1'])
+        expect(library.reading_sessions.map((session: { id: string }) => session.id)).toEqual(['rs1'])
+        expect(library.book_changes.map((change: { id: string }) => change.id)).toEqual(['c1'])
+        expect(library.authors).toEqual([
+            { id: 'orwell', name: 'George Orwell', sort_name: 'Orwell, George', aliases: ['Eric Blair'], created_at: '2023-01-01' }
+        ])
+    })
+
+    test('writes one CSV row per book with tags, shelves and reads', () => {
+        const [row] = parseCsvRecords(toCsvExport(data))
+
+        expect(row).toMatchObject({
+            id: 'animal-farm',
+            title: 'Animal Farm',
+            cover_url: 'https://example.com/animal-farm.jpg',
+            review: 'Short, sharp\nand "timeless".',
+            reading_notes: 'Reread before book club',
+            tags: 'classics, Book Club',
+            shelves: 'Favourites',
+            read_count: '2'
+        })
+    })
+
+    test('writes a Goodreads CSV that imports back', () => {
+        const [animalFarm, leviathan] = parseGoodreadsCsv(toGoodreadsCsv(data))
+
+        expect(animalFarm.book).toMatchObject({
+            title: 'Animal Farm',
+            author: 'George Orwell',
+            reading_status: 'finished',
+            rating: 5,
+            date_finished: '2023-03-14',
+            isbn_10: '0451526341',
+            isbn_13: '9780451526342',
+            page_count: 141,
+            format: 'paperback',
+            review: 'Short, sharp\nand "timeless".',
+            reading_notes: 'Reread before book club'
+        })
+        expect(animalFarm.tags).toEqual(['classics', 'book-club', 'favourites'])
+
+        expect(leviathan.book).toMatchObject({
+            title: 'Leviathan Wakes',
+            author: 'Daniel Abraham & Ty Franck',
+            series_name: 'The Expanse',
+            series_position: 1,
+            reading_status: 'to-read'
+        })
+    })
+})
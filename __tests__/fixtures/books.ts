@@ -0,0 +1,12 @@
+import type { Book } from '../../lib/supabase'
+
+// A book with just the required fields set - tests override whatever they're about
+export const makeBook = (overrides: Partial<Book> = {}): Book => ({
+    id: 'book',
+    title: 'Book',
+    author: 'Author',
+    category: 'Fiction',
+    reading_status: 'to-read',
+    created_at: '2026-01-01T00:00:00.000Z',
+    ...overrides
+})
@@ -0,0 +1,77 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { goodreadsFormat, parseGoodreadsCsv } from '../lib/goodreads'
+import { detectImportFormat } from '../lib/importFormats'
+import { previewImport } from '../lib/import'
+
+const fixture = readFileSync(join(__dirname, 'fixtures', 'goodreads.csv'), 'utf8')
+
+describe('Goodreads import', () => {
+    test('is recognised from its header', () => {
+        expect(detectImportFormat(fixture)).toBe(goodreadsFormat)
+    })
+
+    test('maps Goodreads columns onto new books', () => {
+        const [animalFarm, pragmatic, leviathan] = parseGoodreadsCsv(fixture)
+
+        expect(animalFarm.row).toBe(2)
+        expect(animalFarm.book).toMatchObject({
+            title: 'Animal Farm',
+            author: 'George Orwell',
+            reading_status: 'finished',
+            rating: 5,
+            date_finished: '2023-03-14',
+            isbn_10: '0451526341',
+            isbn_13: '9780451526342',
+            page_count: 141,
+            published_date: '1945',
+            format: 'paperback',
+            review: 'Short, sharp\nand "timeless".',
+            reading_notes: 'Reread before book club'
+        })
+        expect(animalFarm.tags).toEqual(['classics', 'favorites'])
+
+        expect(pragmatic.book).toMatchObject({ author: 'Andrew Hunt & David Thomas', reading_status: 'reading', date_finished: null })
+        expect(pragmatic.tags).toEqual(['programming'])
+
+        expect(leviathan.book).toMatchObject({
+            title: 'Leviathan Wakes',
+            series_name: 'The Expanse',
+            series_position: 1,
+            rating: null,
+            isbn_13: null,
+            format: 'ebook'
+        })
+    })
+
+    test('keeps custom exclusive shelves as tags and flags rows it cannot import', () => {
+        const rows = parseGoodreadsCsv(fixture)
+
+        expect(rows[3].book.reading_status).toBe('to-read')
+        expect(rows[3].book.review).toBe('Multi\nline review')
+        expect(rows[3].tags).toEqual(['did-not-finish'])
+        expect(rows[4].error).toBe('Missing title')
+    })
+
+    test('rejects files that are not Goodreads exports', () => {
+        expect(() => parseGoodreadsCsv('name,score\nAnimal Farm,5')).toThrow(/Goodreads/)
+    })
+
+    test('marks books already in the library or repeated in the file', () => {
+        const rows = parseGoodreadsCsv(fixture)
+        const library = [{
+            id: 'owned',
+            title: 'Animal Farm',
+            author: 'Orwell, George',
+            category: 'Fiction',
+            reading_status: 'finished' as const,
+            created_at: new Date().toISOString()
+        }]
+
+        const preview = previewImport([...rows, { ...rows[1], row: 7 }], library)
+
+        expect(preview[0].duplicate?.id).toBe('owned')
+        expect(preview[1].duplicate).toBeNull()
+        expect(preview[5].duplicateRow).toBe(3)
+    })
+})
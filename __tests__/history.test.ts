@@ -0,0 +1,30 @@
+import { diffBookFields, getRevertUpdates } from '../lib/history'
+import type { BookChange } from '../lib/supabase'
+
+describe('Book history', () => {
+    test('records only the fields that changed', () => {
+        const before = { title: 'Dune', category: 'Fiction', reading_notes: null, updated_at: '2026-01-01' }
+        const changes = diffBookFields(before, {
+            title: 'Dune Messiah',
+            category: 'Fiction',
+            reading_notes: '',
+            updated_at: '2026-02-01'
+        })
+
+        expect(changes).toEqual({ title: { old: 'Dune', new: 'Dune Messiah' } })
+    })
+
+    test('reverts every change back to the chosen one', () => {
+        // Newest first, as fetchBookChanges returns them
+        const history: BookChange[] = [
+            { id: '3', book_id: 'b', created_at: '2026-03-01', changes: { title: { old: 'B', new: 'C' } } },
+            { id: '2', book_id: 'b', created_at: '2026-02-01', changes: { category: { old: 'Fiction', new: 'Sci-Fi' } } },
+            { id: '1', book_id: 'b', created_at: '2026-01-01', changes: { title: { old: 'A', new: 'B' } } }
+        ]
+
+        expect(getRevertUpdates(history, '3')).toEqual({ title: 'B' })
+        expect(getRevertUpdates(history, '2')).toEqual({ title: 'B', category: 'Fiction' })
+        expect(getRevertUpdates(history, '1')).toEqual({ title: 'A', category: 'Fiction' })
+        expect(getRevertUpdates(history, 'missing')).toEqual({})
+    })
+})
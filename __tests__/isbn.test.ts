@@ -0,0 +1,31 @@
+import { normalizeIsbn, toIsbn13, findBookByIsbn } from '../lib/isbn'
+import { makeBook } from './fixtures/books'
+
+describe('ISBN', () => {
+    test('cleans up valid ISBNs and rejects bad check digits', () => {
+        expect(normalizeIsbn('0-316-12908-9')).toBe('0316129089')
+        expect(normalizeIsbn('978-0-316-12908-4')).toBe('9780316129084')
+        expect(normalizeIsbn('080442957x')).toBe('080442957X')
+        expect(normalizeIsbn('9780316129085')).toBeNull()
+        expect(normalizeIsbn('12345')).toBeNull()
+    })
+
+    test('only accepts the length asked for', () => {
+        expect(normalizeIsbn('0316129089', 10)).toBe('0316129089')
+        expect(normalizeIsbn('0316129089', 13)).toBeNull()
+        expect(normalizeIsbn('978-0-316-12908-4', 13)).toBe('9780316129084')
+        expect(normalizeIsbn('9780316129084', 10)).toBeNull()
+    })
+
+    test('converts ISBN-10 to ISBN-13', () => {
+        expect(toIsbn13('0316129089')).toBe('9780316129084')
+    })
+
+    test('matches a duplicate across ISBN-10 and ISBN-13', () => {
+        const books = [makeBook({ id: '1', isbn_13: '9780316129084' }), makeBook({ id: '2' })]
+
+        expect(findBookByIsbn(books, '0316129089', null)?.id).toBe('1')
+        expect(findBookByIsbn(books, null, '9780441013593')).toBeUndefined()
+        expect(findBookByIsbn(books, null, null)).toBeUndefined()
+    })
+})
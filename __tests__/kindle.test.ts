@@ -0,0 +1,133 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import type { Book, Highlight } from '../lib/supabase'
+import {
+    findKindleMatch,
+    findNewKindleHighlights,
+    groupKindleClippings,
+    parseKindleClippings,
+    parseKindleDate,
+    toKindleBookData,
+    toKindleHighlightData
+} from '../lib/kindle'
+
+const clippings = readFileSync(join(__dirname, 'fixtures', 'kindle-clippings.txt'), 'utf8')
+
+const book = (fields: Partial<Book>) => ({
+    id: 'book',
+    title: '',
+    author: '',
+    category: 'Fiction',
+    reading_status: 'reading' as const,
+    created_at: '2024-01-01',
+    ...fields
+}) as Book
+
+describe('Kindle clippings', () => {
+    test('parses highlights, notes and bookmarks with their location and date', () => {
+        const parsed = parseKindleClippings(clippings)
+
+        // The Spanish entry isn't understood and is skipped
+        expect(parsed).toHaveLength(8)
+        expect(parsed[0]).toEqual({
+            title: 'Animal Farm',
+            author: 'George Orwell',
+            kind: 'highlight',
+            page: null,
+            location: 170,
+            locationEnd: 172,
+            addedAt: '2019-03-04T21:15:32',
+            text: 'All animals are equal'
+        })
+        expect(parsed[3]).toMatchObject({ kind: 'bookmark', page: 5, location: 70, text: '', addedAt: '2019-03-05T00:05:00' })
+        expect(parsed[5]).toMatchObject({ title: 'Leviathan Wakes (The Expanse Book 1)', author: 'James S. A. Corey', page: 12 })
+        expect(parsed[7]).toMatchObject({ kind: 'highlight', location: 1170, locationEnd: 1172, addedAt: '2012-05-13T21:38:00' })
+    })
+
+    test('reads US, UK and older Kindle dates', () => {
+        expect(parseKindleDate('Monday, March 4, 2019 12:15:32 PM')).toBe('2019-03-04T12:15:32')
+        expect(parseKindleDate('Saturday, 5 January 2019 14:02:30')).toBe('2019-01-05T14:02:30')
+        expect(parseKindleDate('Sunday, May 13, 2012, 09:38 PM')).toBe('2012-05-13T21:38:00')
+        expect(parseKindleDate('domingo, 3 de marzo de 2019 10:00:00')).toBeNull()
+    })
+
+    test('rejects files with no clippings', () => {
+        expect(() => parseKindleClippings('Title,Author\nAnimal Farm,George Orwell')).toThrow('Kindle clippings')
+    })
+
+    test('groups clippings by book, keeping the latest selection and joining notes to it', () => {
+        const [animalFarm, leviathan, sapiens] = groupKindleClippings(parseKindleClippings(clippings))
+
+        expect(animalFarm.highlights).toEqual([
+            expect.objectContaining({
+                kind: 'highlight',
+                text: 'All animals are equal, but some animals are more equal than others.',
+                note: 'The whole book in one line'
+            }),
+            expect.objectContaining({ kind: 'bookmark', text: '', page: 5 })
+        ])
+        expect(leviathan.highlights.map(highlight => [highlight.kind, highlight.text])).toEqual([
+            ['highlight', 'The Scopuli had been taken eight days ago.'],
+            ['note', 'Check who owns the Scopuli']
+        ])
+        expect(sapiens.highlights).toHaveLength(1)
+    })
+
+    test('matches books by loose title and author surname', () => {
+        const library = [
+            book({ id: 'animal-farm', title: 'Animal Farm: A Fairy Story', author: 'George Orwell' }),
+            book({ id: 'leviathan', title: 'Leviathan Wakes', author: 'James S. A. Corey' }),
+            book({ id: 'leviathan-hobbes', title: 'Leviathan', author: 'Thomas Hobbes' })
+        ]
+
+        expect(findKindleMatch({ title: 'Animal Farm', author: 'George Orwell' }, library)?.id).toBe('animal-farm')
+        expect(findKindleMatch({ title: 'Leviathan Wakes (The Expanse Book 1)', author: 'Corey, James S. A.' }, library)?.id).toBe('leviathan')
+        expect(findKindleMatch({ title: 'Leviathan', author: 'Herman Melville' }, library)).toBeNull()
+        expect(findKindleMatch({ title: 'Sapiens', author: 'Yuval Noah Harari' }, library)).toBeNull()
+    })
+
+    test('skips clippings already saved on the book', () => {
+        const [animalFarm] = groupKindleClippings(parseKindleClippings(clippings))
+        const target = { id: 'animal-farm', progress_unit: 'location' as const }
+        const saved: Highlight[] = [{
+            id: 'h1',
+            book_id: 'animal-farm',
+            kind: 'highlight',
+            text: 'All animals are equal, but some animals are  more equal than others.',
+            tags: [],
+            created_at: '2019-03-04'
+        }]
+
+        expect(findNewKindleHighlights(animalFarm, target, saved).map(highlight => highlight.kind)).toEqual(['bookmark'])
+        expect(findNewKindleHighlights(animalFarm, null, saved)).toHaveLength(2)
+    })
+
+    test('places clippings in the book\'s progress unit', () => {
+        const [animalFarm] = groupKindleClippings(parseKindleClippings(clippings))
+        const bookmark = animalFarm.highlights[1]
+
+        expect(toKindleHighlightData(bookmark, { id: 'b', progress_unit: 'location' })).toEqual({
+            book_id: 'b',
+            kind: 'bookmark',
+            text: '',
+            location: 70,
+            note: null,
+            created_at: '2019-03-05T00:05:00'
+        })
+        expect(toKindleHighlightData(bookmark, { id: 'b', progress_unit: 'pages' }).location).toBe(5)
+        expect(toKindleHighlightData(bookmark, { id: 'b', progress_unit: 'minutes' }).location).toBeNull()
+    })
+
+    test('creates missing books as ebooks tracked by location, with the series from the title', () => {
+        expect(toKindleBookData({ title: 'Leviathan Wakes (The Expanse Book 1)', author: 'James S. A. Corey', highlights: [] }))
+            .toMatchObject({
+                title: 'Leviathan Wakes',
+                author: 'James S. A. Corey',
+                series_name: 'The Expanse',
+                series_position: 1,
+                format: 'ebook',
+                progress_unit: 'location',
+                reading_status: 'reading'
+            })
+    })
+})
@@ -0,0 +1,81 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { libraryThingJsonFormat, libraryThingTsvFormat, parseLibraryThingJson, parseLibraryThingTsv } from '../lib/librarything'
+import { detectImportFormat } from '../lib/importFormats'
+
+const tsv = readFileSync(join(__dirname, 'fixtures', 'librarything.tsv'), 'utf8')
+const json = readFileSync(join(__dirname, 'fixtures', 'librarything.json'), 'utf8')
+
+describe('LibraryThing import', () => {
+    test('recognises both export formats', () => {
+        expect(detectImportFormat(tsv)).toBe(libraryThingTsvFormat)
+        expect(detectImportFormat(json)).toBe(libraryThingJsonFormat)
+    })
+
+    test('maps the tab-delimited export onto new books', () => {
+        const [animalFarm, pragmatic, untitled] = parseLibraryThingTsv(tsv)
+
+        expect(animalFarm.book).toMatchObject({
+            title: 'Animal Farm',
+            author: 'George Orwell',
+            reading_status: 'finished',
+            date_started: '2023-03-01',
+            date_finished: '2023-03-14',
+            rating: 4.5,
+            review: 'Still sharp.',
+            reading_notes: 'Book club pick',
+            isbn_10: '0451526341',
+            isbn_13: '9780451526342',
+            publisher: 'Signet Classics',
+            published_date: '1945',
+            page_count: 141,
+            language: 'English',
+            format: 'paperback'
+        })
+        expect(animalFarm.tags).toEqual(['classics', 'satire'])
+
+        // Only secondary authors credited as "Author" are kept - not the foreword
+        expect(pragmatic.book).toMatchObject({
+            author: 'Andrew Hunt & David Thomas',
+            reading_status: 'reading',
+            page_count: 352,
+            isbn_10: '020161622X'
+        })
+
+        expect(untitled.row).toBe(4)
+        expect(untitled.error).toBe('Missing title')
+    })
+
+    test('maps the JSON export onto new books', () => {
+        const [leviathan, goodOmens] = parseLibraryThingJson(json)
+
+        expect(leviathan.row).toBe(1)
+        expect(leviathan.book).toMatchObject({
+            title: 'Leviathan Wakes',
+            author: 'James S. A. Corey',
+            reading_status: 'finished',
+            date_finished: '2023-06-30',
+            rating: 4,
+            review: 'Great start\nto the series.',
+            series_name: 'The Expanse',
+            series_position: 1,
+            isbn_10: '0316129089',
+            isbn_13: '9780316129084',
+            publisher: 'Orbit',
+            page_count: 592,
+            format: 'ebook'
+        })
+        expect(leviathan.tags).toEqual(['scifi', 'space'])
+
+        expect(goodOmens.book).toMatchObject({
+            author: 'Terry Pratchett & Neil Gaiman',
+            reading_status: 'to-read',
+            isbn_10: '0060853980'
+        })
+    })
+
+    test('rejects JSON that is not a LibraryThing export', () => {
+        expect(() => parseLibraryThingJson('not json')).toThrow(/LibraryThing/)
+        expect(() => parseLibraryThingJson('[1, 2]')).toThrow(/LibraryThing/)
+    })
+})
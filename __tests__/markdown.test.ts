@@ -0,0 +1,29 @@
+import { parseInline, parseMarkdown } from '../lib/markdown'
+
+describe('Review markdown', () => {
+    test('reads bold, italics, code and links', () => {
+        expect(parseInline('**Loved** it, _mostly_ - see [notes](https://example.com) and `chapter_3`')).toEqual([
+            { type: 'strong', children: [{ type: 'text', text: 'Loved' }] },
+            { type: 'text', text: ' it, ' },
+            { type: 'em', children: [{ type: 'text', text: 'mostly' }] },
+            { type: 'text', text: ' - see ' },
+            { type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'notes' }] },
+            { type: 'text', text: ' and ' },
+            { type: 'code', text: 'chapter_3' }
+        ])
+    })
+
+    test('leaves underscores inside words and unsafe links as text', () => {
+        expect(parseInline('snake_case_name')).toEqual([{ type: 'text', text: 'snake_case_name' }])
+        expect(parseInline('[click](javascript:alert)')).toEqual([{ type: 'text', text: 'click' }])
+    })
+
+    test('splits a review into headings, paragraphs, quotes and lists', () => {
+        const blocks = parseMarkdown('# Verdict\nShort\nand sharp.\n\n> All animals are equal\n\n- Pigs\n- Horses\n1. First\n2. Second')
+
+        expect(blocks.map(block => block.type)).toEqual(['heading', 'paragraph', 'quote', 'list', 'list'])
+        expect(blocks[1]).toEqual({ type: 'paragraph', children: [{ type: 'text', text: 'Short\nand sharp.' }] })
+        expect(blocks[3]).toMatchObject({ ordered: false, items: [[{ text: 'Pigs' }], [{ text: 'Horses' }]] })
+        expect(blocks[4]).toMatchObject({ ordered: true, items: [[{ text: 'First' }], [{ text: 'Second' }]] })
+    })
+})
@@ -0,0 +1,73 @@
+import type { Book } from '../lib/supabase'
+import { parseQuery, matchesQueryFilters, matchesQueryText } from '../lib/query'
+import { makeBook } from './fixtures/books'
+
+const animalFarm = (overrides: Partial<Book> = {}) => makeBook({
+    id: 'animal-farm',
+    title: 'Animal Farm',
+    author: 'George Orwell',
+    reading_status: 'finished',
+    rating: 4.5,
+    created_at: '2026-02-10T09:00:00.000Z',
+    date_finished: '2026-03-01',
+    tags: ['Classics'],
+    ...overrides
+})
+
+const matches = (query: string, book = animalFarm()) => {
+    const parsed = parseQuery(query)
+    return matchesQueryText(book, parsed.text) && matchesQueryFilters(book, parsed.filters)
+}
+
+describe('Search query syntax', () => {
+    test('splits filters from free text', () => {
+        const parsed = parseQuery('author:orwell status:finished category:"science fiction" rating>=4 added:2026 animal farm')
+
+        expect(parsed.text).toBe('animal farm')
+        expect(parsed.errors).toEqual([])
+        expect(parsed.filters).toEqual([
+            { key: 'author', operator: ':', value: 'orwell', negated: false },
+            { key: 'status', operator: ':', value: 'finished', negated: false },
+            { key: 'category', operator: ':', value: 'science fiction', negated: false },
+            { key: 'rating', operator: '>=', value: '4', negated: false },
+            { key: 'added', operator: ':', value: '2026', negated: false }
+        ])
+    })
+
+    test('keeps unknown keys as free text', () => {
+        const parsed = parseQuery('publisher:penguin 1984')
+
+        expect(parsed.filters).toEqual([])
+        expect(parsed.errors).toEqual([])
+        expect(parsed.text).toBe('publisher:penguin 1984')
+    })
+
+    test('reports invalid filters with their position', () => {
+        const query = 'orwell status:abandoned rating>=ten author>x'
+        const { errors, filters, text } = parseQuery(query)
+
+        expect(filters).toEqual([])
+        expect(text).toBe('orwell')
+        expect(errors.map(error => query.slice(error.start, error.end))).toEqual(['status:abandoned', 'rating>=ten', 'author>x'])
+        expect(errors[1].message).toBe('rating must be a number from 0 to 5')
+    })
+
+    test('matches books against filters', () => {
+        expect(matches('author:orwell status:read rating>=4 added:2026-02')).toBe(true)
+        expect(matches('author=orwell')).toBe(false)
+        expect(matches('author="george orwell"')).toBe(true)
+        expect(matches('-status:finished')).toBe(false)
+        expect(matches('tag:classic farm')).toBe(true)
+        expect(matches('rating>4.5')).toBe(false)
+        expect(matches('rating>=1', animalFarm({ rating: null }))).toBe(false)
+    })
+
+    test('compares dates as whole periods', () => {
+        expect(matches('finished:2026-03')).toBe(true)
+        expect(matches('finished>2026-02')).toBe(true)
+        expect(matches('finished>2026')).toBe(false)
+        expect(matches('finished<=2026')).toBe(true)
+        expect(matches('added<2026-02-10')).toBe(false)
+        expect(matches('finished:2026', animalFarm({ date_finished: null }))).toBe(false)
+    })
+})
@@ -0,0 +1,18 @@
+import { splitSnippet } from '../lib/search'
+
+describe('Search snippets', () => {
+    test('splits matched words out of a snippet', () => {
+        expect(splitSnippet('The [[spice]] must [[flow]].')).toEqual([
+            { text: 'The ', match: false },
+            { text: 'spice', match: true },
+            { text: ' must ', match: false },
+            { text: 'flow', match: true },
+            { text: '.', match: false }
+        ])
+    })
+
+    test('leaves snippets without matches as plain text', () => {
+        expect(splitSnippet('<b>not html</b>')).toEqual([{ text: '<b>not html</b>', match: false }])
+        expect(splitSnippet('')).toEqual([])
+    })
+})
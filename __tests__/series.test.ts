@@ -0,0 +1,52 @@
+import type { Book } from '../lib/supabase'
+import { formatSeries, groupSeries, parseSeriesFromVolume } from '../lib/series'
+import { makeBook } from './fixtures/books'
+
+const makeEntry = (id: string, position: number | null, status: Book['reading_status'] = 'to-read') => makeBook({
+    id,
+    title: `Expanse ${id}`,
+    author: 'James S. A. Corey',
+    reading_status: status,
+    series_name: 'The Expanse',
+    series_position: position
+})
+
+describe('Series', () => {
+    test('lists owned entries in order and flags the gaps', () => {
+        const [group] = groupSeries([
+            makeEntry('3', 3),
+            makeEntry('1', 1, 'finished'),
+            makeEntry('5', 5)
+        ])
+
+        expect(group.name).toBe('The Expanse')
+        expect(group.entries.map(entry => entry.position)).toEqual([1, 2, 3, 4, 5])
+        expect(group.missingPositions).toEqual([2, 4])
+    })
+
+    test('keeps a prequel numbered 0 at the start of the series', () => {
+        const [group] = groupSeries([makeEntry('1', 1), makeEntry('0', 0), makeEntry('x', null)])
+
+        expect(group.entries.map(entry => entry.position)).toEqual([0, 1, null])
+        expect(group.missingPositions).toEqual([])
+        expect(group.nextUp?.book?.id).toBe('0')
+        expect(formatSeries('The Expanse', 0)).toBe('The Expanse #0')
+    })
+
+    test('flags the first unread or missing entry as next up', () => {
+        const [withGap] = groupSeries([makeEntry('1', 1, 'finished'), makeEntry('3', 3)])
+        expect(withGap.nextUp).toEqual({ position: 2, book: null })
+
+        const [reading] = groupSeries([makeEntry('1', 1, 'finished'), makeEntry('2', 2, 'reading'), makeEntry('3', 3)])
+        expect(reading.nextUp?.book?.id).toBe('3')
+    })
+
+    test('reads series data from Google Books titles and subtitles', () => {
+        expect(parseSeriesFromVolume({ title: "Caliban's War (The Expanse, #2)" }))
+            .toEqual({ seriesName: 'The Expanse', seriesPosition: 2 })
+        expect(parseSeriesFromVolume({ title: 'Abaddon\'s Gate', subtitle: 'Book 3 of the Expanse', seriesInfo: { bookDisplayNumber: '3' } }))
+            .toEqual({ seriesName: 'the Expanse', seriesPosition: 3 })
+        expect(parseSeriesFromVolume({ title: 'Clean Code' }))
+            .toEqual({ seriesName: null, seriesPosition: null })
+    })
+})
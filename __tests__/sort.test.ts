@@ -0,0 +1,56 @@
+import { getAuthorSurname, sortBooks } from '../lib/sort'
+import { makeBook } from './fixtures/books'
+
+const ids = (books: { id: string }[]) => books.map(book => book.id)
+
+describe('Sorting', () => {
+    test('finds the surname to sort an author by', () => {
+        expect(getAuthorSurname('George Orwell')).toBe('Orwell')
+        expect(getAuthorSurname('Tolkien, J.R.R.')).toBe('Tolkien')
+        expect(getAuthorSurname('Martin Luther King Jr.')).toBe('King')
+        expect(getAuthorSurname('Terry Pratchett and Neil Gaiman')).toBe('Pratchett')
+        expect(getAuthorSurname('Plato')).toBe('Plato')
+    })
+
+    test('sorts authors by surname', () => {
+        const books = [
+            makeBook({ id: 'orwell', author: 'George Orwell' }),
+            makeBook({ id: 'austen', author: 'Jane Austen' }),
+            makeBook({ id: 'huxley', author: 'Aldous Huxley' })
+        ]
+
+        expect(ids(sortBooks(books, { key: 'author', direction: 'asc' }))).toEqual(['austen', 'huxley', 'orwell'])
+        expect(ids(sortBooks(books, { key: 'author', direction: 'desc' }))).toEqual(['orwell', 'huxley', 'austen'])
+    })
+
+    test('sorts linked authors by their sort name', () => {
+        const books = [
+            makeBook({ id: 'king', author: 'Martin Luther King Jr.', authors: [{ id: 'k', name: 'Martin Luther King Jr.', sort_name: 'King, Martin Luther, Jr.' }] }),
+            makeBook({ id: 'dumas', author: 'Alexandre Dumas', authors: [{ id: 'd', name: 'Alexandre Dumas', sort_name: 'Dumas, Alexandre' }] }),
+            makeBook({ id: 'lovelace', author: 'Ada Lovelace' })
+        ]
+
+        expect(ids(sortBooks(books, { key: 'author', direction: 'asc' }))).toEqual(['dumas', 'king', 'lovelace'])
+    })
+
+    test('sorts statuses in reading order', () => {
+        const books = [
+            makeBook({ id: 'done', reading_status: 'finished' }),
+            makeBook({ id: 'next', reading_status: 'to-read' }),
+            makeBook({ id: 'now', reading_status: 'reading' })
+        ]
+
+        expect(ids(sortBooks(books, { key: 'status', direction: 'asc' }))).toEqual(['next', 'now', 'done'])
+    })
+
+    test('keeps books without a value last in either direction', () => {
+        const books = [
+            makeBook({ id: 'never' }),
+            makeBook({ id: 'early', date_finished: '2025-06-01' }),
+            makeBook({ id: 'late', date_finished: '2026-02-14' })
+        ]
+
+        expect(ids(sortBooks(books, { key: 'finished', direction: 'desc' }))).toEqual(['late', 'early', 'never'])
+        expect(ids(sortBooks(books, { key: 'finished', direction: 'asc' }))).toEqual(['early', 'late', 'never'])
+    })
+})
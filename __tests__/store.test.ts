@@ -14,9 +14,19 @@ describe('Book Store', () => {
         // Reset store before each test
         useBookStore.setState({
             books: [],
+            shelves: [],
+            smartShelves: [],
+            highlights: [],
+            trash: [],
             searchQuery: '',
+            searchSnippets: null,
             selectedCategory: null,
-            selectedReadingStatus: null
+            selectedReadingStatus: null,
+            selectedShelf: null,
+            selectedTags: [],
+            tagMatchMode: 'or',
+            minRating: null,
+            sort: null
         })
     })
 
@@ -30,6 +40,15 @@ describe('Book Store', () => {
         expect(updatedState.books[0]).toEqual(mockBook)
     })
 
+    test('appends the next page without duplicating loaded books', () => {
+        const { setBooks, appendBooks } = useBookStore.getState()
+
+        setBooks([{ ...mockBook, id: 'a' }, { ...mockBook, id: 'b' }])
+        appendBooks([{ ...mockBook, id: 'b' }, { ...mockBook, id: 'c' }])
+
+        expect(useBookStore.getState().books.map(book => book.id)).toEqual(['a', 'b', 'c'])
+    })
+
     test('filters books by search query', () => {
         const { addBook, setSearchQuery, getFilteredBooks } = useBookStore.getState()
 
@@ -43,6 +62,167 @@ describe('Book Store', () => {
         expect(filtered[0].title).toBe('JavaScript Guide')
     })
 
+    test('keeps books searched for in the database in their ranked order', () => {
+        const { setBooks, setSearchQuery, setSearchSnippets, getFilteredBooks } = useBookStore.getState()
+
+        setBooks([
+            { ...mockBook, id: 'dune', title: 'Dune' },
+            { ...mockBook, id: 'messiah', title: 'Dune Messiah' }
+        ])
+        setSearchQuery('spice')
+        setSearchSnippets({ dune: 'The [[spice]] must flow', messiah: '[[spice]] trade' })
+
+        expect(getFilteredBooks().map(book => book.id)).toEqual(['dune', 'messiah'])
+
+        setSearchSnippets(null)
+        expect(getFilteredBooks()).toHaveLength(0)
+    })
+
+    test('filters and sorts books by rating', () => {
+        const { addBook, setMinRating, setSort, getFilteredBooks } = useBookStore.getState()
+
+        addBook({ ...mockBook, id: 'loved', rating: 5 })
+        addBook({ ...mockBook, id: 'liked', rating: 3.5 })
+        addBook({ ...mockBook, id: 'disliked', rating: 1.5 })
+        addBook({ ...mockBook, id: 'unrated' })
+
+        setSort({ key: 'rating', direction: 'desc' })
+        expect(getFilteredBooks().map(book => book.id)).toEqual(['loved', 'liked', 'disliked', 'unrated'])
+
+        setMinRating(3.5)
+        expect(getFilteredBooks().map(book => book.id)).toEqual(['loved', 'liked'])
+    })
+
+    test('toggles the sort direction when the same key is picked again', () => {
+        const { addBook, toggleSort, getFilteredBooks } = useBookStore.getState()
+
+        addBook({ ...mockBook, id: 'b', title: 'Brave New World', progress_percentage: 80 })
+        addBook({ ...mockBook, id: 'a', title: 'Animal Farm', progress_percentage: 20 })
+
+        toggleSort('title')
+        expect(getFilteredBooks().map(book => book.id)).toEqual(['a', 'b'])
+
+        toggleSort('title')
+        expect(getFilteredBooks().map(book => book.id)).toEqual(['b', 'a'])
+
+        toggleSort('progress')
+        expect(useBookStore.getState().sort).toEqual({ key: 'progress', direction: 'desc' })
+        expect(getFilteredBooks().map(book => book.id)).toEqual(['b', 'a'])
+    })
+
+    test('filters books by tags in AND and OR modes', () => {
+        const { addBook, toggleTag, setTagMatchMode, getFilteredBooks, getTags } = useBookStore.getState()
+
+        addBook({ ...mockBook, id: 'sapiens', title: 'Sapiens', tags: ['History', 'Science', 'Anthropology'] })
+        addBook({ ...mockBook, id: 'cosmos', title: 'Cosmos', tags: ['Science'] })
+        addBook({ ...mockBook, id: 'untagged', title: 'Untagged' })
+
+        expect(getTags()).toEqual(['Anthropology', 'History', 'Science'])
+
+        toggleTag('History')
+        toggleTag('Science')
+        expect(getFilteredBooks().map(book => book.id)).toEqual(['cosmos', 'sapiens'])
+
+        setTagMatchMode('and')
+        expect(getFilteredBooks().map(book => book.id)).toEqual(['sapiens'])
+    })
+
+    test('shows only the selected shelf in its manual order', () => {
+        const { addBook, addShelf, setShelfBookIds, setSelectedShelf, getFilteredBooks } = useBookStore.getState()
+
+        addBook({ ...mockBook, id: 'a' })
+        addBook({ ...mockBook, id: 'b' })
+        addBook({ ...mockBook, id: 'c' })
+        addShelf({ id: 'summer', name: 'Summer 2026', created_at: new Date().toISOString(), book_ids: ['a', 'c'] })
+
+        setSelectedShelf('summer')
+        expect(getFilteredBooks().map(book => book.id)).toEqual(['a', 'c'])
+
+        setShelfBookIds('summer', ['c', 'a'])
+        expect(getFilteredBooks().map(book => book.id)).toEqual(['c', 'a'])
+    })
+
+    test('applies a smart shelf and filters its books live', () => {
+        const { addBook, addSmartShelf, applyFilters, setSearchQuery, getActiveSmartShelf, getFilteredBooks } = useBookStore.getState()
+        const filters = {
+            query: 'rating>=4',
+            category: 'Programming',
+            status: 'reading',
+            shelf_id: null,
+            tags: [],
+            tag_match_mode: 'or' as const,
+            min_rating: null
+        }
+
+        addBook({ ...mockBook, id: 'good', rating: 4 })
+        addBook({ ...mockBook, id: 'meh', rating: 2 })
+        addBook({ ...mockBook, id: 'novel', category: 'Fiction', rating: 5 })
+        addSmartShelf({ id: 'smart', name: 'Good programming reads', filters, created_at: new Date().toISOString() })
+
+        expect(getActiveSmartShelf()).toBeNull()
+
+        applyFilters(filters)
+        expect(getActiveSmartShelf()?.id).toBe('smart')
+        expect(getFilteredBooks().map(book => book.id)).toEqual(['good'])
+
+        addBook({ ...mockBook, id: 'new', rating: 5 })
+        expect(getFilteredBooks().map(book => book.id)).toEqual(['new', 'good'])
+
+        setSearchQuery('rating>=2')
+        expect(getActiveSmartShelf()).toBeNull()
+    })
+
+    test('searches highlight text, notes and tags', () => {
+        const { addHighlight, setSearchQuery, getMatchingHighlights } = useBookStore.getState()
+        const highlight = { book_id: 'test-1', kind: 'highlight' as const, location: 42, created_at: new Date().toISOString() }
+
+        addHighlight({ ...highlight, id: 'h1', text: 'Fear is the mind-killer.', tags: [] })
+        addHighlight({ ...highlight, id: 'h2', text: 'The spice must flow.', note: 'About fear too', tags: [] })
+        addHighlight({ ...highlight, id: 'h3', text: 'He who controls the spice...', tags: ['power'] })
+
+        expect(getMatchingHighlights()).toEqual([])
+
+        setSearchQuery('fear')
+        expect(getMatchingHighlights().map(h => h.id).sort()).toEqual(['h1', 'h2'])
+
+        setSearchQuery('power')
+        expect(getMatchingHighlights().map(h => h.id)).toEqual(['h3'])
+    })
+
+    test('applies the current filters and sort to books outside the loaded pages', () => {
+        const { setSelectedReadingStatus, setSort, filterLibrary } = useBookStore.getState()
+        const library = [
+            { ...mockBook, id: 'a', title: 'Zen', reading_status: 'finished' as const },
+            { ...mockBook, id: 'b', title: 'Alpha', reading_status: 'finished' as const },
+            { ...mockBook, id: 'c', title: 'Middle' }
+        ]
+
+        setSelectedReadingStatus('finished')
+        setSort({ key: 'title', direction: 'asc' })
+
+        expect(filterLibrary(library).map(book => book.id)).toEqual(['b', 'a'])
+        expect(useBookStore.getState().books).toHaveLength(0)
+    })
+
+    test('moves a book to the trash and off its shelves', () => {
+        const { addBook, addShelf, moveToTrash, removeFromTrash } = useBookStore.getState()
+
+        addBook(mockBook)
+        addShelf({ id: 'summer', name: 'Summer 2026', created_at: new Date().toISOString(), book_ids: ['test-1'] })
+
+        moveToTrash('test-1')
+
+        let state = useBookStore.getState()
+        expect(state.books).toHaveLength(0)
+        expect(state.shelves[0].book_ids).toEqual([])
+        expect(state.trash.map(book => book.id)).toEqual(['test-1'])
+        expect(state.trash[0].deleted_at).toBeTruthy()
+
+        removeFromTrash('test-1')
+        state = useBookStore.getState()
+        expect(state.trash).toHaveLength(0)
+    })
+
     test('manages modal state', () => {
         const { openAddModal, closeAddModal } = useBookStore.getState()
 
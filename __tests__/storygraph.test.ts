@@ -0,0 +1,50 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { parseStoryGraphCsv, storyGraphFormat } from '../lib/storygraph'
+import { detectImportFormat } from '../lib/importFormats'
+
+const fixture = readFileSync(join(__dirname, 'fixtures', 'storygraph.csv'), 'utf8')
+
+describe('StoryGraph import', () => {
+    test('is recognised from its header', () => {
+        expect(detectImportFormat(fixture)).toBe(storyGraphFormat)
+    })
+
+    test('maps StoryGraph columns onto new books', () => {
+        const [piranesi, goodOmens, leftHand, hailMary] = parseStoryGraphCsv(fixture)
+
+        expect(piranesi.row).toBe(2)
+        expect(piranesi.book).toMatchObject({
+            title: 'Piranesi',
+            author: 'Susanna Clarke',
+            reading_status: 'finished',
+            date_started: '2023-01-10',
+            date_finished: '2023-01-20',
+            rating: 5,
+            isbn_13: '9781635575637',
+            isbn_10: null,
+            format: 'hardcover',
+            review: 'A house of "endless" halls.'
+        })
+        expect(piranesi.tags).toEqual(['fantasy', 'rereads'])
+
+        expect(goodOmens.book).toMatchObject({
+            author: 'Terry Pratchett & Neil Gaiman',
+            reading_status: 'reading',
+            date_started: '2023-02-03',
+            isbn_10: '0060853980',
+            format: 'paperback'
+        })
+
+        expect(hailMary.book).toMatchObject({ reading_status: 'to-read', format: 'audiobook', date_started: null })
+        expect(hailMary.error).toBeNull()
+
+        // Did-not-finish has no matching status, so it's kept as a tag. Quarter stars go to the nearest half.
+        expect(leftHand.book).toMatchObject({ reading_status: 'to-read', rating: 3.5, format: 'ebook' })
+        expect(leftHand.tags).toEqual(['classics', 'did-not-finish'])
+    })
+
+    test('rejects files that are not StoryGraph exports', () => {
+        expect(() => parseStoryGraphCsv('Title,Exclusive Shelf\nAnimal Farm,read')).toThrow(/StoryGraph/)
+    })
+})
@@ -0,0 +1,24 @@
+import { parseLibraryParams, toLibraryParams } from '../lib/urlState'
+
+describe('Library URL state', () => {
+    test('round-trips the library state through query parameters', () => {
+        const state = { query: 'author:orwell 1984', category: 'Programming', status: 'reading', view: 'table' as const }
+        const params = toLibraryParams(state)
+
+        expect(params.toString()).toBe('q=author%3Aorwell+1984&category=Programming&status=reading&view=table')
+        expect(parseLibraryParams(params)).toEqual(state)
+    })
+
+    test('leaves defaults out of the URL', () => {
+        expect(toLibraryParams({ query: '', category: null, status: null, view: 'grid' }).toString()).toBe('')
+    })
+
+    test('ignores unknown statuses and views', () => {
+        expect(parseLibraryParams(new URLSearchParams('status=abandoned&view=carousel&category=Fiction'))).toEqual({
+            query: '',
+            category: 'Fiction',
+            status: null,
+            view: 'grid'
+        })
+    })
+})
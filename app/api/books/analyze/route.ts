@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeBook } from '../../../../lib/openai';
+
+// Short AI analysis of a single book, for the book detail page
+export async function POST(request: NextRequest) {
+    try {
+        if (!process.env.OPENAI_API_KEY) {
+            return NextResponse.json(
+                { error: 'OpenAI API key not configured' },
+                { status: 500 }
+            );
+        }
+
+        const { title, author } = await request.json();
+
+        if (!title || !author) {
+            return NextResponse.json(
+                { error: 'Title and author are required' },
+                { status: 400 }
+            );
+        }
+
+        const analysis = await analyzeBook(title, author);
+        return NextResponse.json({ analysis });
+    } catch (error) {
+        console.error('Book Analysis API Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to analyze book' },
+            { status: 500 }
+        );
+    }
+}
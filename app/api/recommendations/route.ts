@@ -45,6 +45,12 @@ async function getBookCover(title: string, author: string): Promise<string | nul
     }
 }
 
+// Describe a book for the prompt, including the user's rating when there is one
+function describeBook(book: any): string {
+    const rating = book.rating ? ` - rated ${book.rating}/5` : '';
+    return `- "${book.title}" by ${book.author} (${book.category})${rating}`;
+}
+
 // Fallback recommendations if AI fails (now with cover_url field)
 function getFallbackRecommendations(preferredGenre: string): BookRecommendation[] {
     const fallbackBooks: Record<string, BookRecommendation[]> = {
@@ -191,22 +197,32 @@ export async function POST(request: NextRequest) {
         // Analyze user's reading patterns
         const readBooks = books.filter((book: any) => book.reading_status === 'finished');
         const currentlyReading = books.filter((book: any) => book.reading_status === 'reading');
-        const categories = [...new Set(books.map((book: any) => book.category))];
+        const categories: string[] = [...new Set<string>(books.map((book: any) => book.category))];
+
+        // Ratings let the prompt tell loved books from disliked ones
+        const lovedBooks = readBooks.filter((book: any) => book.rating && book.rating >= 4);
+        const dislikedBooks = readBooks.filter((book: any) => book.rating && book.rating <= 2);
 
         const prompt = `
 You are a book recommendation expert. Based on this person's reading history, recommend 4 books they would enjoy.
 
-COMPLETED BOOKS:
-${readBooks.map((book: any) => `- "${book.title}" by ${book.author} (${book.category})`).join('\n')}
+COMPLETED BOOKS (ratings are out of 5):
+${readBooks.map(describeBook).join('\n')}
+
+LOVED (rated 4 or higher):
+${lovedBooks.map(describeBook).join('\n') || '- None rated yet'}
+
+DISLIKED (rated 2 or lower):
+${dislikedBooks.map(describeBook).join('\n') || '- None rated yet'}
 
 CURRENTLY READING:
-${currentlyReading.map((book: any) => `- "${book.title}" by ${book.author} (${book.category})`).join('\n')}
+${currentlyReading.map(describeBook).join('\n')}
 
 FAVORITE CATEGORIES: ${categories.join(', ')}
 
 Please recommend 4 books with:
 1. Real books that exist (verify title and author)
-2. Similar themes or authors to what they've enjoyed
+2. Similar themes or authors to the books they loved, and nothing close to the books they disliked
 3. Mix of their favorite categories and 1-2 new genres they might like
 4. Brief reason why they'd enjoy each book
 
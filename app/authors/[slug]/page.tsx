@@ -0,0 +1,203 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { ArrowLeft, Check, Plus } from 'lucide-react';
+import AuthWrapper from "../../../components/AuthWrapper";
+import StarRating from "../../../components/StarRating";
+import { fetchBooksByAuthor } from "../../../lib/database";
+import { searchGoogleBooks, GoogleBookResult } from "../../../lib/googleBooks";
+import { authorSlug, getAuthorStats, splitAuthors, titleKey } from "../../../lib/authors";
+import type { Book } from "../../../lib/supabase";
+
+const STATUS_BADGES: Record<Book['reading_status'], { label: string; className: string }> = {
+  'to-read': { label: '📚 To Read', className: 'bg-gray-500/20 text-gray-300' },
+  'reading': { label: '📖 Reading', className: 'bg-orange-500/20 text-orange-300' },
+  'finished': { label: '✅ Done', className: 'bg-green-500/20 text-green-300' }
+};
+
+export default function AuthorPage() {
+  const { slug } = useParams<{ slug: string }>();
+
+  const [books, setBooks] = useState<Book[]>([]);
+  const [otherWorks, setOtherWorks] = useState<GoogleBookResult[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingWorks, setLoadingWorks] = useState(false);
+
+  // The author's name as written on their books in the library. A slug for a merged spelling
+  // finds the books through the author record, so fall back to the author they all share.
+  const sharedAuthor = books[0]?.authors?.find(author =>
+    books.every(book => book.authors?.some(other => other.id === author.id)));
+  const name = books.length > 0
+    ? splitAuthors(books[0].author).find(author => authorSlug(author) === slug) || sharedAuthor?.name || books[0].author
+    : slug.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+  const stats = getAuthorStats(books);
+
+  // Titles and ISBNs in the library, to mark the other works you already own
+  const ownedTitles = new Set(books.map(book => titleKey(book.title)));
+  const ownedIsbns = new Set(books.flatMap(book => [book.isbn_10, book.isbn_13]).filter(Boolean));
+  const isOwned = (work: GoogleBookResult) =>
+    ownedTitles.has(titleKey(work.title)) || ownedIsbns.has(work.isbn13) || ownedIsbns.has(work.isbn10);
+
+  useEffect(() => {
+    const loadAuthor = async () => {
+      setLoading(true);
+      setOtherWorks([]);
+
+      const { data, error } = await fetchBooksByAuthor(slug);
+
+      if (error) {
+        console.error('Error loading author:', error);
+        alert(`Failed to load author: ${error.message || error}`);
+      }
+
+      setBooks(data || []);
+      setLoading(false);
+    };
+
+    loadAuthor();
+  }, [slug]);
+
+  // Look up their other books once the name is known, keeping one edition of each title
+  useEffect(() => {
+    if (loading) return;
+
+    const loadOtherWorks = async () => {
+      setLoadingWorks(true);
+      const results = await searchGoogleBooks(`inauthor:"${name}"`, 20);
+      const seen = new Set<string>();
+
+      setOtherWorks(results.filter(work => {
+        const key = titleKey(work.title);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      }));
+      setLoadingWorks(false);
+    };
+
+    loadOtherWorks();
+  }, [loading, name]);
+
+  return (
+    <AuthWrapper>
+      <main className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+        <div className="max-w-5xl mx-auto px-6 py-10 space-y-10">
+          <Link href="/" className="flex items-center gap-2 text-gray-300 hover:text-white transition-colors text-sm font-medium w-fit">
+            <ArrowLeft size={16} />
+            Back to library
+          </Link>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-32">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-purple-400"></div>
+            </div>
+          ) : (
+            <>
+              {/* Author header and stats */}
+              <div className="space-y-6">
+                <h1 className="text-4xl font-bold text-white">{name}</h1>
+                <div className="flex flex-wrap gap-3">
+                  {[
+                    { label: 'In Library', value: stats.total, color: 'text-white' },
+                    { label: 'Finished', value: stats.finished, color: 'text-green-400' },
+                    { label: 'Reading', value: stats.reading, color: 'text-orange-400' },
+                    { label: 'Avg Rating', value: stats.averageRating ?? '—', color: 'text-yellow-400' },
+                    { label: 'Pages Read', value: stats.pagesRead.toLocaleString(), color: 'text-blue-400' }
+                  ].map(({ label, value, color }) => (
+                    <div key={label} className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-xl px-4 py-3 text-center min-w-[90px]">
+                      <div className={`text-xl font-bold ${color}`}>{value}</div>
+                      <div className="text-xs text-gray-400 uppercase tracking-wider font-medium">{label}</div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Books in the library */}
+              <section>
+                <div className="flex items-center gap-6 mb-4">
+                  <h2 className="text-sm font-medium text-gray-400 uppercase tracking-wider">In Your Library</h2>
+                  <div className="flex-1 h-px bg-gradient-to-r from-white/10 to-transparent"></div>
+                </div>
+
+                {books.length === 0 ? (
+                  <p className="text-gray-400">No books by {name} in your library yet.</p>
+                ) : (
+                  <ul className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl overflow-hidden divide-y divide-white/10">
+                    {books.map((book) => (
+                      <li key={book.id}>
+                        <Link href={`/books/${book.id}`} className="flex items-center gap-4 p-4 hover:bg-white/5 transition-colors">
+                          {book.cover_url ? (
+                            <img src={book.cover_url} alt={book.title} className="w-10 h-14 object-cover rounded" />
+                          ) : (
+                            <div className="w-10 h-14 bg-gray-700 rounded flex items-center justify-center text-gray-500 text-xs">📖</div>
+                          )}
+                          <div className="flex-1 min-w-0">
+                            <div className="font-medium text-white truncate">{book.title}</div>
+                            {splitAuthors(book.author).length > 1 && (
+                              <div className="text-xs text-gray-400 truncate">with {splitAuthors(book.author).filter(author => authorSlug(author) !== slug).join(', ')}</div>
+                            )}
+                          </div>
+                          {book.rating ? <StarRating rating={book.rating} size={14} /> : null}
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_BADGES[book.reading_status].className}`}>
+                            {STATUS_BADGES[book.reading_status].label}
+                          </span>
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+
+              {/* Other works from Google Books */}
+              <section>
+                <div className="flex items-center gap-6 mb-4">
+                  <h2 className="text-sm font-medium text-gray-400 uppercase tracking-wider">Other Works</h2>
+                  <div className="flex-1 h-px bg-gradient-to-r from-white/10 to-transparent"></div>
+                </div>
+
+                {loadingWorks ? (
+                  <p className="text-gray-400 text-sm">Looking up other books by {name}...</p>
+                ) : otherWorks.length === 0 ? (
+                  <p className="text-gray-400 text-sm">Google Books didn't find anything else by {name}.</p>
+                ) : (
+                  <div className="grid gap-3 grid-cols-1 md:grid-cols-2">
+                    {otherWorks.map((work) => {
+                      const owned = isOwned(work);
+
+                      return (
+                        <div key={work.googleBooksId} className="flex items-center gap-3 bg-white/5 border border-white/10 rounded-2xl p-3">
+                          {work.coverUrl ? (
+                            <img src={work.coverUrl} alt={work.title} className="w-10 h-14 object-cover rounded" />
+                          ) : (
+                            <div className="w-10 h-14 bg-gray-700 rounded flex items-center justify-center text-gray-500 text-xs">📖</div>
+                          )}
+                          <div className="flex-1 min-w-0">
+                            <div className="text-sm font-medium text-white truncate" title={work.title}>{work.title}</div>
+                            <div className="text-xs text-gray-400">{work.publishedDate?.slice(0, 4) || 'Unknown year'}</div>
+                          </div>
+                          {owned ? (
+                            <span className="flex items-center gap-1 px-2 py-1 bg-green-500/20 text-green-300 rounded-full text-xs font-medium">
+                              <Check size={12} />
+                              Owned
+                            </span>
+                          ) : (
+                            <span className="flex items-center gap-1 px-2 py-1 bg-gray-500/20 text-gray-400 rounded-full text-xs font-medium">
+                              <Plus size={12} />
+                              Not owned
+                            </span>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </section>
+            </>
+          )}
+        </div>
+      </main>
+    </AuthWrapper>
+  );
+}
@@ -0,0 +1,347 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { ArrowLeft, ChevronLeft, ChevronRight, Sparkles, Calendar, Clock, RotateCcw, Layers } from 'lucide-react';
+import AuthWrapper from "../../../components/AuthWrapper";
+import StarRating from "../../../components/StarRating";
+import AuthorLinks from "../../../components/AuthorLinks";
+import Markdown from "../../../components/Markdown";
+import { useBookStore } from "../../../lib/store";
+import { fetchBook, fetchAdjacentBooks, fetchReadingSessions, AdjacentBooks } from "../../../lib/database";
+import { formatProgressPosition, formatSessionRange, getReadCount } from "../../../lib/progress";
+import { formatSeries } from "../../../lib/series";
+import { toLibraryParams } from "../../../lib/urlState";
+import type { Book, ProgressUnit, ReadingSession } from "../../../lib/supabase";
+
+const formatDate = (dateString?: string | null) => {
+  if (!dateString) return null;
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+};
+
+const LENGTH_UNITS: Record<ProgressUnit, string> = {
+  pages: 'pages',
+  location: 'locations',
+  minutes: 'minutes'
+};
+
+const STATUS_LABELS: Record<Book['reading_status'], string> = {
+  'to-read': '📚 To Read',
+  'reading': '📖 Reading',
+  'finished': '✅ Finished'
+};
+
+export default function BookDetailPage() {
+  const { id } = useParams<{ id: string }>();
+
+  const [book, setBook] = useState<Book | null>(null);
+  const [sessions, setSessions] = useState<ReadingSession[]>([]);
+  const [adjacent, setAdjacent] = useState<AdjacentBooks>({ previous: null, next: null });
+  const [loading, setLoading] = useState(true);
+  const [analysis, setAnalysis] = useState<string | null>(null);
+  const [analyzing, setAnalyzing] = useState(false);
+
+  // Coming from the library, prev/next follow the list that was showing and "back" returns to it
+  const { getFilteredBooks, searchQuery, selectedCategory, selectedReadingStatus, viewMode } = useBookStore();
+  const libraryBooks = getFilteredBooks();
+  const libraryIndex = libraryBooks.findIndex(b => b.id === id);
+  const libraryParams = toLibraryParams({
+    query: searchQuery,
+    category: selectedCategory,
+    status: selectedReadingStatus,
+    view: viewMode
+  }).toString();
+  const libraryHref = libraryParams ? `/?${libraryParams}` : '/';
+
+  const previous = libraryIndex > 0 ? libraryBooks[libraryIndex - 1] : libraryIndex === -1 ? adjacent.previous : null;
+  const next = libraryIndex !== -1 ? libraryBooks[libraryIndex + 1] || null : adjacent.next;
+
+  useEffect(() => {
+    const loadBook = async () => {
+      setLoading(true);
+      setAnalysis(null);
+      setSessions([]);
+
+      const { data, error } = await fetchBook(id);
+
+      if (error) {
+        console.error('Error loading book:', error);
+        alert(`Failed to load book: ${error.message || error}`);
+      }
+
+      setBook(data);
+      setLoading(false);
+      if (!data) return;
+
+      const [sessionsResult, adjacentResult] = await Promise.all([
+        fetchReadingSessions(data.id),
+        fetchAdjacentBooks({ created_at: data.created_at, id: data.id })
+      ]);
+
+      if (sessionsResult.error) {
+        console.error('Error loading reading sessions:', sessionsResult.error);
+      }
+      if (adjacentResult.error) {
+        console.error('Error loading adjacent books:', adjacentResult.error);
+      }
+
+      setSessions(sessionsResult.data || []);
+      setAdjacent(adjacentResult.data || { previous: null, next: null });
+    };
+
+    loadBook();
+  }, [id]);
+
+  const handleAnalyze = async () => {
+    if (!book) return;
+    setAnalyzing(true);
+
+    try {
+      const response = await fetch('/api/books/analyze', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: book.title, author: book.author })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to analyze book');
+      }
+
+      setAnalysis(data.analysis);
+    } catch (error: any) {
+      console.error('Error analyzing book:', error);
+      alert(`Failed to analyze book: ${error.message}`);
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  const details: [string, string | null | undefined][] = book ? [
+    ['Category', book.category],
+    ['Series', formatSeries(book.series_name, book.series_position)],
+    ['Format', book.format ? book.format.charAt(0).toUpperCase() + book.format.slice(1) : null],
+    ['Length', book.page_count ? `${book.page_count} ${LENGTH_UNITS[book.progress_unit || 'pages']}` : null],
+    ['Publisher', book.publisher],
+    ['Published', book.published_date],
+    ['Language', book.language],
+    ['ISBN-13', book.isbn_13],
+    ['ISBN-10', book.isbn_10],
+    ['Added', formatDate(book.created_at)]
+  ] : [];
+
+  const cycles = book ? [...(book.reading_cycles || [])].reverse() : [];
+
+  return (
+    <AuthWrapper>
+      <main className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+        <div className="max-w-5xl mx-auto px-6 py-10">
+          {/* Navigation */}
+          <div className="flex items-center justify-between gap-4 mb-8">
+            <Link href={libraryHref} className="flex items-center gap-2 text-gray-300 hover:text-white transition-colors text-sm font-medium">
+              <ArrowLeft size={16} />
+              Back to library
+            </Link>
+            <div className="flex gap-2">
+              {previous ? (
+                <Link
+                  href={`/books/${previous.id}`}
+                  className="flex items-center gap-1 px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm text-gray-300 hover:text-white hover:bg-white/10 transition-all max-w-[220px]"
+                  title={previous.title}
+                >
+                  <ChevronLeft size={16} className="flex-shrink-0" />
+                  <span className="truncate">{previous.title}</span>
+                </Link>
+              ) : null}
+              {next ? (
+                <Link
+                  href={`/books/${next.id}`}
+                  className="flex items-center gap-1 px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm text-gray-300 hover:text-white hover:bg-white/10 transition-all max-w-[220px]"
+                  title={next.title}
+                >
+                  <span className="truncate">{next.title}</span>
+                  <ChevronRight size={16} className="flex-shrink-0" />
+                </Link>
+              ) : null}
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-32">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-purple-400"></div>
+            </div>
+          ) : !book ? (
+            <div className="text-center py-20">
+              <div className="text-6xl mb-4">🔍</div>
+              <h3 className="text-xl font-medium text-white mb-2">Book not found</h3>
+              <p className="text-gray-400">It may have been deleted or moved to the trash.</p>
+            </div>
+          ) : (
+            <div className="grid gap-10 md:grid-cols-[280px_1fr]">
+              {/* Cover */}
+              <div>
+                {book.cover_url ? (
+                  <img src={book.cover_url} alt={`${book.title} cover`} className="w-full rounded-2xl shadow-2xl shadow-purple-500/10" />
+                ) : (
+                  <div className="w-full aspect-[2/3] bg-gradient-to-br from-purple-500 to-blue-600 rounded-2xl flex items-center justify-center">
+                    <span className="text-6xl">📖</span>
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-8 min-w-0">
+                {/* Title and status */}
+                <div className="space-y-3">
+                  <h1 className="text-4xl font-bold text-white leading-tight">{book.title}</h1>
+                  <p className="text-xl text-gray-300"><AuthorLinks author={book.author} /></p>
+                  {book.series_name && (
+                    <p className="flex items-center gap-1 text-sm text-gray-400">
+                      <Layers size={14} />
+                      {formatSeries(book.series_name, book.series_position)}
+                    </p>
+                  )}
+                  <div className="flex flex-wrap items-center gap-3">
+                    <span className={`px-3 py-1 rounded-full text-sm font-medium ${book.reading_status === 'finished' ? 'bg-green-500/20 text-green-400' :
+                      book.reading_status === 'reading' ? 'bg-orange-500/20 text-orange-400' :
+                        'bg-gray-500/20 text-gray-400'
+                      }`}>
+                      {STATUS_LABELS[book.reading_status]}
+                    </span>
+                    {book.rating ? (
+                      <div className="flex items-center gap-2">
+                        <StarRating rating={book.rating} size={16} />
+                        <span className="text-sm text-gray-400">{book.rating}/5</span>
+                      </div>
+                    ) : null}
+                    {getReadCount(book) > 1 && (
+                      <span className="flex items-center gap-1 text-sm text-purple-300">
+                        <RotateCcw size={14} />
+                        Read {getReadCount(book)} times
+                      </span>
+                    )}
+                  </div>
+                  {(book.tags || []).length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {(book.tags || []).map((tag) => (
+                        <span key={tag} className="px-2 py-0.5 bg-blue-500/10 text-blue-300 rounded-full text-xs">
+                          #{tag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {/* Progress */}
+                {book.reading_status === 'reading' && (
+                  <div className="space-y-2">
+                    <div className="flex justify-between text-sm text-gray-400">
+                      <span>{book.page_count ? formatProgressPosition(book.current_page, book.page_count, book.progress_unit) : 'Progress'}</span>
+                      <span className="font-medium text-purple-400">{book.progress_percentage || 0}%</span>
+                    </div>
+                    <div className="w-full bg-gray-700 rounded-full h-2">
+                      <div
+                        className="bg-gradient-to-r from-purple-500 to-blue-500 h-2 rounded-full"
+                        style={{ width: `${Math.min(book.progress_percentage || 0, 100)}%` }}
+                      ></div>
+                    </div>
+                  </div>
+                )}
+
+                {/* Metadata */}
+                <dl className="grid grid-cols-2 gap-x-6 gap-y-3 text-sm">
+                  {details.filter(([, value]) => value).map(([label, value]) => (
+                    <div key={label}>
+                      <dt className="text-gray-400 text-xs uppercase tracking-wider">{label}</dt>
+                      <dd className="text-white">{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+
+                {/* AI analysis */}
+                <section className="bg-white/5 border border-white/10 rounded-2xl p-5 space-y-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <h2 className="flex items-center gap-2 text-sm font-medium text-gray-300 uppercase tracking-wider">
+                      <Sparkles size={16} className="text-purple-400" />
+                      AI Analysis
+                    </h2>
+                    {!analysis && (
+                      <button
+                        onClick={handleAnalyze}
+                        disabled={analyzing}
+                        className="px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white text-sm rounded-lg font-medium hover:from-blue-700 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+                      >
+                        {analyzing ? 'Analyzing...' : 'Analyze this book'}
+                      </button>
+                    )}
+                  </div>
+                  {analysis && <p className="text-gray-200 leading-relaxed">{analysis}</p>}
+                </section>
+
+                {/* Review and notes, in full */}
+                {book.review && book.review.trim() && (
+                  <section className="space-y-2">
+                    <h2 className="text-sm font-medium text-gray-400 uppercase tracking-wider">Review</h2>
+                    <Markdown text={book.review} className="text-gray-200 leading-relaxed" />
+                  </section>
+                )}
+                {book.reading_notes && book.reading_notes.trim() && (
+                  <section className="space-y-2">
+                    <h2 className="text-sm font-medium text-gray-400 uppercase tracking-wider">📝 Notes</h2>
+                    <p className="text-gray-200 whitespace-pre-line leading-relaxed">{book.reading_notes}</p>
+                  </section>
+                )}
+
+                {/* Progress history */}
+                <section className="space-y-4">
+                  <h2 className="text-sm font-medium text-gray-400 uppercase tracking-wider">Reading History</h2>
+
+                  {cycles.length === 0 && sessions.length === 0 && (
+                    <p className="text-sm text-gray-400">
+                      {book.date_started ? `Started ${formatDate(book.date_started)}.` : 'Not started yet.'} No sessions logged.
+                    </p>
+                  )}
+
+                  {cycles.length > 0 && (
+                    <ul className="space-y-2">
+                      {cycles.map((cycle, index) => (
+                        <li key={cycle.id} className="flex items-center gap-3 text-sm text-gray-300">
+                          <Calendar size={14} className="text-green-400 flex-shrink-0" />
+                          <span>
+                            Read #{cycles.length - index}: {cycle.date_started ? `${formatDate(cycle.date_started)} → ` : ''}{formatDate(cycle.date_finished)}
+                          </span>
+                          {cycle.rating ? <StarRating rating={cycle.rating} size={12} /> : null}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {sessions.length > 0 && (
+                    <ul className="divide-y divide-white/10 bg-white/5 border border-white/10 rounded-2xl overflow-hidden">
+                      {[...sessions].reverse().map((session) => (
+                        <li key={session.id} className="flex items-start gap-3 px-4 py-3 text-sm">
+                          <Clock size={14} className="text-blue-400 flex-shrink-0 mt-0.5" />
+                          <div className="min-w-0">
+                            <div className="text-white">
+                              {formatSessionRange(session.from_page, session.to_page, book.progress_unit)}
+                            </div>
+                            <div className="text-xs text-gray-400">{formatDate(session.started_at)}</div>
+                            {session.note && <p className="text-xs text-gray-300 mt-1">{session.note}</p>}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </section>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </AuthWrapper>
+  );
+}
@@ -1,40 +1,152 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { Suspense, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import BookCard from "../components/BookCard";
 import AddBookModal from "../components/AddBookModal";
 import DeleteConfirmModal from "../components/DeleteConfirmModal";
 import EditBookModal from "../components/EditBookModal";
+import LogSessionModal from "../components/LogSessionModal";
+import StarRating from "../components/StarRating";
+import ShelfSwitcher from "../components/ShelfSwitcher";
+import SeriesView from "../components/SeriesView";
+import HighlightResults from "../components/HighlightResults";
+import TrashView from "../components/TrashView";
+import SearchSnippet from "../components/SearchSnippet";
+import QueryErrors from "../components/QueryErrors";
+import SmartShelfChips from "../components/SmartShelfChips";
+import SortableHeader from "../components/SortableHeader";
+import AuthorLinks from "../components/AuthorLinks";
+import AuthorMergeModal from "../components/AuthorMergeModal";
+import ImportModal from "../components/ImportModal";
+import ExportModal from "../components/ExportModal";
+import KindleImportModal, { type KindleImportResult } from "../components/KindleImportModal";
+import type { HighlightDetails } from "../components/HighlightsPanel";
 import AuthWrapper from "../components/AuthWrapper";
 import RecommendationsSection from "../components/RecommendationsSection";
-import { supabase } from "../lib/supabase";
+import { supabase, type Author, type Book } from "../lib/supabase";
 import { useBookStore } from "../lib/store";
+import { groupSeries } from "../lib/series";
+import { findBookByIsbn } from "../lib/isbn";
+import { getCurrentReadStart, getReadCount } from "../lib/progress";
+import { parseQuery } from "../lib/query";
+import type { ImportedBook } from "../lib/import";
+import { toKindleBookData, toKindleHighlightData, type KindleImport } from "../lib/kindle";
+import { downloadExport, type ExportData, type ExportFormat, type ExportScope } from "../lib/export";
+import { parseLibraryParams, toLibraryParams } from "../lib/urlState";
+import { SORT_LABELS, DEFAULT_DIRECTIONS, loadSavedSort, saveSort, type SortKey } from "../lib/sort";
+import {
+  fetchBooks,
+  fetchLibraryStats,
+  LibraryStats,
+  BOOKS_PAGE_SIZE,
+  updateBook,
+  deleteBook,
+  fetchTrash,
+  restoreBook,
+  purgeBook,
+  purgeExpiredTrash,
+  setBookTags,
+  setBookAuthors,
+  fetchAuthors,
+  updateAuthor,
+  mergeAuthors,
+  importBooks,
+  fetchAllBooks,
+  fetchSeriesBooks,
+  countBooks,
+  fetchIsbns,
+  fetchTagCounts,
+  fetchReadingSessions,
+  fetchBookChanges,
+  updateBookProgress,
+  addReadingSession,
+  syncReadingCycle,
+  ReadingSessionDetails,
+  fetchShelves,
+  createShelf,
+  updateShelf,
+  deleteShelf,
+  addBookToShelf,
+  removeBookFromShelf,
+  reorderShelfBooks,
+  fetchSmartShelves,
+  createSmartShelf,
+  updateSmartShelf,
+  deleteSmartShelf,
+  fetchHighlights,
+  addHighlight,
+  importHighlights,
+  updateHighlight,
+  deleteHighlight
+} from "../lib/database";
 import { Plus } from 'lucide-react';
 
 // No longer need custom backend API - using Supabase directly!
 
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
 export default function Home() {
+  return (
+    <Suspense fallback={null}>
+      <Library />
+    </Suspense>
+  );
+}
+
+function Library() {
   // Get everything from the store
   const {
     books,
+    shelves,
+    smartShelves,
+    highlights,
+    trash,
+    showTrash,
     loading,
+    nextCursor,
+    loadingMore,
     searchQuery,
+    searchSnippets,
     selectedCategory,
     selectedReadingStatus,
+    selectedShelf,
+    selectedTags,
+    tagMatchMode,
+    minRating,
+    sort,
     viewMode,
     addingBook,
     showAddModal,
     showEditModal,
     showDeleteModal,
+    showLogSessionModal,
     bookToEdit,
+    editModalTab,
     bookToDelete,
+    bookToLogSession,
 
     // Actions
     setBooks,
+    setShelves,
+    setSmartShelves,
+    setHighlights,
+    setTrash,
+    setShowTrash,
     setLoading,
+    setNextCursor,
+    setLoadingMore,
     setSearchQuery,
+    setSearchSnippets,
     setSelectedCategory,
     setSelectedReadingStatus,
+    setSelectedShelf,
+    setSelectedTags,
+    toggleTag,
+    setTagMatchMode,
+    setMinRating,
+    setSort,
+    toggleSort,
     setViewMode,
     setAddingBook,
 
@@ -45,38 +157,369 @@ export default function Home() {
     closeEditModal,
     openDeleteModal,
     closeDeleteModal,
+    openLogSessionModal,
+    closeLogSessionModal,
 
     // Book actions
     addBook: addBookToStore,
+    appendBooks,
     updateBook: updateBookInStore,
-    removeBook,
+    moveToTrash,
+    removeFromTrash,
+
+    // Shelf actions
+    addShelf: addShelfToStore,
+    updateShelf: updateShelfInStore,
+    removeShelf: removeShelfFromStore,
+    setShelfBookIds,
+
+    // Smart shelf actions
+    addSmartShelf: addSmartShelfToStore,
+    updateSmartShelf: updateSmartShelfInStore,
+    removeSmartShelf: removeSmartShelfFromStore,
+    applyFilters,
+
+    // Highlight actions
+    addHighlight: addHighlightToStore,
+    updateHighlight: updateHighlightInStore,
+    removeHighlight: removeHighlightFromStore,
 
     // Computed values
     getFilteredBooks,
-    getCategories
+    getCurrentFilters,
+    filterLibrary,
+    getActiveSmartShelf,
+    getTags,
+    getMatchingHighlights
   } = useBookStore()
 
   // State for pre-filled modal data from AI recommendations
   const [modalInitialData, setModalInitialData] = useState<any>(null);
 
+  // Book being dragged to reorder the selected shelf
+  const [draggedBookId, setDraggedBookId] = useState<string | null>(null);
+
   // Get filtered data
   const filteredBooks = getFilteredBooks()
-  const categories = getCategories()
 
-  // Load books from backend on mount
+  // Every tag in the library with how many books have it, plus any on loaded books that were added since
+  const [tagCounts, setTagCounts] = useState<Record<string, number>>({});
+  const tags = Array.from(new Set([...Object.keys(tagCounts), ...getTags()])).sort((a, b) => a.localeCompare(b))
+  const matchingHighlights = getMatchingHighlights()
+
+  const currentFilters = getCurrentFilters()
+  const activeSmartShelf = getActiveSmartShelf()
+  const hasActiveFilters = currentFilters.query.trim() !== '' || currentFilters.category !== null ||
+    currentFilters.status !== null || currentFilters.shelf_id !== null ||
+    currentFilters.tags.length > 0 || currentFilters.min_rating !== null
+  const highlightTags = Array.from(new Set(highlights.flatMap(highlight => highlight.tags))).sort((a, b) => a.localeCompare(b))
+
+  // Series are grouped across the whole library so gaps aren't hidden by filters or unloaded pages,
+  // but only series with at least one matching book are shown. Loaded books are the freshest copies.
+  const [seriesLibrary, setSeriesLibrary] = useState<Book[] | null>(null);
+  const seriesBooks = useMemo(() => {
+    if (!seriesLibrary) return books;
+    const loadedIds = new Set([...books, ...trash].map(book => book.id));
+    return [...books, ...seriesLibrary.filter(book => !loadedIds.has(book.id))];
+  }, [books, trash, seriesLibrary]);
+  const filteredIds = new Set([...filteredBooks, ...filterLibrary(seriesBooks)].map(book => book.id))
+  const seriesGroups = groupSeries(seriesBooks).filter(group =>
+    group.entries.some(entry => entry.book && filteredIds.has(entry.book.id))
+  )
+
+  // Manual shelf order only applies when no other sort is active
+  const currentShelf = shelves.find(shelf => shelf.id === selectedShelf) || null;
+  const canReorderShelf = currentShelf !== null && sort === null;
+
+  // Counts across the whole library - the books list only holds the pages loaded so far
+  const [libraryStats, setLibraryStats] = useState<LibraryStats | null>(null);
+  const totalBooks = libraryStats?.total ?? books.length;
+
+  // Smart shelves are counted in the database, again whenever the library or a shelf changes
+  const [smartShelfCounts, setSmartShelfCounts] = useState<Record<string, number>>({});
+  const countsRequestRef = useRef(0);
+
+  // Author records, loaded when the authors dialog opens
+  const [authors, setAuthors] = useState<Author[]>([]);
+  const [showAuthorsModal, setShowAuthorsModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+  // The whole library, loaded when an import opens so duplicates and clippings match books on unloaded pages too
+  const [importLibrary, setImportLibrary] = useState<Book[] | null>(null);
+  const [kindleLibrary, setKindleLibrary] = useState<Book[] | null>(null);
+
+  // Page shown in the table view
+  const [tablePage, setTablePage] = useState(0);
+  const lastTablePage = Math.max(Math.ceil(filteredBooks.length / BOOKS_PAGE_SIZE) - 1, 0);
+  const currentTablePage = Math.min(tablePage, lastTablePage);
+  const tablePageBooks = filteredBooks.slice(currentTablePage * BOOKS_PAGE_SIZE, (currentTablePage + 1) * BOOKS_PAGE_SIZE);
+
+  // Books ticked in the table view, e.g. to export citations for just those
+  const [selectedBookIds, setSelectedBookIds] = useState<string[]>([]);
+  const tablePageSelected = tablePageBooks.length > 0 && tablePageBooks.every(book => selectedBookIds.includes(book.id));
+
+  // Sentinel below the grid that loads the next page when it scrolls into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Bumped on every fresh load, so responses for an out-of-date search are ignored
+  const booksRequestRef = useRef(0);
+  const hasLoadedBooks = useRef(false);
+
+  // Set when loading the next page fails, so scrolling doesn't keep retrying until asked to
+  const [loadMoreFailed, setLoadMoreFailed] = useState(false);
+
+  // The search bar runs in the database once typing pauses: its free text as a ranked full-text
+  // search that also looks through reading notes and highlights, and filters like status:finished
+  // alongside the rest. Until the results arrive the loaded books are filtered as you type.
+  const parsedQuery = useMemo(() => parseQuery(searchQuery), [searchQuery]);
+  const [serverQuery, setServerQuery] = useState(searchQuery);
+  const parsedServerQuery = useMemo(() => parseQuery(serverQuery), [serverQuery]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setServerQuery(searchQuery), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // Every filter is applied in the database so it holds across pages - start again from the
+  // first page whenever one changes
+  const serverFilters = {
+    category: selectedCategory,
+    status: selectedReadingStatus,
+    shelfId: selectedShelf,
+    tags: selectedTags,
+    tagMatchMode,
+    minRating,
+    search: parsedServerQuery.text,
+    queryFilters: parsedServerQuery.filters,
+    sort
+  };
+
   useEffect(() => {
     loadBooks();
+  }, [selectedCategory, selectedReadingStatus, selectedShelf, selectedTags, tagMatchMode, minRating, serverQuery, sort]);
+
+  // The series view loads every book in a series each time it's opened
+  useEffect(() => {
+    if (viewMode === 'series') loadSeriesBooks();
+  }, [viewMode]);
+
+  // Infinite scroll for the grid and series views
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor || loadingMore || loadMoreFailed) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) loadMoreBooks();
+    }, { rootMargin: '400px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadingMore, loadMoreFailed, viewMode, showTrash]);
+
+  // Search, category, status and view are mirrored in the URL so links and back/forward work
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const urlParams = searchParams.toString();
+  // URLs written below that haven't arrived back yet - when one does, it (and anything older)
+  // is just catching up with the store and mustn't undo keystrokes typed since
+  const pendingUrls = useRef<string[]>([]);
+
+  // URL -> store, on first load and whenever back/forward changes the URL
+  useEffect(() => {
+    const pendingIndex = pendingUrls.current.indexOf(urlParams);
+    if (pendingIndex !== -1) {
+      pendingUrls.current = pendingUrls.current.slice(pendingIndex + 1);
+      return;
+    }
+
+    const state = parseLibraryParams(new URLSearchParams(urlParams));
+    useBookStore.setState({
+      searchQuery: state.query,
+      selectedCategory: state.category,
+      selectedReadingStatus: state.status,
+      viewMode: state.view
+    });
+  }, [urlParams]);
+
+  // Store -> URL. Read straight from the store so a URL that was just applied isn't overwritten
+  // with the values from before it. Typing a search replaces the history entry; anything else
+  // adds one so back undoes it.
+  useEffect(() => {
+    const state = useBookStore.getState();
+    const params = toLibraryParams({
+      query: state.searchQuery,
+      category: state.selectedCategory,
+      status: state.selectedReadingStatus,
+      view: state.viewMode
+    });
+    const next = params.toString();
+    const current = toLibraryParams(parseLibraryParams(new URLSearchParams(urlParams)));
+    if (next === current.toString()) return;
+
+    current.delete('q');
+    params.delete('q');
+    const onlySearchChanged = current.toString() === params.toString();
+
+    const url = next ? `${pathname}?${next}` : pathname;
+    pendingUrls.current.push(next);
+    if (onlySearchChanged) {
+      router.replace(url, { scroll: false });
+    } else {
+      router.push(url, { scroll: false });
+    }
+  }, [searchQuery, selectedCategory, selectedReadingStatus, viewMode]);
+
+  // Bring back the last sort on mount, then remember each change
+  const sortRestored = useRef(false);
+
+  useEffect(() => {
+    if (!sortRestored.current) {
+      sortRestored.current = true;
+      const saved = loadSavedSort();
+      if (saved) setSort(saved);
+      return;
+    }
+    saveSort(sort);
+  }, [sort]);
+
+  // Load shelves, highlights and stats from backend on mount
+  useEffect(() => {
+    loadLibraryStats();
+    loadShelves();
+    loadSmartShelves();
+    loadHighlights();
+    loadTrash();
   }, []);
 
+  // Stats are reloaded after every change to the library, so tag counts follow them
+  useEffect(() => {
+    loadTagCounts();
+  }, [libraryStats]);
+
+  useEffect(() => {
+    loadSmartShelfCounts();
+  }, [smartShelves, shelves, libraryStats]);
+
+  const loadSmartShelfCounts = async () => {
+    const requestId = ++countsRequestRef.current;
+    const counts = await Promise.all(smartShelves.map(async smartShelf => {
+      const { data, error } = await countBooks(smartShelf.filters);
+      if (error) console.error(`Error counting smart shelf ${smartShelf.name}:`, error);
+      return [smartShelf.id, data] as const;
+    }));
+
+    if (requestId !== countsRequestRef.current) return;
+    setSmartShelfCounts(Object.fromEntries(counts.filter((entry): entry is readonly [string, number] => entry[1] !== null)));
+  };
+
+  const loadTagCounts = async () => {
+    const { data, error } = await fetchTagCounts();
+
+    if (error) {
+      console.error('Error loading tag counts:', error);
+      return;
+    }
+
+    setTagCounts(data || {});
+  };
+
+  const loadSeriesBooks = async () => {
+    const { data, error } = await fetchSeriesBooks();
+
+    if (error) {
+      console.error('Error loading series:', error);
+      return;
+    }
+
+    setSeriesLibrary(data);
+  };
+
+  const loadAuthors = async () => {
+    const { data, error } = await fetchAuthors();
+
+    if (error) {
+      console.error('Error loading authors:', error);
+      alert(`Failed to load authors: ${error.message || error}`);
+      return;
+    }
+
+    setAuthors(data || []);
+  };
+
+  const loadTrash = async () => {
+    // Anything trashed more than 30 days ago is purged before the trash is shown
+    const { error: purgeError } = await purgeExpiredTrash();
+
+    if (purgeError) {
+      console.error('Error purging old trash:', purgeError);
+    }
+
+    const { data, error } = await fetchTrash();
+
+    if (error) {
+      console.error('Error loading trash:', error);
+      return;
+    }
+
+    setTrash(data || []);
+  };
+
+  const loadHighlights = async () => {
+    const { data, error } = await fetchHighlights();
+
+    if (error) {
+      console.error('Error loading highlights:', error);
+      return;
+    }
+
+    setHighlights(data || []);
+  };
+
+  const loadShelves = async () => {
+    const { data, error } = await fetchShelves();
+
+    if (error) {
+      console.error('Error loading shelves:', error);
+      return;
+    }
+
+    setShelves(data || []);
+  };
+
+  const loadSmartShelves = async () => {
+    const { data, error } = await fetchSmartShelves();
+
+    if (error) {
+      console.error('Error loading smart shelves:', error);
+      return;
+    }
+
+    setSmartShelves(data || []);
+  };
+
+  const loadLibraryStats = async () => {
+    const { data, error } = await fetchLibraryStats();
+
+    if (error) {
+      console.error('Error loading library stats:', error);
+      return;
+    }
+
+    setLibraryStats(data);
+  };
+
+  // Load the first page of books. Only the very first load shows the full-page spinner,
+  // so the search box keeps its focus while typing.
   const loadBooks = async () => {
+    const requestId = ++booksRequestRef.current;
+
     try {
-      setLoading(true);
+      if (!hasLoadedBooks.current) setLoading(true);
 
-      // Use Supabase instead of custom API
-      const { data, error } = await supabase
-        .from('books')
-        .select('*')
-        .order('created_at', { ascending: false });
+      // Fetch books with their tags from Supabase
+      const { data, nextCursor: cursor, snippets, error } = await fetchBooks(serverFilters);
+
+      if (requestId !== booksRequestRef.current) return;
 
       if (error) {
         console.error('Error loading books:', error);
@@ -85,6 +528,11 @@ export default function Home() {
       }
 
       setBooks(data || []);
+      setSearchSnippets(serverFilters.search ? snippets : null);
+      setNextCursor(cursor);
+      setLoadMoreFailed(false);
+      setTablePage(0);
+      hasLoadedBooks.current = true;
       console.log(`✅ Loaded ${data?.length || 0} books from Supabase`);
     } catch (error: any) {
       console.error('Unexpected error loading books:', error);
@@ -94,6 +542,53 @@ export default function Home() {
     }
   };
 
+  // Load the page after the last one loaded, with the same filters
+  const loadMoreBooks = async () => {
+    if (!nextCursor || loadingMore) return;
+
+    const requestId = booksRequestRef.current;
+    setLoadMoreFailed(false);
+    setLoadingMore(true);
+
+    const { data, nextCursor: cursor, snippets, error } = await fetchBooks({ ...serverFilters, cursor: nextCursor });
+
+    setLoadingMore(false);
+    if (requestId !== booksRequestRef.current) return;
+
+    if (error) {
+      console.error('Error loading more books:', error);
+      setLoadMoreFailed(true);
+      return;
+    }
+
+    appendBooks(data || []);
+    const loadedSnippets = useBookStore.getState().searchSnippets;
+    if (loadedSnippets) setSearchSnippets({ ...loadedSnippets, ...snippets });
+    setNextCursor(cursor);
+  };
+
+  const handleNextTablePage = async () => {
+    // Fetch another page first if the next table page isn't fully loaded yet
+    if ((currentTablePage + 2) * BOOKS_PAGE_SIZE > filteredBooks.length && nextCursor) {
+      await loadMoreBooks();
+    }
+    setTablePage(currentTablePage + 1);
+  };
+
+  const handleToggleSelected = (id: string) => {
+    setSelectedBookIds(selectedBookIds.includes(id)
+      ? selectedBookIds.filter(selected => selected !== id)
+      : [...selectedBookIds, id]);
+  };
+
+  // Tick or untick every book on the table page shown
+  const handleToggleTablePageSelected = () => {
+    const pageIds = tablePageBooks.map(book => book.id);
+    setSelectedBookIds(tablePageSelected
+      ? selectedBookIds.filter(id => !pageIds.includes(id))
+      : [...selectedBookIds, ...pageIds.filter(id => !selectedBookIds.includes(id))]);
+  };
+
   // Add book from AI recommendation - opens modal with pre-filled data
   const handleAddBookFromRecommendation = (recommendationData: any) => {
     console.log('=== Page.tsx Debug ===');
@@ -121,6 +616,17 @@ export default function Home() {
 
   // Add book handler
   const handleAddBook = async (newBookData: any) => {
+    // Same ISBN means it's already on the shelf - check the whole library before adding a second copy
+    const { data: isbns, error: isbnError } = await fetchIsbns();
+    if (isbnError) {
+      console.error('Error checking for duplicate ISBNs:', isbnError);
+    }
+
+    const duplicate = findBookByIsbn(isbns || books, newBookData.isbn_10, newBookData.isbn_13);
+    if (duplicate && !confirm(`"${duplicate.title}" with this ISBN is already in your library. Add it anyway?`)) {
+      return;
+    }
+
     try {
       setAddingBook(true);
 
@@ -131,9 +637,22 @@ export default function Home() {
         cover_url: newBookData.cover_url || null,
         reading_status: newBookData.reading_status || 'to-read',
         progress_percentage: newBookData.progress_percentage || 0,
+        page_count: newBookData.page_count || null,
+        current_page: newBookData.current_page || null,
+        progress_unit: newBookData.progress_unit || 'pages',
         date_started: newBookData.date_started || null,
         date_finished: newBookData.date_finished || null,
         reading_notes: newBookData.reading_notes || null,
+        rating: newBookData.rating || null,
+        review: newBookData.review || null,
+        series_name: newBookData.series_name || null,
+        series_position: newBookData.series_position ?? null,
+        isbn_10: newBookData.isbn_10 || null,
+        isbn_13: newBookData.isbn_13 || null,
+        publisher: newBookData.publisher || null,
+        published_date: newBookData.published_date || null,
+        language: newBookData.language || null,
+        format: newBookData.format || null,
       };
 
       // Use Supabase to add book
@@ -148,7 +667,27 @@ export default function Home() {
       }
 
       if (data) {
-        addBookToStore(data);
+        const { data: savedTags, error: tagError } = await setBookTags(data.id, newBookData.tags || []);
+
+        if (tagError) {
+          console.error('Error saving tags:', tagError);
+        }
+
+        const { data: linkedAuthors, error: authorError } = await setBookAuthors(data.id, data.author);
+
+        if (authorError) {
+          console.error('Error saving authors:', authorError);
+        }
+
+        // A book added as finished counts as its first read
+        const { data: cycles, error: cycleError } = await syncReadingCycle(data);
+
+        if (cycleError) {
+          console.error('Error saving reading cycle:', cycleError);
+        }
+
+        addBookToStore({ ...data, ...linkedAuthors, tags: savedTags || [], reading_cycles: cycles || [] });
+        loadLibraryStats();
         console.log(`✅ Added book: ${data.title}`);
       }
 
@@ -173,25 +712,83 @@ export default function Home() {
     if (!bookToDelete) return;
 
     try {
-      // Use Supabase to delete book
-      const { error } = await supabase
-        .from('books')
-        .delete()
-        .eq('id', bookToDelete.id);
+      // Soft delete - the book goes to the trash and can be restored
+      const { error } = await deleteBook(bookToDelete.id);
 
       if (error) {
-        throw new Error(error.message);
+        throw new Error(error.message || error);
       }
 
-      removeBook(bookToDelete.id);
+      moveToTrash(bookToDelete.id);
       closeDeleteModal();
-      console.log(`✅ Deleted book: ${bookToDelete.title}`);
+      loadLibraryStats();
+      console.log(`✅ Moved to trash: ${bookToDelete.title}`);
     } catch (error: any) {
       console.error('Error deleting book:', error);
       alert(`Failed to delete book: ${error.message}`);
     }
   };
 
+  // Trash handlers
+  const handleRestoreBook = async (id: string) => {
+    const { data, error } = await restoreBook(id);
+
+    if (error || !data) {
+      console.error('Error restoring book:', error);
+      alert(`Failed to restore book: ${error?.message || error}`);
+      return;
+    }
+
+    // Books trashed before authors had their own records are linked as they come back
+    const { data: linkedAuthors, error: authorError } = data.authors?.length
+      ? { data: null, error: null }
+      : await setBookAuthors(id, data.author);
+
+    if (authorError) {
+      console.error('Error saving authors:', authorError);
+    }
+
+    removeFromTrash(id);
+    addBookToStore({ ...data, ...linkedAuthors });
+
+    // Shelf placement and highlights were kept in the database, so reload them
+    loadShelves();
+    loadHighlights();
+    loadLibraryStats();
+    console.log(`✅ Restored book: ${data.title}`);
+  };
+
+  const handlePurgeBook = async (id: string) => {
+    const book = trash.find(b => b.id === id);
+    if (!book || !confirm(`Delete "${book.title}" forever? This can't be undone.`)) return;
+
+    const { error } = await purgeBook(id);
+
+    if (error) {
+      console.error('Error purging book:', error);
+      alert(`Failed to delete book: ${error.message || error}`);
+      return;
+    }
+
+    removeFromTrash(id);
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!confirm(`Delete all ${trash.length} books in the trash forever? This can't be undone.`)) return;
+
+    for (const book of trash) {
+      const { error } = await purgeBook(book.id);
+
+      if (error) {
+        console.error('Error emptying trash:', error);
+        alert(`Failed to empty trash: ${error.message || error}`);
+        return;
+      }
+
+      removeFromTrash(book.id);
+    }
+  };
+
   // Edit handlers
   const handleEditClick = (id: string) => {
     const book = books.find(b => b.id === id);
@@ -201,6 +798,8 @@ export default function Home() {
   };
 
   const handleSaveEdit = async (id: string, updates: any) => {
+    const previous = books.find(b => b.id === id);
+
     try {
       const updateData = {
         title: updates.title,
@@ -209,25 +808,71 @@ export default function Home() {
         cover_url: updates.cover_url,
         reading_status: updates.reading_status,
         progress_percentage: updates.progress_percentage,
+        page_count: updates.page_count,
+        current_page: updates.current_page,
+        progress_unit: updates.progress_unit,
         date_started: updates.date_started,
         date_finished: updates.date_finished,
         reading_notes: updates.reading_notes,
+        rating: updates.rating,
+        review: updates.review,
+        series_name: updates.series_name,
+        series_position: updates.series_position,
+        isbn_10: updates.isbn_10,
+        isbn_13: updates.isbn_13,
+        publisher: updates.publisher,
+        published_date: updates.published_date,
+        language: updates.language,
+        format: updates.format,
       };
 
-      // Use Supabase to update book
-      const { data, error } = await supabase
-        .from('books')
-        .update(updateData)
-        .eq('id', id)
-        .select()
-        .single();
+      // Goes through updateBook so the changed fields are kept in the book's history
+      const { data, error } = await updateBook(id, updateData);
 
       if (error) {
-        throw new Error(error.message);
+        throw new Error(error.message || error);
       }
 
       if (data) {
-        updateBookInStore(id, data);
+        // Progress moved in the form is kept as a reading session, the same as one logged on the card
+        if (data.current_page != null && data.current_page !== (previous?.current_page ?? null)) {
+          const now = new Date().toISOString();
+          const { error: sessionError } = await addReadingSession({
+            book_id: id,
+            started_at: now,
+            ended_at: now,
+            from_page: previous?.current_page ?? 0,
+            to_page: data.current_page
+          });
+
+          if (sessionError) {
+            console.error('Error saving reading session:', sessionError);
+          }
+        }
+
+        // Tags are only replaced when the edit includes them, so leaving them out never clears them
+        const { data: savedTags, error: tagError } = updates.tags !== undefined
+          ? await setBookTags(id, updates.tags)
+          : { data: null, error: null };
+
+        if (tagError) {
+          console.error('Error saving tags:', tagError);
+        }
+
+        const { data: linkedAuthors, error: authorError } = await setBookAuthors(id, data.author);
+
+        if (authorError) {
+          console.error('Error saving authors:', authorError);
+        }
+
+        const { data: cycles, error: cycleError } = await syncReadingCycle({ ...previous, ...data }, previous);
+
+        if (cycleError) {
+          console.error('Error saving reading cycle:', cycleError);
+        }
+
+        updateBookInStore(id, { ...data, ...linkedAuthors, tags: savedTags || data.tags || [], reading_cycles: cycles || previous?.reading_cycles || [] });
+        loadLibraryStats();
         console.log(`✅ Updated book: ${data.title}`);
       }
 
@@ -238,6 +883,406 @@ export default function Home() {
     }
   };
 
+  // Put a book back how it was before an earlier edit. The revert is itself
+  // recorded through updateBook, so it can be undone the same way.
+  const handleRevertBook = async (id: string, updates: Record<string, unknown>) => {
+    const { data, error } = await updateBook(id, updates);
+
+    if (error || !data) {
+      console.error('Error reverting book:', error);
+      alert(`Failed to revert book: ${error?.message || error}`);
+      return false;
+    }
+
+    // A reverted author string needs its author links redone to match
+    const { data: linkedAuthors, error: authorError } = 'author' in updates
+      ? await setBookAuthors(id, data.author)
+      : { data: null, error: null };
+
+    if (authorError) {
+      console.error('Error saving authors:', authorError);
+    }
+
+    const reverted = { ...data, ...linkedAuthors };
+    updateBookInStore(id, reverted);
+    openEditModal(reverted, 'history');
+    return true;
+  };
+
+  // Import handlers
+  const handleOpenImport = async () => {
+    const { data, error } = await fetchAllBooks();
+
+    if (error || !data) {
+      console.error('Error loading books to check for duplicates:', error);
+      alert(`Failed to load your library: ${error?.message || error}`);
+      return;
+    }
+
+    setImportLibrary(data);
+  };
+
+  // The modal shows which rows failed, so only a failure to start is alerted
+  const handleImportBooks = async (rows: ImportedBook[], onProgress: (done: number, total: number) => void) => {
+    const { data, error } = await importBooks(rows, onProgress);
+
+    if (error || !data) {
+      console.error('Error importing books:', error);
+      alert(`Failed to import books: ${error?.message || error}`);
+      return null;
+    }
+
+    data.forEach(result => result.book && addBookToStore(result.book));
+    loadLibraryStats();
+    console.log(`✅ Imported ${data.filter(result => result.book).length} of ${data.length} books`);
+    return data;
+  };
+
+  // Kindle clippings handlers
+  const handleOpenKindleImport = async () => {
+    const { data, error } = await fetchAllBooks();
+
+    if (error || !data) {
+      console.error('Error loading books to match Kindle clippings:', error);
+      alert(`Failed to load your library: ${error?.message || error}`);
+      return;
+    }
+
+    setKindleLibrary(data);
+  };
+
+  // Books with nothing to match are created first, then every clipping is saved on its book
+  const handleImportKindle = async (
+    imports: KindleImport[],
+    onProgress: (done: number, total: number) => void
+  ): Promise<KindleImportResult | null> => {
+    const toCreate = imports.filter(item => !item.book);
+    let created: (Book | null)[] = [];
+
+    if (toCreate.length > 0) {
+      const { data, error } = await importBooks(toCreate.map((item, index) => ({
+        row: index + 1,
+        book: toKindleBookData(item.kindleBook),
+        tags: [],
+        error: null
+      })));
+
+      if (error || !data) {
+        console.error('Error adding books for Kindle clippings:', error);
+        alert(`Failed to add books for your clippings: ${error?.message || error}`);
+        return null;
+      }
+
+      created = data.map(result => result.book);
+      created.forEach(book => book && addBookToStore(book));
+      loadLibraryStats();
+    }
+
+    const { data, error } = await importHighlights(imports.flatMap(item => {
+      const book = item.book || created[toCreate.indexOf(item)];
+      return book ? item.highlights.map(highlight => toKindleHighlightData(highlight, book)) : [];
+    }), onProgress);
+
+    // Reloaded rather than added - batches saved before a failure are kept, and the
+    // clippings take their place by date among the rest
+    loadHighlights();
+
+    if (error || !data) {
+      console.error('Error importing Kindle clippings:', error);
+      alert(`Failed to save your clippings: ${error?.message || error}`);
+      return null;
+    }
+
+    console.log(`✅ Imported ${data.length} Kindle clippings`);
+    return { books: created.filter(Boolean).length, highlights: data.length };
+  };
+
+  // Export handler. Only some pages may be loaded, so the export starts from the whole library.
+  const handleExport = async (format: ExportFormat, scope: ExportScope) => {
+    const { data, error } = await fetchAllBooks();
+
+    if (error || !data) {
+      console.error('Error loading books to export:', error);
+      alert(`Failed to export library: ${error?.message || error}`);
+      return;
+    }
+
+    const shelf = typeof scope === 'object' ? shelves.find(shelf => shelf.id === scope.shelfId) : null;
+    const exported = shelf
+      ? shelf.book_ids.map(id => data.find(book => book.id === id)).filter((book): book is Book => book !== undefined)
+      : scope === 'filtered' ? filterLibrary(data)
+      : scope === 'selected' ? data.filter(book => selectedBookIds.includes(book.id))
+      : data;
+
+    // The JSON backup also carries each book's sessions, edit history and author records
+    let history: Partial<ExportData> = {};
+    if (format === 'json') {
+      const [sessions, changes, authorRecords] = await Promise.all([fetchReadingSessions(), fetchBookChanges(), fetchAuthors()]);
+      const failed = sessions.error || changes.error || authorRecords.error;
+
+      if (failed) {
+        console.error('Error loading history to export:', failed);
+        alert(`Failed to export library: ${failed.message || failed}`);
+        return;
+      }
+
+      history = { readingSessions: sessions.data || [], bookChanges: changes.data || [], authors: authorRecords.data || [] };
+    }
+
+    downloadExport(format, { books: exported, shelves, smartShelves, highlights, ...history });
+
+    setShowExportModal(false);
+    console.log(`✅ Exported ${exported.length} books`);
+  };
+
+  // Author handlers
+  const handleOpenAuthors = () => {
+    setShowAuthorsModal(true);
+    loadAuthors();
+  };
+
+  const handleMergeAuthors = async (targetId: string, sourceIds: string[]) => {
+    const { data, error } = await mergeAuthors(targetId, sourceIds);
+
+    if (error) {
+      console.error('Error merging authors:', error);
+      alert(`Failed to merge authors: ${error.message || error}`);
+      return false;
+    }
+
+    (data || []).forEach(book => updateBookInStore(book.id, book));
+    loadAuthors();
+    console.log(`✅ Merged authors into ${targetId}`);
+    return true;
+  };
+
+  const handleUpdateAuthorSortName = async (id: string, sortName: string) => {
+    const { data, error } = await updateAuthor(id, { sort_name: sortName });
+
+    if (error || !data) {
+      console.error('Error updating author:', error);
+      alert(`Failed to update author: ${error?.message || error}`);
+      return;
+    }
+
+    setAuthors(authors.map(author => author.id === id ? { ...author, sort_name: data.sort_name } : author));
+
+    // Loaded books keep a copy of their authors, which the author sort reads
+    books
+      .filter(book => book.authors?.some(author => author.id === id))
+      .forEach(book => updateBookInStore(book.id, {
+        authors: book.authors?.map(author => author.id === id ? { ...author, sort_name: data.sort_name } : author)
+      }));
+  };
+
+  // Reading session handlers
+  const handleLogSessionClick = (id: string) => {
+    const book = books.find(b => b.id === id);
+    if (book) {
+      openLogSessionModal(book);
+    }
+  };
+
+  const handleSaveSession = async (id: string, toPage: number, details: ReadingSessionDetails) => {
+    try {
+      const book = books.find(b => b.id === id);
+      const dateStarted = book ? getCurrentReadStart(book) : new Date().toISOString().split('T')[0];
+
+      // Goes through updateBookProgress so the session is kept as history
+      const { data, error } = await updateBookProgress(id, toPage, dateStarted, details);
+
+      if (error) {
+        throw new Error(error.message || error);
+      }
+
+      if (data) {
+        updateBookInStore(id, data);
+        loadLibraryStats();
+        console.log(`✅ Logged session for: ${data.title}`);
+      }
+
+      closeLogSessionModal();
+    } catch (error: any) {
+      console.error('Error logging session:', error);
+      alert(`Error logging session: ${error.message}. Please try again.`);
+    }
+  };
+
+  // Shelf handlers
+  const handleCreateShelf = async (name: string) => {
+    const { data, error } = await createShelf(name);
+
+    if (error || !data) {
+      console.error('Error creating shelf:', error);
+      alert(`Failed to create shelf: ${error?.message || error}`);
+      return;
+    }
+
+    addShelfToStore(data);
+    setSelectedShelf(data.id);
+  };
+
+  const handleRenameShelf = async (id: string, name: string) => {
+    const { data, error } = await updateShelf(id, { name });
+
+    if (error || !data) {
+      console.error('Error renaming shelf:', error);
+      alert(`Failed to rename shelf: ${error?.message || error}`);
+      return;
+    }
+
+    updateShelfInStore(id, { name: data.name });
+  };
+
+  const handleDeleteShelf = async (id: string) => {
+    const shelf = shelves.find(s => s.id === id);
+    if (!shelf || !confirm(`Delete the shelf "${shelf.name}"? The books stay in your library.`)) return;
+
+    const { error } = await deleteShelf(id);
+
+    if (error) {
+      console.error('Error deleting shelf:', error);
+      alert(`Failed to delete shelf: ${error.message || error}`);
+      return;
+    }
+
+    removeShelfFromStore(id);
+  };
+
+  // Smart shelf handlers
+  const handleSaveSmartShelf = async (name: string) => {
+    const { data, error } = await createSmartShelf(name, currentFilters);
+
+    if (error || !data) {
+      console.error('Error saving smart shelf:', error);
+      alert(`Failed to save smart shelf: ${error?.message || error}`);
+      return;
+    }
+
+    addSmartShelfToStore(data);
+  };
+
+  const handleRenameSmartShelf = async (id: string, name: string) => {
+    const { data, error } = await updateSmartShelf(id, { name });
+
+    if (error || !data) {
+      console.error('Error renaming smart shelf:', error);
+      alert(`Failed to rename smart shelf: ${error?.message || error}`);
+      return;
+    }
+
+    updateSmartShelfInStore(id, { name: data.name });
+  };
+
+  const handleDeleteSmartShelf = async (id: string) => {
+    const smartShelf = smartShelves.find(s => s.id === id);
+    if (!smartShelf || !confirm(`Delete the smart shelf "${smartShelf.name}"? No books are removed.`)) return;
+
+    const { error } = await deleteSmartShelf(id);
+
+    if (error) {
+      console.error('Error deleting smart shelf:', error);
+      alert(`Failed to delete smart shelf: ${error.message || error}`);
+      return;
+    }
+
+    removeSmartShelfFromStore(id);
+  };
+
+  // Leaving a smart shelf clears every filter it set
+  const handleClearFilters = () => {
+    applyFilters({ query: '', category: null, status: null, shelf_id: null, tags: [], tag_match_mode: tagMatchMode, min_rating: null });
+  };
+
+  const handleToggleShelf = async (bookId: string, shelfId: string) => {
+    const shelf = shelves.find(s => s.id === shelfId);
+    if (!shelf) return;
+
+    const onShelf = shelf.book_ids.includes(bookId);
+    const { error } = onShelf
+      ? await removeBookFromShelf(shelfId, bookId)
+      : await addBookToShelf(shelfId, bookId);
+
+    if (error) {
+      console.error('Error updating shelf:', error);
+      alert(`Failed to update shelf: ${error.message || error}`);
+      return;
+    }
+
+    setShelfBookIds(shelfId, onShelf
+      ? shelf.book_ids.filter(id => id !== bookId)
+      : [...shelf.book_ids, bookId]);
+  };
+
+  // Drop a dragged book onto another to take its place in the shelf order
+  const handleShelfDrop = async (targetBookId: string) => {
+    if (!currentShelf || !draggedBookId || draggedBookId === targetBookId) return;
+
+    const previousOrder = currentShelf.book_ids;
+    const movingDown = previousOrder.indexOf(draggedBookId) < previousOrder.indexOf(targetBookId);
+    const newOrder = previousOrder.filter(id => id !== draggedBookId);
+    const targetIndex = newOrder.indexOf(targetBookId);
+    newOrder.splice(movingDown ? targetIndex + 1 : targetIndex, 0, draggedBookId);
+
+    setShelfBookIds(currentShelf.id, newOrder);
+    setDraggedBookId(null);
+
+    const { error } = await reorderShelfBooks(currentShelf.id, newOrder);
+
+    if (error) {
+      console.error('Error reordering shelf:', error);
+      setShelfBookIds(currentShelf.id, previousOrder);
+      alert(`Failed to save shelf order: ${error.message || error}`);
+    }
+  };
+
+  // Highlight handlers
+  const handleOpenHighlights = (bookId: string) => {
+    const book = books.find(b => b.id === bookId);
+    if (book) {
+      openEditModal(book, 'highlights');
+    }
+  };
+
+  const handleAddHighlight = async (bookId: string, details: HighlightDetails) => {
+    const { data, error } = await addHighlight({ book_id: bookId, ...details });
+
+    if (error || !data) {
+      console.error('Error adding highlight:', error);
+      alert(`Failed to save highlight: ${error?.message || error}`);
+      return false;
+    }
+
+    addHighlightToStore(data);
+    return true;
+  };
+
+  const handleUpdateHighlight = async (id: string, details: HighlightDetails) => {
+    const { data, error } = await updateHighlight(id, details);
+
+    if (error || !data) {
+      console.error('Error updating highlight:', error);
+      alert(`Failed to update highlight: ${error?.message || error}`);
+      return false;
+    }
+
+    updateHighlightInStore(id, data);
+    return true;
+  };
+
+  const handleDeleteHighlight = async (id: string) => {
+    const { error } = await deleteHighlight(id);
+
+    if (error) {
+      console.error('Error deleting highlight:', error);
+      alert(`Failed to delete highlight: ${error.message || error}`);
+      return false;
+    }
+
+    removeHighlightFromStore(id);
+    return true;
+  };
+
   const handleLogout = async () => {
     try {
       await supabase.auth.signOut();
@@ -324,41 +1369,27 @@ export default function Home() {
             {/* Statistics Cards Only */}
             <div className="flex gap-3">
               <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-xl px-4 py-3 text-center min-w-[70px] hover:bg-white/10 transition-all duration-200">
-                <div className="text-xl font-bold text-purple-400">{books.length}</div>
+                <div className="text-xl font-bold text-purple-400">{totalBooks}</div>
                 <div className="text-xs text-gray-400 uppercase tracking-wider font-medium">Total Books</div>
               </div>
 
               <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-xl px-4 py-3 text-center min-w-[70px] hover:bg-white/10 transition-all duration-200">
                 <div className="text-xl font-bold text-orange-400">
-                  {books.filter(book => book.reading_status === 'reading').length}
+                  {libraryStats?.reading ?? 0}
                 </div>
                 <div className="text-xs text-gray-400 uppercase tracking-wider font-medium">Reading</div>
               </div>
 
               <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-xl px-4 py-3 text-center min-w-[70px] hover:bg-white/10 transition-all duration-200">
                 <div className="text-xl font-bold text-green-400">
-                  {books.filter(book => book.reading_status === 'finished').length}
+                  {libraryStats?.finished ?? 0}
                 </div>
                 <div className="text-xs text-gray-400 uppercase tracking-wider font-medium">Finished</div>
               </div>
 
               <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-xl px-4 py-3 text-center min-w-[70px] hover:bg-white/10 transition-all duration-200">
                 <div className="text-xl font-bold text-blue-400">
-                  {books.length > 0
-                    ? Math.round(
-                      books.reduce((sum, book) => {
-                        switch (book.reading_status) {
-                          case 'finished':
-                            return sum + 100;
-                          case 'reading':
-                            return sum + (book.progress_percentage || 0);
-                          case 'to-read':
-                          default:
-                            return sum + 0;
-                        }
-                      }, 0) / books.length
-                    )
-                    : 0}%
+                  {libraryStats?.averageProgress ?? 0}%
                 </div>
                 <div className="text-xs text-gray-400 uppercase tracking-wider font-medium">Overall Progress</div>
               </div>
@@ -373,11 +1404,13 @@ export default function Home() {
               </div>
               <input
                 type="text"
-                placeholder="Search your library by title or author..."
+                placeholder="Search, or filter with author:orwell status:finished rating>=4..."
+                title="Filters: author, title, category, status, tag, series, rating, added, finished. Use : to match, = for exact, > < >= <= for ratings and dates, and - to exclude."
                 className="w-full h-full pl-14 pr-6 bg-white/10 backdrop-blur-xl border-2 border-white/20 rounded-2xl text-white placeholder-gray-300 focus:outline-none focus:ring-2 focus:ring-purple-400 focus:border-purple-400 transition-all relative shadow-xl text-lg font-medium cursor-text"
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
               />
+              <QueryErrors query={searchQuery} errors={parsedQuery.errors} />
             </div>
 
             <button
@@ -420,6 +1453,59 @@ export default function Home() {
                 </div>
               </div>
 
+              <div className="relative">
+                <select
+                  value={minRating ?? ""}
+                  onChange={(e) => setMinRating(e.target.value ? Number(e.target.value) : null)}
+                  className="px-4 py-2.5 bg-white/5 backdrop-blur-xl border border-white/10 rounded-lg text-white focus:outline-none focus:ring-1 focus:ring-purple-400/50 focus:border-purple-400/50 transition-all appearance-none cursor-pointer pr-10 text-sm font-medium"
+                >
+                  <option value="" className="bg-gray-800">⭐ Any Rating</option>
+                  <option value="4.5" className="bg-gray-800">4.5+ Stars</option>
+                  <option value="4" className="bg-gray-800">4+ Stars</option>
+                  <option value="3" className="bg-gray-800">3+ Stars</option>
+                  <option value="2" className="bg-gray-800">2+ Stars</option>
+                </select>
+                <div className="absolute right-3 top-1/2 transform -translate-y-1/2 pointer-events-none">
+                  <svg className="w-4 h-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+                  </svg>
+                </div>
+              </div>
+
+              {viewMode !== 'series' && (
+                <div className="flex items-center gap-1">
+                  <div className="relative">
+                    <select
+                      value={sort?.key || ""}
+                      onChange={(e) => {
+                        const key = e.target.value as SortKey | "";
+                        setSort(key ? { key, direction: DEFAULT_DIRECTIONS[key] } : null);
+                      }}
+                      className="px-4 py-2.5 bg-white/5 backdrop-blur-xl border border-white/10 rounded-lg text-white focus:outline-none focus:ring-1 focus:ring-purple-400/50 focus:border-purple-400/50 transition-all appearance-none cursor-pointer pr-10 text-sm font-medium"
+                    >
+                      <option value="" className="bg-gray-800">🕒 Recently Added</option>
+                      {(Object.keys(SORT_LABELS) as SortKey[]).map((key) => (
+                        <option key={key} value={key} className="bg-gray-800">↕️ {SORT_LABELS[key]}</option>
+                      ))}
+                    </select>
+                    <div className="absolute right-3 top-1/2 transform -translate-y-1/2 pointer-events-none">
+                      <svg className="w-4 h-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+                      </svg>
+                    </div>
+                  </div>
+                  {sort && (
+                    <button
+                      onClick={() => toggleSort(sort.key)}
+                      className="px-3 py-2.5 bg-white/5 backdrop-blur-xl border border-white/10 rounded-lg text-white hover:bg-white/10 transition-all text-sm font-medium cursor-pointer"
+                      title={sort.direction === 'asc' ? 'Ascending - click to reverse' : 'Descending - click to reverse'}
+                    >
+                      {sort.direction === 'asc' ? '⬆️' : '⬇️'}
+                    </button>
+                  )}
+                </div>
+              )}
+
               <div className="flex gap-1 bg-white/5 backdrop-blur-xl border border-white/10 rounded-lg p-1">
                 <button
                   onClick={() => setViewMode('grid')}
@@ -439,16 +1525,83 @@ export default function Home() {
                 >
                   🗃️ Table
                 </button>
+                <button
+                  onClick={() => setViewMode('series')}
+                  className={`px-3 py-1.5 rounded-md transition-all flex items-center text-sm font-medium cursor-pointer ${viewMode === 'series'
+                    ? 'bg-white/10 text-white'
+                    : 'text-gray-400 hover:text-white hover:bg-white/5'
+                    }`}
+                >
+                  📚 Series
+                </button>
               </div>
+
+              <button
+                onClick={() => setShowTrash(!showTrash)}
+                className={`px-3 py-2 rounded-lg border transition-all text-sm font-medium cursor-pointer ${showTrash
+                  ? 'bg-white/10 text-white border-white/20'
+                  : 'bg-white/5 text-gray-400 border-white/10 hover:text-white hover:bg-white/10'
+                  }`}
+                title={showTrash ? 'Back to library' : 'Show deleted books'}
+              >
+                🗑️ Trash{trash.length > 0 ? ` (${trash.length})` : ''}
+              </button>
+
+              <button
+                onClick={handleOpenAuthors}
+                className="px-3 py-2 rounded-lg border transition-all text-sm font-medium cursor-pointer bg-white/5 text-gray-400 border-white/10 hover:text-white hover:bg-white/10"
+                title="Merge duplicate authors and edit sort names"
+              >
+                ✍️ Authors
+              </button>
+
+              <button
+                onClick={handleOpenImport}
+                className="px-3 py-2 rounded-lg border transition-all text-sm font-medium cursor-pointer bg-white/5 text-gray-400 border-white/10 hover:text-white hover:bg-white/10"
+                title="Import books from Goodreads, StoryGraph or LibraryThing"
+              >
+                📥 Import
+              </button>
+
+              <button
+                onClick={handleOpenKindleImport}
+                className="px-3 py-2 rounded-lg border transition-all text-sm font-medium cursor-pointer bg-white/5 text-gray-400 border-white/10 hover:text-white hover:bg-white/10"
+                title="Import highlights, notes and bookmarks from a Kindle's My Clippings.txt"
+              >
+                🔖 Kindle
+              </button>
+
+              <button
+                onClick={() => setShowExportModal(true)}
+                className="px-3 py-2 rounded-lg border transition-all text-sm font-medium cursor-pointer bg-white/5 text-gray-400 border-white/10 hover:text-white hover:bg-white/10"
+                title="Download your library as JSON or CSV, or as citations"
+              >
+                📤 Export
+              </button>
             </div>
 
             <div className="text-gray-400 text-sm font-medium">
               {filteredBooks.length} {filteredBooks.length === 1 ? 'book' : 'books'}
               {searchQuery && ` matching "${searchQuery}"`}
+              {searchSnippets && sort === null && ' • best matches first'}
+              {currentShelf && ` • on ${currentShelf.name}`}
               {selectedReadingStatus && ` • ${selectedReadingStatus.replace('-', ' ')}`}
+              {minRating !== null && ` • ${minRating}+ stars`}
+              {selectedTags.length > 0 && ` • ${selectedTags.map(tag => `#${tag}`).join(tagMatchMode === 'and' ? ' + ' : ' or ')}`}
             </div>
           </div>
 
+          {/* Shelf Switcher */}
+          <ShelfSwitcher
+            shelves={shelves}
+            selectedShelf={selectedShelf}
+            totalBooks={totalBooks}
+            onSelect={setSelectedShelf}
+            onCreate={handleCreateShelf}
+            onRename={handleRenameShelf}
+            onDelete={handleDeleteShelf}
+          />
+
           {/* Category Filter Chips */}
           <div className="mb-12">
             <div className="flex items-center gap-6 mb-4">
@@ -464,11 +1617,10 @@ export default function Home() {
                   }`}
                 onClick={() => setSelectedCategory(null)}
               >
-                All ({books.length})
+                All ({totalBooks})
               </button>
 
-              {categories.map((category) => {
-                const count = books.filter(book => book.category === category).length;
+              {Object.entries(libraryStats?.categories || {}).map(([category, count]) => {
                 return (
                   <button
                     key={category}
@@ -482,62 +1634,197 @@ export default function Home() {
                   </button>
                 );
               })}
+
+              <SmartShelfChips
+                smartShelves={smartShelves}
+                activeId={activeSmartShelf?.id ?? null}
+                counts={smartShelfCounts}
+                canSave={hasActiveFilters && activeSmartShelf === null}
+                onApply={(smartShelf) => applyFilters(smartShelf.filters)}
+                onClear={handleClearFilters}
+                onSave={handleSaveSmartShelf}
+                onRename={handleRenameSmartShelf}
+                onDelete={handleDeleteSmartShelf}
+              />
             </div>
+
+            {/* Tag Filter Chips - multi-select with AND/OR matching */}
+            {tags.length > 0 && (
+              <div className="mt-6">
+                <div className="flex items-center gap-6 mb-4">
+                  <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider">Filter by Tag</h3>
+                  <div className="flex gap-1 bg-white/5 backdrop-blur-xl border border-white/10 rounded-lg p-1">
+                    {(['or', 'and'] as const).map((mode) => (
+                      <button
+                        key={mode}
+                        onClick={() => setTagMatchMode(mode)}
+                        title={mode === 'or' ? 'Books with any selected tag' : 'Books with every selected tag'}
+                        className={`px-2 py-0.5 rounded-md transition-all text-xs font-medium uppercase cursor-pointer ${tagMatchMode === mode
+                          ? 'bg-white/10 text-white'
+                          : 'text-gray-400 hover:text-white hover:bg-white/5'
+                          }`}
+                      >
+                        {mode}
+                      </button>
+                    ))}
+                  </div>
+                  {selectedTags.length > 0 && (
+                    <button
+                      onClick={() => setSelectedTags([])}
+                      className="text-xs text-gray-400 hover:text-white transition-colors cursor-pointer"
+                    >
+                      Clear
+                    </button>
+                  )}
+                  <div className="flex-1 h-px bg-gradient-to-r from-white/10 to-transparent"></div>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  {tags.map((tag) => {
+                    const count = tagCounts[tag] ?? books.filter(book => book.tags?.includes(tag)).length;
+                    return (
+                      <button
+                        key={tag}
+                        className={`px-3 py-1.5 rounded-full font-medium transition-all duration-200 text-xs cursor-pointer ${selectedTags.includes(tag)
+                          ? "bg-blue-500/30 text-blue-200 border border-blue-400/40"
+                          : "bg-white/5 text-gray-400 hover:bg-white/10 hover:text-gray-300 border border-white/10"
+                          }`}
+                        onClick={() => toggleTag(tag)}
+                      >
+                        #{tag} ({count})
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
           </div>
 
+          {/* Highlights matching the search */}
+          <HighlightResults
+            highlights={matchingHighlights}
+            books={books}
+            onOpen={handleOpenHighlights}
+          />
+
           {/* PRIMARY CONTENT: YOUR BOOKS SECTION */}
           <div className="mb-16">
-            {filteredBooks.length === 0 ? (
+            {showTrash ? (
+              <TrashView
+                books={trash}
+                onRestore={handleRestoreBook}
+                onPurge={handlePurgeBook}
+                onEmpty={handleEmptyTrash}
+              />
+            ) : filteredBooks.length === 0 ? (
               <div className="text-center py-20">
                 <div className="text-6xl mb-4">📚</div>
                 <h3 className="text-xl font-medium text-white mb-2">
-                  {books.length === 0 ? 'Your library is empty' : 'No books match your filters'}
+                  {totalBooks === 0
+                    ? 'Your library is empty'
+                    : currentShelf && currentShelf.book_ids.length === 0
+                      ? `${currentShelf.name} is empty`
+                      : 'No books match your filters'}
                 </h3>
                 <p className="text-gray-400">
-                  {books.length === 0
+                  {totalBooks === 0
                     ? 'Click "Add Book" to get started!'
-                    : 'Try adjusting your search or category filters.'
+                    : currentShelf && currentShelf.book_ids.length === 0
+                      ? 'Use "Add to shelf" on any book to put it here.'
+                      : 'Try adjusting your search or category filters.'
                   }
                 </p>
               </div>
             ) : (
               <>
+                {canReorderShelf && viewMode === 'grid' && (
+                  <div className="text-xs text-gray-500 mb-4">Drag books to reorder this shelf.</div>
+                )}
                 {viewMode === 'grid' ? (
                   <div className="grid gap-6 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
                     {filteredBooks.map((book) => (
-                      <BookCard
+                      <div
                         key={book.id}
-                        id={book.id}
-                        title={book.title}
-                        author={book.author}
-                        category={book.category}
-                        reading_status={book.reading_status}
-                        coverUrl={book.cover_url || undefined}
-                        onDelete={handleDeleteClick}
-                        onEdit={handleEditClick}
-                        progress_percentage={book.progress_percentage}
-                        date_started={book.date_started}
-                        date_finished={book.date_finished}
-                        reading_notes={book.reading_notes}
-                      />
+                        draggable={canReorderShelf}
+                        onDragStart={() => setDraggedBookId(book.id)}
+                        onDragEnd={() => setDraggedBookId(null)}
+                        onDragOver={(e) => canReorderShelf && e.preventDefault()}
+                        onDrop={() => handleShelfDrop(book.id)}
+                        className={draggedBookId === book.id ? 'opacity-50' : undefined}
+                      >
+                        <BookCard
+                          id={book.id}
+                          title={book.title}
+                          author={book.author}
+                          category={book.category}
+                          reading_status={book.reading_status}
+                          coverUrl={book.cover_url || undefined}
+                          onDelete={handleDeleteClick}
+                          onEdit={handleEditClick}
+                          onLogSession={handleLogSessionClick}
+                          progress_percentage={book.progress_percentage}
+                          page_count={book.page_count}
+                          current_page={book.current_page}
+                          progress_unit={book.progress_unit}
+                          date_started={book.date_started}
+                          date_finished={book.date_finished}
+                          reading_notes={book.reading_notes}
+                          rating={book.rating}
+                          review={book.review}
+                          read_count={getReadCount(book)}
+                          search_snippet={searchSnippets?.[book.id]}
+                          series_name={book.series_name}
+                          series_position={book.series_position}
+                          publisher={book.publisher}
+                          published_date={book.published_date}
+                          tags={book.tags}
+                          shelves={shelves}
+                          shelfIds={shelves.filter(shelf => shelf.book_ids.includes(book.id)).map(shelf => shelf.id)}
+                          onToggleShelf={handleToggleShelf}
+                        />
+                      </div>
                     ))}
                   </div>
+                ) : viewMode === 'series' ? (
+                  <SeriesView
+                    groups={seriesGroups}
+                    onEdit={handleEditClick}
+                  />
                 ) : (
                   <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl overflow-hidden">
                     <table className="w-full">
                       <thead className="bg-white/5 border-b border-white/10">
                         <tr>
+                          <th className="p-4 w-4">
+                            <input
+                              type="checkbox"
+                              checked={tablePageSelected}
+                              onChange={handleToggleTablePageSelected}
+                              className="cursor-pointer"
+                              title="Select every book on this page"
+                            />
+                          </th>
                           <th className="text-left p-4 text-gray-300">Cover</th>
-                          <th className="text-left p-4 text-gray-300">Title</th>
-                          <th className="text-left p-4 text-gray-300">Author</th>
-                          <th className="text-left p-4 text-gray-300">Category</th>
-                          <th className="text-left p-4 text-gray-300">Status</th>
+                          <SortableHeader label="Title" sortKey="title" sort={sort} onSort={toggleSort} />
+                          <SortableHeader label="Author" sortKey="author" sort={sort} onSort={toggleSort} />
+                          <SortableHeader label="Category" sortKey="category" sort={sort} onSort={toggleSort} />
+                          <SortableHeader label="Status" sortKey="status" sort={sort} onSort={toggleSort} />
+                          <SortableHeader label="Rating" sortKey="rating" sort={sort} onSort={toggleSort} />
                           <th className="text-left p-4 text-gray-300">Actions</th>
                         </tr>
                       </thead>
                       <tbody>
-                        {filteredBooks.map((book) => (
+                        {tablePageBooks.map((book) => (
                           <tr key={book.id} className="border-b border-white/5 hover:bg-white/5 transition-colors">
+                            <td className="p-4">
+                              <input
+                                type="checkbox"
+                                checked={selectedBookIds.includes(book.id)}
+                                onChange={() => handleToggleSelected(book.id)}
+                                className="cursor-pointer"
+                                aria-label={`Select ${book.title}`}
+                              />
+                            </td>
                             <td className="p-4">
                               <div className="w-8 h-12 bg-gradient-to-br from-purple-500 to-blue-600 rounded flex items-center justify-center text-xs overflow-hidden">
                                 {book.cover_url ? (
@@ -547,8 +1834,15 @@ export default function Home() {
                                 )}
                               </div>
                             </td>
-                            <td className="p-4 text-white font-medium">{book.title}</td>
-                            <td className="p-4 text-gray-300">{book.author}</td>
+                            <td className="p-4 text-white font-medium">
+                              <Link href={`/books/${book.id}`} className="hover:text-purple-300 transition-colors">
+                                {book.title}
+                              </Link>
+                              {searchSnippets?.[book.id] && (
+                                <SearchSnippet snippet={searchSnippets[book.id] as string} className="mt-1 font-normal" />
+                              )}
+                            </td>
+                            <td className="p-4 text-gray-300"><AuthorLinks author={book.author} /></td>
                             <td className="p-4">
                               <span className="px-2 py-1 bg-purple-500/20 text-purple-300 rounded-full text-sm">
                                 {book.category}
@@ -564,6 +1858,13 @@ export default function Home() {
                                     '📚 To Read'}
                               </span>
                             </td>
+                            <td className="p-4">
+                              {book.rating ? (
+                                <StarRating rating={book.rating} size={14} />
+                              ) : (
+                                <span className="text-gray-500 text-sm">—</span>
+                              )}
+                            </td>
                             <td className="p-4">
                               <div className="flex gap-2">
                                 <button
@@ -584,10 +1885,59 @@ export default function Home() {
                         ))}
                       </tbody>
                     </table>
+
+                    {/* Table Paging */}
+                    <div className="flex items-center justify-between px-4 py-3 border-t border-white/10 text-sm text-gray-400">
+                      <span>
+                        Page {currentTablePage + 1}{!nextCursor && ` of ${lastTablePage + 1}`}
+                        {selectedBookIds.length > 0 && (
+                          <>
+                            {` • ${selectedBookIds.length} selected • `}
+                            <button onClick={() => setShowExportModal(true)} className="text-purple-300 hover:text-purple-200 cursor-pointer">
+                              Export
+                            </button>
+                            {' • '}
+                            <button onClick={() => setSelectedBookIds([])} className="hover:text-white cursor-pointer">
+                              Clear
+                            </button>
+                          </>
+                        )}
+                      </span>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => setTablePage(currentTablePage - 1)}
+                          disabled={currentTablePage === 0}
+                          className="px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 hover:bg-white/10 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-all cursor-pointer"
+                        >
+                          Previous
+                        </button>
+                        <button
+                          onClick={handleNextTablePage}
+                          disabled={loadingMore || (currentTablePage >= lastTablePage && !nextCursor)}
+                          className="px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 hover:bg-white/10 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-all cursor-pointer"
+                        >
+                          {loadingMore ? 'Loading...' : 'Next'}
+                        </button>
+                      </div>
+                    </div>
                   </div>
                 )}
               </>
             )}
+
+            {/* Infinite scroll - loads the next page as the end of the grid comes into view */}
+            {!showTrash && viewMode !== 'table' && nextCursor && (
+              <div ref={loadMoreRef} className="py-8 text-center text-sm text-gray-400">
+                {loadMoreFailed ? (
+                  <>
+                    Couldn't load more books.{' '}
+                    <button onClick={loadMoreBooks} className="text-purple-300 hover:text-purple-200 underline">
+                      Try again
+                    </button>
+                  </>
+                ) : loadingMore ? 'Loading more books...' : ''}
+              </div>
+            )}
           </div>
 
           {/* SECONDARY CONTENT: AI RECOMMENDATIONS (MOVED HERE!) */}
@@ -606,6 +1956,7 @@ export default function Home() {
           onClose={handleCloseAddModal}
           onAddBook={handleAddBook}
           initialData={modalInitialData}
+          tagSuggestions={tags}
         />
 
         <DeleteConfirmModal
@@ -620,6 +1971,52 @@ export default function Home() {
           book={bookToEdit}
           onSave={handleSaveEdit}
           onClose={closeEditModal}
+          tagSuggestions={tags}
+          initialTab={editModalTab}
+          highlights={bookToEdit ? highlights.filter(highlight => highlight.book_id === bookToEdit.id) : []}
+          highlightTagSuggestions={highlightTags}
+          onAddHighlight={handleAddHighlight}
+          onUpdateHighlight={handleUpdateHighlight}
+          onDeleteHighlight={handleDeleteHighlight}
+          onRevert={handleRevertBook}
+        />
+
+        <LogSessionModal
+          isOpen={showLogSessionModal}
+          book={bookToLogSession}
+          onSave={handleSaveSession}
+          onCancel={closeLogSessionModal}
+        />
+
+        <ImportModal
+          isOpen={importLibrary !== null}
+          books={importLibrary || []}
+          onImport={handleImportBooks}
+          onClose={() => setImportLibrary(null)}
+        />
+
+        <KindleImportModal
+          isOpen={kindleLibrary !== null}
+          books={kindleLibrary || []}
+          onImport={handleImportKindle}
+          onClose={() => setKindleLibrary(null)}
+        />
+
+        <ExportModal
+          isOpen={showExportModal}
+          filtersActive={hasActiveFilters}
+          selectedCount={selectedBookIds.length}
+          shelves={shelves}
+          onExport={handleExport}
+          onClose={() => setShowExportModal(false)}
+        />
+
+        <AuthorMergeModal
+          isOpen={showAuthorsModal}
+          authors={authors}
+          onMerge={handleMergeAuthors}
+          onUpdateSortName={handleUpdateAuthorSortName}
+          onClose={() => setShowAuthorsModal(false)}
         />
       </main>
     </AuthWrapper>
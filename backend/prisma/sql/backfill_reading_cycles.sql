@@ -0,0 +1,18 @@
+-- Reads of books finished before reading_cycles existed were only kept on the book itself, so
+-- starting a re-read would overwrite them. Run this once in the Supabase SQL editor after
+-- `prisma db push` to give each of those books a cycle for its finished read. It's safe to run
+-- again - books that already have a cycle are left alone.
+
+insert into reading_cycles (id, book_id, user_id, date_started, date_finished, rating, notes)
+select
+  gen_random_uuid()::text,
+  b.id,
+  b.user_id,
+  b.date_started,
+  b.date_finished,
+  b.rating,
+  nullif(b.reading_notes, '')
+from books b
+where b.reading_status = 'finished'
+  and b.date_finished is not null
+  and not exists (select 1 from reading_cycles c where c.book_id = b.id);
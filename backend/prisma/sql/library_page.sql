@@ -0,0 +1,171 @@
+-- One page of the library in the chosen sort order, called from lib/database.ts as
+-- supabase.rpc('library_page'). Prisma can't express SQL functions, so run this once in the
+-- Supabase SQL editor after `prisma db push` and link_book_authors.sql (for author_sort_name and
+-- split_author_names). It's safe to run again.
+--
+-- Returns the ids of the books after after_id, the last book of the previous page, that pass the
+-- filters: a shelf, any or all of some tags (match_all_tags), a lowest rating, free text matched
+-- by search_books, with its snippet, and filters written in the search bar like author:orwell
+-- (query_filters, as parsed by parseQuery in lib/query.ts). With no page_size every book is
+-- returned, e.g. to count them.
+--
+-- Books sort the way sortBooks in lib/sort.ts sorts them: text in the library_sort collation,
+-- books without a value go last in either direction, and ties fall back to when the book was added. With no sort
+-- key a search is best match first, a shelf in its own order and the rest of the library newest
+-- first.
+
+-- The root locale ignoring case and accents, with numbers in number order ("Book 2" before
+-- "Book 10") - what the Intl.Collator in lib/sort.ts compares titles with
+create collation if not exists library_sort (provider = icu, locale = 'und-u-kn-ks-level1', deterministic = false);
+
+-- ":" matches part of the field, "=" the whole field - both ignore case
+create or replace function query_text_matches(field text, filter_operator text, filter_value text)
+returns boolean
+language sql
+immutable
+as $$
+  select case filter_operator
+    when '=' then lower(coalesce(field, '')) = lower(filter_value)
+    else strpos(lower(coalesce(field, '')), lower(filter_value)) > 0
+  end;
+$$;
+
+-- A date against a year, month or day, treating the value as a whole period: added<2026 is
+-- before 2026 began, added<=2026 until it ended
+create or replace function query_date_matches(field text, filter_operator text, filter_value text)
+returns boolean
+language sql
+immutable
+as $$
+  select coalesce(case filter_operator
+    when '>' then not starts_with(left(field, 10), filter_value) and left(field, 10) collate "C" > filter_value
+    when '>=' then starts_with(left(field, 10), filter_value) or left(field, 10) collate "C" > filter_value
+    when '<' then not starts_with(left(field, 10), filter_value) and left(field, 10) collate "C" < filter_value
+    when '<=' then starts_with(left(field, 10), filter_value) or left(field, 10) collate "C" < filter_value
+    else starts_with(left(field, 10), filter_value)
+  end, false);
+$$;
+
+-- Whether a book passes one search bar filter, the way matchesFilter in lib/query.ts checks it.
+-- Statuses arrive as stored, e.g. "finished" for status:done.
+create or replace function book_matches_query_filter(b books, filter_key text, filter_operator text, filter_value text)
+returns boolean
+language sql
+stable
+as $$
+  select case filter_key
+    when 'author' then query_text_matches(b.author, filter_operator, filter_value)
+    when 'title' then query_text_matches(b.title, filter_operator, filter_value)
+    when 'category' then query_text_matches(b.category, filter_operator, filter_value)
+    when 'series' then query_text_matches(b.series_name, filter_operator, filter_value)
+    when 'tag' then exists (
+      select 1 from book_tags bt join tags t on t.id = bt.tag_id
+      where bt.book_id = b.id and query_text_matches(t.name, filter_operator, filter_value))
+    when 'status' then b.reading_status = filter_value
+    when 'rating' then b.rating is not null and case filter_operator
+      when '>' then b.rating > filter_value::float8
+      when '>=' then b.rating >= filter_value::float8
+      when '<' then b.rating < filter_value::float8
+      when '<=' then b.rating <= filter_value::float8
+      else b.rating = filter_value::float8
+    end
+    when 'added' then query_date_matches(b.created_at::text, filter_operator, filter_value)
+    when 'finished' then query_date_matches(b.date_finished::text, filter_operator, filter_value)
+    else false
+  end;
+$$;
+
+-- The result columns changed when snippets were added, which create or replace can't do
+drop function if exists library_page;
+
+create or replace function library_page(
+  sort_key text default null,
+  sort_direction text default 'desc',
+  after_id text default null,
+  page_size int default 24,
+  category_filter text default null,
+  status_filter text default null,
+  shelf_filter text default null,
+  tag_names text[] default null,
+  match_all_tags boolean default false,
+  min_rating real default null,
+  search_query text default null,
+  query_filters jsonb default null
+)
+returns table (book_id text, snippet text)
+language plpgsql
+stable
+security invoker -- row level security still limits results to the caller's books
+as $$
+declare
+  sort_value text := case sort_key
+    when 'title' then 'b.title collate library_sort'
+    when 'author' then 'coalesce(
+      (select a.sort_name from book_authors ba join authors a on a.id = ba.author_id
+       where ba.book_id = b.id order by ba.position limit 1),
+      author_sort_name((split_author_names(b.author))[1])) collate library_sort'
+    when 'category' then 'b.category collate library_sort'
+    when 'status' then 'case b.reading_status when ''to-read'' then 0 when ''reading'' then 1 else 2 end'
+    when 'progress' then 'coalesce(b.progress_percentage, 0)'
+    when 'started' then 'b.date_started'
+    when 'finished' then 'b.date_finished'
+    when 'rating' then 'nullif(b.rating, 0)'
+    else case
+      when search_query is not null then 'matches.rank'
+      when shelf_filter is not null
+        then '(select sb.position from shelf_books sb where sb.book_id = b.id and sb.shelf_id = $5)'
+      else 'b.created_at'
+    end
+  end;
+  direction text := case
+    when sort_key is null then case when search_query is null and shelf_filter is not null then 'asc' else 'desc' end
+    when sort_direction = 'asc' then 'asc'
+    else 'desc'
+  end;
+  -- Every match for the search, worked out once; without a search nothing is joined
+  matches_source text := case when search_query is null
+    then 'select null::text as book_id, null::real as rank, null::text as snippet where false'
+    else 'select * from search_books($9, null)'
+  end;
+  comparison text := case direction when 'asc' then '>' else '<' end;
+begin
+  return query execute format($query$
+    with matches as (%4$s),
+    after as (
+      select sorted.value, b.created_at, b.id
+      from books b
+      left join matches on matches.book_id = b.id
+      cross join lateral (select %1$s as value) sorted
+      where b.id = $1
+    )
+    select b.id, matches.snippet
+    from books b
+    left join matches on matches.book_id = b.id
+    cross join lateral (select %1$s as value) sorted
+    where b.deleted_at is null
+      and ($2::text is null or b.category = $2)
+      and ($3::text is null or b.reading_status = $3)
+      and ($5::text is null or exists (
+        select 1 from shelf_books sb where sb.book_id = b.id and sb.shelf_id = $5))
+      and ($6::text[] is null or (
+        select count(distinct t.name) from book_tags bt join tags t on t.id = bt.tag_id
+        where bt.book_id = b.id and t.name = any($6)
+      ) >= case when $7 then cardinality($6) else 1 end)
+      and ($8::real is null or coalesce(b.rating, 0) >= $8)
+      and ($9::text is null or matches.book_id is not null)
+      and ($10::jsonb is null or not exists (
+        select 1 from jsonb_to_recordset($10) as f(key text, operator text, value text, negated boolean)
+        where book_matches_query_filter(b, f.key, f.operator, f.value) = f.negated))
+      and ($1::text is null or exists (
+        select 1 from after
+        where (after.value is not null and (sorted.value is null
+            or (sorted.value, b.created_at, b.id) %2$s (after.value, after.created_at, after.id)))
+          or (after.value is null and sorted.value is null
+            and (b.created_at, b.id) %2$s (after.created_at, after.id))
+      ))
+    order by sorted.value %3$s nulls last, b.created_at %3$s, b.id %3$s
+    limit $4
+  $query$, sort_value, comparison, direction, matches_source)
+  using after_id, category_filter, status_filter, page_size, shelf_filter, tag_names, match_all_tags, min_rating, search_query, query_filters;
+end;
+$$;
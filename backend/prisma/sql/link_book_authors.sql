@@ -0,0 +1,104 @@
+-- Links books added before authors had their own records to author records, creating the
+-- records as needed. Run this once in the Supabase SQL editor after `prisma db push`. It's safe
+-- to run again - only books with no author links are touched, and author strings are left as
+-- they are. Books in the trash are skipped; they're linked when they're restored.
+--
+-- split_author_names and author_sort_name follow splitAuthors and getSortName in lib/authors.ts.
+
+-- "Andrew Hunt & David Thomas" -> {Andrew Hunt, David Thomas}; a single "Orwell, George" is turned round
+create or replace function split_author_names(author text)
+returns text[]
+language plpgsql
+immutable
+as $$
+declare
+  suffix constant text := '^(jr|sr|ii|iii|iv|phd|md)\.?$';
+  author_group text;
+  parts text[];
+  part text;
+  names text[] := '{}';
+begin
+  foreach author_group in array regexp_split_to_array(coalesce(author, ''), '\s*(?:&|;|\yand\y)\s*', 'i') loop
+    select coalesce(array_agg(trim(piece) order by position) filter (where trim(piece) <> ''), '{}')
+    into parts
+    from unnest(string_to_array(author_group, ',')) with ordinality as split(piece, position);
+
+    -- "Tolkien, J.R.R." - two single words is one inverted name, not two authors
+    if cardinality(parts) = 2 and parts[1] !~ '\s' and parts[2] !~ '\s' and parts[2] !~* suffix then
+      names := names || (parts[2] || ' ' || parts[1]);
+      continue;
+    end if;
+
+    foreach part in array parts loop
+      -- "Martin Luther King, Jr." - a suffix belongs to the name before it
+      if part ~* suffix and cardinality(names) > 0 then
+        names[cardinality(names)] := names[cardinality(names)] || ' ' || part;
+      else
+        names := names || part;
+      end if;
+    end loop;
+  end loop;
+
+  return names;
+end;
+$$;
+
+-- "Robert C. Martin" -> "Martin, Robert C.", "Martin Luther King Jr." -> "King, Martin Luther, Jr."
+create or replace function author_sort_name(name text)
+returns text
+language plpgsql
+immutable
+as $$
+declare
+  words text[] := regexp_split_to_array(trim(name), '\s+');
+  suffix text;
+begin
+  if cardinality(words) > 2 and words[cardinality(words)] ~* '^(jr|sr|ii|iii|iv|phd|md)\.?$' then
+    suffix := words[cardinality(words)];
+    words := words[1:cardinality(words) - 1];
+  end if;
+
+  if cardinality(words) < 2 then
+    return trim(name);
+  end if;
+
+  return words[cardinality(words)] || ', ' || array_to_string(words[1:cardinality(words) - 1], ' ') || coalesce(', ' || suffix, '');
+end;
+$$;
+
+begin;
+
+create temporary table unlinked_book_authors on commit drop as
+select b.id as book_id, b.user_id, name.name, name.position
+from books b
+cross join unnest(split_author_names(b.author)) with ordinality as name(name, position)
+where b.deleted_at is null
+  and not exists (select 1 from book_authors ba where ba.book_id = b.id);
+
+-- Author records for names that don't match an author's name or alias, once per spelling
+insert into authors (id, user_id, name, sort_name)
+select gen_random_uuid()::text, new_author.user_id, new_author.name, author_sort_name(new_author.name)
+from (
+  select distinct on (user_id, lower(name)) user_id, name
+  from unlinked_book_authors
+  order by user_id, lower(name), book_id, position
+) as new_author
+where not exists (
+  select 1 from authors a
+  where a.user_id::text = new_author.user_id::text
+    and (lower(a.name) = lower(new_author.name)
+      or lower(new_author.name) in (select lower(alias) from unnest(a.aliases) as alias))
+);
+
+-- Two spellings of the same author on one book only link once, at the first one's position
+insert into book_authors (book_id, author_id, position)
+select distinct on (u.book_id, a.id) u.book_id, a.id, u.position - 1
+from unlinked_book_authors u
+join authors a
+  on a.user_id::text = u.user_id::text
+  and (lower(a.name) = lower(u.name)
+    or lower(u.name) in (select lower(alias) from unnest(a.aliases) as alias))
+order by u.book_id, a.id, u.position
+on conflict do nothing;
+
+commit;
@@ -0,0 +1,87 @@
+-- Merging duplicate authors, called from lib/database.ts as supabase.rpc('merge_authors').
+-- Prisma can't express SQL functions, so run this once in the Supabase SQL editor after
+-- `prisma db push`. It's safe to run again.
+--
+-- Everything happens in one transaction: the sources' books are relinked to the target, the
+-- sources' names are kept as aliases of it, the sources are deleted, and each affected book's
+-- author string is rewritten from its authors with the change recorded in book_changes, the
+-- same way updateBook records it. Returns the ids of the affected books.
+
+create or replace function merge_authors(target_author_id text, source_author_ids text[])
+returns setof text
+language plpgsql
+security invoker -- row level security still limits changes to the caller's authors and books
+as $$
+declare
+  target authors%rowtype;
+  affected_ids text[];
+begin
+  select * into target from authors where id = target_author_id;
+  if not found then
+    raise exception 'Author not found';
+  end if;
+
+  source_author_ids := array_remove(source_author_ids, target_author_id);
+
+  select coalesce(array_agg(distinct book_id), '{}') into affected_ids
+  from book_authors
+  where author_id = any(source_author_ids);
+
+  -- Books that only have a source author get linked to the target in the same position
+  insert into book_authors (book_id, author_id, position)
+  select distinct on (book_id) book_id, target_author_id, position
+  from book_authors
+  where author_id = any(source_author_ids)
+    and book_id not in (select book_id from book_authors where author_id = target_author_id)
+  order by book_id, position;
+
+  update authors
+  set aliases = (
+    select coalesce(array_agg(distinct alias), '{}')
+    from (
+      select unnest(target.aliases) as alias
+      union
+      select unnest(array[a.name] || a.aliases) from authors a where a.id = any(source_author_ids)
+    ) as names
+    where lower(alias) <> lower(target.name)
+  )
+  where id = target_author_id;
+
+  -- Deleting the sources removes their book_authors links too
+  delete from authors where id = any(source_author_ids);
+
+  -- "A", "A & B" or "A, B & C", in credit order
+  with rewritten as (
+    select b.id, b.author as old_author, (
+      select case
+        when count(*) <= 1 then max(a.name)
+        else array_to_string((array_agg(a.name order by ba.position))[1:count(*) - 1], ', ')
+          || ' & ' || (array_agg(a.name order by ba.position))[count(*)]
+      end
+      from book_authors ba
+      join authors a on a.id = ba.author_id
+      where ba.book_id = b.id
+    ) as new_author
+    from books b
+    where b.id = any(affected_ids)
+  ),
+  updated as (
+    update books
+    set author = rewritten.new_author
+    from rewritten
+    where books.id = rewritten.id
+      and rewritten.new_author is not null
+      and rewritten.new_author <> rewritten.old_author
+    returning books.id, books.user_id, rewritten.old_author, rewritten.new_author
+  )
+  insert into book_changes (id, book_id, user_id, changes)
+  select
+    gen_random_uuid()::text,
+    updated.id,
+    updated.user_id,
+    jsonb_build_object('author', jsonb_build_object('old', updated.old_author, 'new', updated.new_author))
+  from updated;
+
+  return query select unnest(affected_ids);
+end;
+$$;
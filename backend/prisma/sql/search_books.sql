@@ -0,0 +1,104 @@
+-- Full-text search for the library, called from lib/database.ts as supabase.rpc('search_books').
+-- Prisma can't express generated columns or SQL functions, so run this once in the Supabase
+-- SQL editor after `prisma db push`. It's safe to run again.
+--
+-- Books are matched on a weighted tsvector over title and author (A), category (B) and
+-- reading notes (C), and on the text of their highlights. Trigram similarity on title and
+-- author catches typos and partial words the full-text parser misses, and part of a tag name
+-- matches its books as the search bar always has. Snippets mark matches
+-- with [[ and ]] so the client can highlight them without rendering HTML.
+
+create extension if not exists pg_trgm;
+
+alter table books
+  add column if not exists search_vector tsvector
+  generated always as (
+    setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(author, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(category, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(reading_notes, '')), 'C')
+  ) stored;
+
+create index if not exists books_search_vector_idx on books using gin (search_vector);
+create index if not exists books_title_trgm_idx on books using gin (title gin_trgm_ops);
+create index if not exists books_author_trgm_idx on books using gin (author gin_trgm_ops);
+create index if not exists highlights_text_search_idx on highlights using gin (to_tsvector('english', text));
+
+create or replace function search_books(search_query text, result_limit int default 50)
+returns table (book_id text, rank real, snippet text)
+language sql
+stable
+security invoker -- row level security still limits results to the caller's books
+as $$
+  with query as (
+    -- websearch_to_tsquery accepts any user input: quotes, "or", -exclusions, stray punctuation
+    select websearch_to_tsquery('simple', search_query) || websearch_to_tsquery('english', search_query) as q
+  ),
+  text_matches as (
+    select
+      b.id as book_id,
+      ts_rank(b.search_vector, query.q) as rank,
+      ts_headline(
+        'english',
+        concat_ws(' · ', b.title, b.author, b.category, b.reading_notes),
+        query.q,
+        'StartSel=[[, StopSel=]], MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'
+      ) as snippet
+    from books b, query
+    where b.deleted_at is null
+      and b.search_vector @@ query.q
+  ),
+  highlight_matches as (
+    select distinct on (h.book_id)
+      h.book_id,
+      -- A quote match ranks a little below a match in the book's own fields
+      ts_rank(to_tsvector('english', h.text), query.q) * 0.8 as rank,
+      ts_headline(
+        'english',
+        h.text,
+        query.q,
+        'StartSel=[[, StopSel=]], MaxWords=24, MinWords=8'
+      ) as snippet
+    from highlights h
+    join books b on b.id = h.book_id and b.deleted_at is null, query
+    where to_tsvector('english', h.text) @@ query.q
+    order by h.book_id, ts_rank(to_tsvector('english', h.text), query.q) desc
+  ),
+  fuzzy_matches as (
+    select
+      b.id as book_id,
+      greatest(word_similarity(search_query, b.title), word_similarity(search_query, b.author)) * 0.5 as rank,
+      null::text as snippet
+    from books b
+    where b.deleted_at is null
+      and (search_query <% b.title or search_query <% b.author)
+  ),
+  tag_matches as (
+    select distinct
+      bt.book_id,
+      0.5::real as rank,
+      null::text as snippet
+    from book_tags bt
+    join tags t on t.id = bt.tag_id
+    join books b on b.id = bt.book_id and b.deleted_at is null
+    -- % and _ in the query are escaped so they're matched as themselves
+    where t.name ilike '%' || replace(replace(replace(search_query, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+  ),
+  all_matches as (
+    select * from text_matches
+    union all
+    select * from highlight_matches
+    union all
+    select * from fuzzy_matches
+    union all
+    select * from tag_matches
+  )
+  select
+    all_matches.book_id,
+    max(all_matches.rank)::real as rank,
+    (array_agg(all_matches.snippet order by all_matches.rank desc) filter (where all_matches.snippet is not null))[1] as snippet
+  from all_matches
+  group by all_matches.book_id
+  order by rank desc
+  limit result_limit;
+$$;
@@ -0,0 +1,90 @@
+-- Linking a book to its authors, called from lib/database.ts as supabase.rpc('set_book_authors').
+-- Prisma can't express SQL functions, so run this once in the Supabase SQL editor after
+-- `prisma db push` and link_book_authors.sql (for author_sort_name). It's safe to run again.
+--
+-- Everything happens in one transaction: authors that don't exist yet are created, the book's
+-- links are replaced, and its author string is rewritten from the linked authors with the change
+-- recorded in book_changes, the same way updateBook records it. Names match an author's name or
+-- one of its aliases case-insensitively. Returns the linked authors in credit order.
+
+create or replace function set_book_authors(target_book_id text, author_names text[])
+returns setof authors
+language plpgsql
+security invoker -- row level security still limits changes to the caller's authors and books
+as $$
+declare
+  previous_author text;
+  linked_author text;
+begin
+  select b.author into previous_author from books b where b.id = target_book_id;
+  if not found then
+    raise exception 'Book not found';
+  end if;
+
+  -- Each spelling nobody goes by yet becomes a new author
+  insert into authors (id, user_id, name, sort_name)
+  select gen_random_uuid()::text, auth.uid()::text, missing.name, author_sort_name(missing.name)
+  from (
+    select distinct on (lower(n.name)) n.name
+    from unnest(author_names) with ordinality as n(name, position)
+    order by lower(n.name), n.position
+  ) as missing
+  where not exists (
+    select 1 from authors a
+    where a.user_id = auth.uid()::text
+      and (lower(a.name) = lower(missing.name)
+        or lower(missing.name) in (select lower(alias) from unnest(a.aliases) as alias))
+  );
+
+  delete from book_authors where book_id = target_book_id;
+
+  -- Two spellings of the same author on one book only link once, at the first spelling's place
+  insert into book_authors (book_id, author_id, position)
+  select target_book_id, resolved.author_id, row_number() over (order by resolved.position) - 1
+  from (
+    select distinct on (matched.author_id) matched.author_id, matched.position
+    from (
+      select n.position, (
+        select a.id from authors a
+        where a.user_id = auth.uid()::text
+          and (lower(a.name) = lower(n.name)
+            or lower(n.name) in (select lower(alias) from unnest(a.aliases) as alias))
+        order by lower(a.name) = lower(n.name) desc, a.created_at
+        limit 1
+      ) as author_id
+      from unnest(author_names) with ordinality as n(name, position)
+    ) as matched
+    where matched.author_id is not null
+    order by matched.author_id, matched.position
+  ) as resolved;
+
+  -- "A", "A & B" or "A, B & C", in credit order
+  select case
+    when count(*) <= 1 then max(a.name)
+    else array_to_string((array_agg(a.name order by ba.position))[1:count(*) - 1], ', ')
+      || ' & ' || (array_agg(a.name order by ba.position))[count(*)]
+  end into linked_author
+  from book_authors ba
+  join authors a on a.id = ba.author_id
+  where ba.book_id = target_book_id;
+
+  if linked_author is not null and linked_author <> previous_author then
+    update books set author = linked_author where id = target_book_id;
+
+    insert into book_changes (id, book_id, user_id, changes)
+    select
+      gen_random_uuid()::text,
+      b.id,
+      b.user_id,
+      jsonb_build_object('author', jsonb_build_object('old', previous_author, 'new', linked_author))
+    from books b
+    where b.id = target_book_id;
+  end if;
+
+  return query
+    select a.* from book_authors ba
+    join authors a on a.id = ba.author_id
+    where ba.book_id = target_book_id
+    order by ba.position;
+end;
+$$;
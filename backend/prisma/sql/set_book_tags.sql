@@ -0,0 +1,33 @@
+-- Replacing a book's tags, called from lib/database.ts as supabase.rpc('set_book_tags').
+-- Prisma can't express SQL functions, so run this once in the Supabase SQL editor after
+-- `prisma db push`. It's safe to run again.
+--
+-- Creating the tags and swapping the book's links happen in one transaction, so a failure
+-- part way through leaves the book with the tags it had. Existing tags are matched
+-- case-insensitively, so "classics" links to a "Classics" tag rather than making another.
+
+create or replace function set_book_tags(target_book_id text, tag_names text[])
+returns void
+language plpgsql
+security invoker -- row level security still limits changes to the caller's books and tags
+as $$
+begin
+  insert into tags (id, user_id, name)
+  select gen_random_uuid()::text, auth.uid()::text, new_tag.name
+  from unnest(tag_names) as new_tag(name)
+  where not exists (
+    select 1 from tags t
+    where t.user_id = auth.uid()::text and lower(t.name) = lower(new_tag.name)
+  )
+  on conflict (user_id, name) do nothing;
+
+  delete from book_tags where book_id = target_book_id;
+
+  insert into book_tags (book_id, tag_id)
+  select target_book_id, t.id
+  from tags t
+  where t.user_id = auth.uid()::text
+    and lower(t.name) in (select lower(name) from unnest(tag_names) as name)
+  on conflict do nothing;
+end;
+$$;
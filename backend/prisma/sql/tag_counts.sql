@@ -0,0 +1,20 @@
+-- How many books have each tag, called from lib/database.ts as supabase.rpc('tag_counts').
+-- Prisma can't express SQL functions, so run this once in the Supabase SQL editor after
+-- `prisma db push`. It's safe to run again.
+--
+-- Counted over the whole library rather than the pages loaded in the browser. Books in the trash
+-- don't count, and tags left on no books aren't returned.
+
+create or replace function tag_counts()
+returns table (name text, book_count int)
+language sql
+stable
+security invoker -- row level security still limits counts to the caller's books and tags
+as $$
+  select t.name, count(distinct b.id)::int as book_count
+  from tags t
+  join book_tags bt on bt.tag_id = t.id
+  join books b on b.id = bt.book_id and b.deleted_at is null
+  group by t.name
+  order by t.name;
+$$;
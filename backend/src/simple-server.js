@@ -18,6 +18,22 @@ const supabase = createClient(
     process.env.SUPABASE_ANON_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
 );
 
+// Every finished read of a book - re-reads each have their own reading cycle.
+// Books finished before cycles were tracked count as one read on their date_finished.
+const getFinishDates = (book) => {
+    const cycles = (book.reading_cycles || []).map(cycle => cycle.date_finished);
+    if (cycles.length > 0) return cycles;
+    return book.reading_status === 'finished' ? [book.date_finished || null] : [];
+};
+
+const isThisMonth = (date) => {
+    if (!date) return false;
+    const value = new Date(date);
+    const thisMonth = new Date();
+    return value.getMonth() === thisMonth.getMonth() &&
+        value.getFullYear() === thisMonth.getFullYear();
+};
+
 // Middleware
 app.use(cors({
     origin: process.env.NODE_ENV === 'production'
@@ -54,26 +70,71 @@ app.get('/health', async (req, res) => {
     }
 });
 
-// Get all books
+// Get books, one page at a time. Pages are keyed on created_at/id (newest first):
+// pass ?limit=50 for the page size and ?cursor=<nextCursor from the previous page> for the next one.
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// The cursor's values go into a PostgREST filter, so anything but a timestamp and an id
+// (a cuid or uuid) is rejected rather than passed through
+const CURSOR_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/;
+const CURSOR_ID = /^[a-z0-9-]+$/i;
+
+const encodeCursor = (book) => Buffer.from(JSON.stringify({ created_at: book.created_at, id: book.id })).toString('base64url');
+const decodeCursor = (cursor) => {
+    try {
+        const { created_at, id } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+        const valid = typeof created_at === 'string' && CURSOR_TIMESTAMP.test(created_at) &&
+            !Number.isNaN(Date.parse(created_at)) && typeof id === 'string' && CURSOR_ID.test(id);
+        return valid ? { created_at, id } : null;
+    } catch {
+        return null;
+    }
+};
+
 app.get('/api/v1/books', async (req, res) => {
     try {
-        console.log('📚 Fetching all books...');
+        const limit = Math.min(parseInt(req.query.limit, 10) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+        const cursor = req.query.cursor ? decodeCursor(req.query.cursor) : null;
 
-        const { data, error } = await supabase
+        if (req.query.cursor && !cursor) {
+            return res.status(400).json({
+                success: false,
+                error: 'Invalid cursor'
+            });
+        }
+
+        console.log(`📚 Fetching books (limit ${limit}${cursor ? `, after ${cursor.id}` : ''})...`);
+
+        let query = supabase
             .from('books')
             .select('*')
-            .order('created_at', { ascending: false });
+            .is('deleted_at', null);
+
+        if (cursor) {
+            query = query.or(`created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt."${cursor.id}")`);
+        }
+
+        // One extra row tells us whether there's another page
+        const { data, error } = await query
+            .order('created_at', { ascending: false })
+            .order('id', { ascending: false })
+            .limit(limit + 1);
 
         if (error) {
             console.error('❌ Supabase error:', error);
             throw error;
         }
 
-        console.log(`✅ Found ${data.length} books`);
+        const books = data.slice(0, limit);
+        const nextCursor = data.length > limit ? encodeCursor(books[books.length - 1]) : null;
+
+        console.log(`✅ Found ${books.length} books`);
         res.json({
             success: true,
-            data: data,
-            count: data.length,
+            data: books,
+            count: books.length,
+            nextCursor,
             timestamp: new Date().toISOString()
         });
     } catch (error) {
@@ -93,7 +154,8 @@ app.get('/api/v1/books/stats', async (req, res) => {
 
         const { data, error } = await supabase
             .from('books')
-            .select('category');
+            .select('category')
+            .is('deleted_at', null);
 
         if (error) throw error;
 
@@ -137,7 +199,8 @@ app.get('/api/v1/analytics/overview', async (req, res) => {
 
         const { data, error } = await supabase
             .from('books')
-            .select('*');
+            .select('*, reading_cycles(date_finished)')
+            .is('deleted_at', null);
 
         if (error) throw error;
 
@@ -145,7 +208,9 @@ app.get('/api/v1/analytics/overview', async (req, res) => {
         const analytics = {
             totalBooks: data.length,
             readingStats: {
-                finished: data.filter(book => book.reading_status === 'finished').length,
+                // Each re-read counts as another finish
+                finished: data.reduce((sum, book) => sum + getFinishDates(book).length, 0),
+                rereads: data.reduce((sum, book) => sum + Math.max(getFinishDates(book).length - 1, 0), 0),
                 reading: data.filter(book => book.reading_status === 'reading').length,
                 toRead: data.filter(book => book.reading_status === 'to-read').length
             },
@@ -163,13 +228,8 @@ app.get('/api/v1/analytics/overview', async (req, res) => {
                     return startDate.getMonth() === thisMonth.getMonth() &&
                         startDate.getFullYear() === thisMonth.getFullYear();
                 }).length,
-                booksFinishedThisMonth: data.filter(book => {
-                    if (!book.date_finished) return false;
-                    const finishDate = new Date(book.date_finished);
-                    const thisMonth = new Date();
-                    return finishDate.getMonth() === thisMonth.getMonth() &&
-                        finishDate.getFullYear() === thisMonth.getFullYear();
-                }).length
+                booksFinishedThisMonth: data.reduce((sum, book) =>
+                    sum + getFinishDates(book).filter(isThisMonth).length, 0)
             }
         };
 
@@ -202,12 +262,14 @@ app.get('/api/v1/analytics/dashboard', async (req, res) => {
 
         const { data, error } = await supabase
             .from('books')
-            .select('*');
+            .select('*, reading_cycles(date_finished)')
+            .is('deleted_at', null);
 
         if (error) throw error;
 
         // Calculate analytics
         const finished = data.filter(book => book.reading_status === 'finished');
+        const totalReads = data.reduce((sum, book) => sum + getFinishDates(book).length, 0);
         const reading = data.filter(book => book.reading_status === 'reading');
         const toRead = data.filter(book => book.reading_status === 'to-read');
 
@@ -221,13 +283,7 @@ app.get('/api/v1/analytics/dashboard', async (req, res) => {
         });
 
         // Recent activity
-        const thisMonth = new Date();
-        const booksFinishedThisMonth = data.filter(book => {
-            if (!book.date_finished) return false;
-            const finishDate = new Date(book.date_finished);
-            return finishDate.getMonth() === thisMonth.getMonth() &&
-                finishDate.getFullYear() === thisMonth.getFullYear();
-        });
+        const booksFinishedThisMonth = data.filter(book => getFinishDates(book).some(isThisMonth));
 
         const currentlyReadingBooks = data.filter(book => book.reading_status === 'reading');
 
@@ -409,7 +465,7 @@ app.get('/api/v1/analytics/dashboard', async (req, res) => {
                         <div class="stat-label">📖 Total Books</div>
                     </div>
                     <div class="stat-card finished">
-                        <div class="stat-number">${finished.length}</div>
+                        <div class="stat-number">${totalReads}</div>
                         <div class="stat-label">✅ Finished</div>
                     </div>
                     <div class="stat-card reading">
@@ -495,7 +551,7 @@ app.get('/api/v1/analytics/dashboard', async (req, res) => {
                                     <div class="book-title">${book.title}</div>
                                     <div class="book-author">by ${book.author}</div>
                                 </div>
-                                <div class="badge finished">Completed</div>
+                                <div class="badge finished">${getFinishDates(book).length > 1 ? `Read ${getFinishDates(book).length} times` : 'Completed'}</div>
                             </div>
                         `).join('')}
                     </div>
@@ -643,23 +699,23 @@ app.put('/api/v1/books/:id', async (req, res) => {
     }
 });
 
-// Delete book
+// Delete book - moves it to the trash, where it can be restored for 30 days
 app.delete('/api/v1/books/:id', async (req, res) => {
     try {
         const { id } = req.params;
-        console.log(`🗑️ Deleting book with ID: ${id}`);
+        console.log(`🗑️ Moving book to trash with ID: ${id}`);
 
         const { error } = await supabase
             .from('books')
-            .delete()
+            .update({ deleted_at: new Date().toISOString() })
             .eq('id', id);
 
         if (error) throw error;
 
-        console.log(`✅ Deleted book with ID: ${id}`);
+        console.log(`✅ Moved book to trash with ID: ${id}`);
         res.json({
             success: true,
-            message: 'Book deleted successfully'
+            message: 'Book moved to trash'
         });
     } catch (error) {
         console.error('❌ Error deleting book:', error);
@@ -671,6 +727,37 @@ app.delete('/api/v1/books/:id', async (req, res) => {
     }
 });
 
+// Restore book from the trash
+app.post('/api/v1/books/:id/restore', async (req, res) => {
+    try {
+        const { id } = req.params;
+        console.log(`♻️ Restoring book with ID: ${id}`);
+
+        const { data, error } = await supabase
+            .from('books')
+            .update({ deleted_at: null })
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) throw error;
+
+        console.log(`✅ Restored book: ${data.title}`);
+        res.json({
+            success: true,
+            data: data,
+            message: 'Book restored successfully'
+        });
+    } catch (error) {
+        console.error('❌ Error restoring book:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to restore book',
+            message: error.message
+        });
+    }
+});
+
 // Start server
 app.listen(PORT, async () => {
     console.log('🚀 Starting Digital Bookshelf Backend...');
@@ -2,8 +2,13 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import { X, Search, User, Tag, Calendar, BarChart3, Upload, BookOpen } from 'lucide-react';
+import { X, Search, User, Tag, Calendar, Hash, Layers, BarChart3, Upload, BookOpen } from 'lucide-react';
 import BookCoverUpload from './BookCoverUpload';
+import TagPicker from './TagPicker';
+import { searchGoogleBooks } from '../lib/googleBooks';
+import type { Book, BookFormat, ProgressUnit } from '../lib/supabase';
+import { normalizeIsbn } from '../lib/isbn';
+import { calculateProgressPercentage, getProgressUnitLabels } from '../lib/progress';
 
 interface AddBookModalProps {
     isOpen: boolean;
@@ -16,65 +21,33 @@ interface AddBookModalProps {
         reading_notes?: string;
         cover_url?: string;
     };
+    tagSuggestions?: string[];
 }
 
-interface Book {
-    id: string;
-    title: string;
-    author: string;
-    category: string;
-    cover_url?: string | null;
-    reading_status: 'to-read' | 'reading' | 'finished';
-    created_at: string;
-    progress_percentage?: number;
-    date_started?: string | null;
-    date_finished?: string | null;
-    reading_notes?: string | null;
-}
-
-// Google Books search function
-const searchGoogleBooks = async (query: string) => {
-    if (query.length < 3) return [];
-
-    try {
-        const response = await fetch(
-            `https://www.googleapis.com/books/v1/volumes?q=${encodeURIComponent(query)}&maxResults=5&orderBy=relevance`
-        );
-
-        if (!response.ok) {
-            throw new Error('Network response was not ok');
-        }
-
-        const data = await response.json();
-
-        return data.items?.map((book: any) => ({
-            googleBooksId: book.id,
-            title: book.volumeInfo.title || 'Unknown Title',
-            author: book.volumeInfo.authors?.join(', ') || 'Unknown Author',
-            category: book.volumeInfo.categories?.[0] || 'Unknown',
-            description: book.volumeInfo.description || '',
-            coverUrl: book.volumeInfo.imageLinks?.thumbnail?.replace('http:', 'https:') || null,
-            pageCount: book.volumeInfo.pageCount || null,
-            publishedDate: book.volumeInfo.publishedDate || null,
-            publisher: book.volumeInfo.publisher || null
-        })) || [];
-    } catch (error) {
-        console.error('Error searching Google Books:', error);
-        return [];
-    }
-};
-
-export default function AddBookModal({ isOpen, onClose, onAddBook, initialData }: AddBookModalProps) {
+export default function AddBookModal({ isOpen, onClose, onAddBook, initialData, tagSuggestions = [] }: AddBookModalProps) {
     // Form state - initialized with initialData if provided
     const [title, setTitle] = useState(initialData?.title || "");
     const [author, setAuthor] = useState(initialData?.author || "");
     const [category, setCategory] = useState(initialData?.category || "");
     const [readingStatus, setReadingStatus] = useState<'to-read' | 'reading' | 'finished'>('to-read');
     const [coverUrl, setCoverUrl] = useState(initialData?.cover_url || "");
+    const [tags, setTags] = useState<string[]>([]);
+    const [seriesName, setSeriesName] = useState("");
+    const [seriesPosition, setSeriesPosition] = useState<number | ''>('');
+
+    // Edition details
+    const [isbn10, setIsbn10] = useState("");
+    const [isbn13, setIsbn13] = useState("");
+    const [publisher, setPublisher] = useState("");
+    const [publishedDate, setPublishedDate] = useState("");
+    const [language, setLanguage] = useState("");
+    const [format, setFormat] = useState<BookFormat | ''>('');
 
     // Progress tracking
     const [dateStarted, setDateStarted] = useState("");
-    const [progressPercentage, setProgressPercentage] = useState(0);
+    const [progressUnit, setProgressUnit] = useState<ProgressUnit>('pages');
+    const [pageCount, setPageCount] = useState<number | ''>('');
+    const [currentPage, setCurrentPage] = useState<number | ''>('');
     const [readingNotes, setReadingNotes] = useState(initialData?.reading_notes || "");
 
     // Google Books search state
@@ -83,6 +56,10 @@ export default function AddBookModal({ isOpen, onClose, onAddBook, initialData }
     const [isSearching, setIsSearching] = useState(false);
     const [hasSearchResults, setHasSearchResults] = useState(false);
 
+    // Percentage is derived from the current position and the book's length
+    const progressPercentage = calculateProgressPercentage(currentPage || 0, pageCount || 0);
+    const unitLabels = getProgressUnitLabels(progressUnit);
+
     // Refs for modal functionality
     const debounceTimer = useRef<NodeJS.Timeout | null>(null);
     const dropdownRef = useRef<HTMLDivElement>(null);
@@ -101,9 +78,20 @@ export default function AddBookModal({ isOpen, onClose, onAddBook, initialData }
             setCoverUrl(coverUrl);
 
             // Reset other fields to defaults
+            setTags([]);
+            setSeriesName("");
+            setSeriesPosition('');
+            setIsbn10("");
+            setIsbn13("");
+            setPublisher("");
+            setPublishedDate("");
+            setLanguage("");
+            setFormat('');
             setReadingStatus('to-read');
             setDateStarted("");
-            setProgressPercentage(0);
+            setProgressUnit('pages');
+            setPageCount('');
+            setCurrentPage('');
             setSearchResults([]);
             setShowDropdown(false);
             setHasSearchResults(false);
@@ -174,6 +162,19 @@ export default function AddBookModal({ isOpen, onClose, onAddBook, initialData }
         if (selectedBook.coverUrl) {
             setCoverUrl(selectedBook.coverUrl);
         }
+        if (selectedBook.seriesName) {
+            setSeriesName(selectedBook.seriesName);
+            setSeriesPosition(selectedBook.seriesPosition ?? '');
+        }
+        setIsbn10(selectedBook.isbn10 || "");
+        setIsbn13(selectedBook.isbn13 || "");
+        setPublisher(selectedBook.publisher || "");
+        setPublishedDate(selectedBook.publishedDate || "");
+        setLanguage(selectedBook.language || "");
+        if (selectedBook.pageCount) {
+            setProgressUnit('pages');
+            setPageCount(selectedBook.pageCount);
+        }
         setShowDropdown(false);
         setSearchResults([]);
         setHasSearchResults(false);
@@ -195,6 +196,16 @@ export default function AddBookModal({ isOpen, onClose, onAddBook, initialData }
         setCoverUrl('');
     };
 
+    // Ebooks track location and audiobooks track minutes, unless a length is already set
+    const handleFormatSelect = (selected: BookFormat) => {
+        const next = format === selected ? '' : selected;
+        setFormat(next);
+
+        if (next && !pageCount) {
+            setProgressUnit(next === 'audiobook' ? 'minutes' : next === 'ebook' ? 'location' : 'pages');
+        }
+    };
+
     // Handle form submission
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -203,6 +214,18 @@ export default function AddBookModal({ isOpen, onClose, onAddBook, initialData }
             return;
         }
 
+        // Only keep ISBNs of the field's length that pass the check digit, so they can be used to de-duplicate
+        const cleanIsbn10 = normalizeIsbn(isbn10, 10);
+        const cleanIsbn13 = normalizeIsbn(isbn13, 13);
+        if (isbn10.trim() && !cleanIsbn10) {
+            alert('Please check the ISBN-10 - it should be 10 characters with a valid check digit');
+            return;
+        }
+        if (isbn13.trim() && !cleanIsbn13) {
+            alert('Please check the ISBN-13 - it should be 13 digits with a valid check digit');
+            return;
+        }
+
         const newBook = {
             title,
             author,
@@ -210,9 +233,21 @@ export default function AddBookModal({ isOpen, onClose, onAddBook, initialData }
             cover_url: coverUrl || null,
             reading_status: readingStatus,
             progress_percentage: readingStatus === 'reading' ? progressPercentage : readingStatus === 'finished' ? 100 : 0,
+            page_count: pageCount || null,
+            current_page: readingStatus === 'reading' ? currentPage || null : readingStatus === 'finished' ? pageCount || null : null,
+            progress_unit: progressUnit,
             date_started: readingStatus !== 'to-read' && dateStarted ? dateStarted : null,
             date_finished: readingStatus === 'finished' && dateStarted ? new Date().toISOString().split('T')[0] : null,
             reading_notes: readingNotes || null,
+            tags,
+            series_name: seriesName.trim() || null,
+            series_position: seriesName.trim() && seriesPosition !== '' ? seriesPosition : null,
+            isbn_10: cleanIsbn10,
+            isbn_13: cleanIsbn13,
+            publisher: publisher.trim() || null,
+            published_date: publishedDate.trim() || null,
+            language: language.trim() || null,
+            format: format || null,
         };
 
         try {
@@ -229,10 +264,21 @@ export default function AddBookModal({ isOpen, onClose, onAddBook, initialData }
         setTitle("");
         setAuthor("");
         setCategory("");
+        setTags([]);
+        setSeriesName("");
+        setSeriesPosition('');
+        setIsbn10("");
+        setIsbn13("");
+        setPublisher("");
+        setPublishedDate("");
+        setLanguage("");
+        setFormat('');
         setReadingStatus('to-read');
         setCoverUrl("");
         setDateStarted("");
-        setProgressPercentage(0);
+        setProgressUnit('pages');
+        setPageCount('');
+        setCurrentPage('');
         setReadingNotes("");
         setSearchResults([]);
         setShowDropdown(false);
@@ -372,6 +418,46 @@ export default function AddBookModal({ isOpen, onClose, onAddBook, initialData }
                             </div>
                         </div>
 
+                        {/* Tags */}
+                        <div className="space-y-2">
+                            <label className="block text-sm font-medium text-gray-200">
+                                Tags
+                            </label>
+                            <TagPicker
+                                tags={tags}
+                                onChange={setTags}
+                                suggestions={tagSuggestions}
+                            />
+                        </div>
+
+                        {/* Series */}
+                        <div className="space-y-2">
+                            <label className="block text-sm font-medium text-gray-200">
+                                Series
+                            </label>
+                            <div className="grid grid-cols-4 gap-4">
+                                <div className="relative col-span-3">
+                                    <Layers className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                                    <input
+                                        type="text"
+                                        placeholder="e.g. The Expanse"
+                                        value={seriesName}
+                                        onChange={(e) => setSeriesName(e.target.value)}
+                                        className="w-full pl-12 pr-4 py-3 bg-gray-700 border border-gray-600 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all cursor-text"
+                                    />
+                                </div>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    step="0.5"
+                                    placeholder="#"
+                                    value={seriesPosition}
+                                    onChange={(e) => setSeriesPosition(e.target.value ? Number(e.target.value) : '')}
+                                    className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all cursor-text"
+                                />
+                            </div>
+                        </div>
+
                         {/* Book Cover Upload Section */}
                         <div className="space-y-3">
                             <label className="block text-sm font-medium text-gray-200">
@@ -385,6 +471,92 @@ export default function AddBookModal({ isOpen, onClose, onAddBook, initialData }
                             />
                         </div>
 
+                        {/* Edition Details */}
+                        <div className="space-y-3">
+                            <label className="block text-sm font-medium text-gray-200">
+                                Edition Details
+                            </label>
+                            <div className="grid grid-cols-4 gap-2">
+                                {[
+                                    { value: 'hardcover', label: 'Hardcover' },
+                                    { value: 'paperback', label: 'Paperback' },
+                                    { value: 'ebook', label: 'Ebook' },
+                                    { value: 'audiobook', label: 'Audiobook' }
+                                ].map((option) => (
+                                    <button
+                                        key={option.value}
+                                        type="button"
+                                        onClick={() => handleFormatSelect(option.value as BookFormat)}
+                                        className={`px-2 py-2 rounded-xl border text-sm font-medium transition-all duration-200 cursor-pointer ${format === option.value
+                                            ? 'bg-gray-600 border-gray-500 text-white'
+                                            : 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600 hover:text-white'
+                                            }`}
+                                    >
+                                        {option.label}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                {[
+                                    { label: 'ISBN-13', value: isbn13, onChange: setIsbn13, placeholder: 'e.g. 9780316129084' },
+                                    { label: 'ISBN-10', value: isbn10, onChange: setIsbn10, placeholder: 'e.g. 0316129089' },
+                                    { label: 'Publisher', value: publisher, onChange: setPublisher, placeholder: 'e.g. Orbit' },
+                                    { label: 'Published', value: publishedDate, onChange: setPublishedDate, placeholder: 'e.g. 2011-06-15' },
+                                    { label: 'Language', value: language, onChange: setLanguage, placeholder: 'e.g. en' }
+                                ].map((field) => (
+                                    <div key={field.label} className="space-y-1">
+                                        <label className="block text-xs text-gray-400">{field.label}</label>
+                                        <input
+                                            type="text"
+                                            placeholder={field.placeholder}
+                                            value={field.value}
+                                            onChange={(e) => field.onChange(e.target.value)}
+                                            className="w-full px-4 py-2.5 bg-gray-700 border border-gray-600 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all cursor-text text-sm"
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Length - pages for print, location for ebooks, minutes for audiobooks */}
+                        <div className="space-y-2">
+                            <label className="block text-sm font-medium text-gray-200">
+                                Length
+                            </label>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div className="grid grid-cols-3 gap-2">
+                                    {[
+                                        { value: 'pages', label: 'Pages' },
+                                        { value: 'location', label: 'Location' },
+                                        { value: 'minutes', label: 'Minutes' }
+                                    ].map((unit) => (
+                                        <button
+                                            key={unit.value}
+                                            type="button"
+                                            onClick={() => setProgressUnit(unit.value as ProgressUnit)}
+                                            className={`px-2 py-3 rounded-xl border text-sm font-medium transition-all duration-200 cursor-pointer ${progressUnit === unit.value
+                                                ? 'bg-gray-600 border-gray-500 text-white'
+                                                : 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600 hover:text-white'
+                                                }`}
+                                        >
+                                            {unit.label}
+                                        </button>
+                                    ))}
+                                </div>
+                                <div className="relative">
+                                    <Hash className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        placeholder={unitLabels.total}
+                                        value={pageCount}
+                                        onChange={(e) => setPageCount(e.target.value ? Number(e.target.value) : '')}
+                                        className="w-full pl-12 pr-4 py-3 bg-gray-700 border border-gray-600 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all cursor-text"
+                                    />
+                                </div>
+                            </div>
+                        </div>
+
                         {/* Reading Status */}
                         <div className="space-y-2">
                             <label className="block text-sm font-medium text-gray-200">
@@ -431,24 +603,33 @@ export default function AddBookModal({ isOpen, onClose, onAddBook, initialData }
                                     </div>
                                 </div>
 
-                                {/* Progress Bar - Only for reading status */}
+                                {/* Current Position - Only for reading status */}
                                 {readingStatus === 'reading' && (
                                     <div className="space-y-2">
                                         <label className="block text-sm font-medium text-gray-200">
-                                            Progress: {progressPercentage}%
+                                            {unitLabels.current}{pageCount ? `: ${progressPercentage}%` : ''}
                                         </label>
                                         <input
-                                            type="range"
+                                            type="number"
                                             min="0"
-                                            max="100"
-                                            step="5"
-                                            value={progressPercentage}
-                                            onChange={(e) => setProgressPercentage(Number(e.target.value))}
-                                            className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
-                                            style={{
-                                                background: `linear-gradient(to right, #3b82f6 0%, #3b82f6 ${progressPercentage}%, #4b5563 ${progressPercentage}%, #4b5563 100%)`
-                                            }}
+                                            max={pageCount || undefined}
+                                            placeholder={pageCount ? `of ${pageCount}` : 'e.g. 142'}
+                                            value={currentPage}
+                                            onChange={(e) => setCurrentPage(e.target.value ? Number(e.target.value) : '')}
+                                            className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all cursor-text"
                                         />
+                                        {pageCount ? (
+                                            <div className="w-full bg-gray-600 rounded-lg h-2">
+                                                <div
+                                                    className="bg-blue-500 h-2 rounded-lg transition-all duration-300"
+                                                    style={{ width: `${progressPercentage}%` }}
+                                                />
+                                            </div>
+                                        ) : (
+                                            <p className="text-xs text-gray-400">
+                                                Add the book&apos;s length above to track your percentage.
+                                            </p>
+                                        )}
                                     </div>
                                 )}
 
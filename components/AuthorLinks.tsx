@@ -0,0 +1,30 @@
+// components/AuthorLinks.tsx
+import Link from 'next/link';
+import { authorSlug, splitAuthors } from '../lib/authors';
+
+interface AuthorLinksProps {
+    author: string;
+    className?: string;
+}
+
+// Each author in a book's author string, linked to their author page
+export default function AuthorLinks({ author, className = '' }: AuthorLinksProps) {
+    const names = splitAuthors(author);
+
+    return (
+        <span className={className} title={author}>
+            {names.map((name, index) => (
+                <span key={name}>
+                    {index > 0 && (index === names.length - 1 ? ' & ' : ', ')}
+                    <Link
+                        href={`/authors/${authorSlug(name)}`}
+                        onClick={(e) => e.stopPropagation()}
+                        className="hover:text-purple-300 hover:underline transition-colors"
+                    >
+                        {name}
+                    </Link>
+                </span>
+            ))}
+        </span>
+    );
+}
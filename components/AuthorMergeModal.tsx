@@ -0,0 +1,178 @@
+// components/AuthorMergeModal.tsx
+"use client";
+
+import { useState, useEffect } from "react";
+import { Users } from 'lucide-react';
+import type { Author } from '../lib/supabase';
+import { findDuplicateAuthors } from '../lib/authors';
+
+interface AuthorMergeModalProps {
+    isOpen: boolean;
+    authors: Author[];
+    onMerge: (targetId: string, sourceIds: string[]) => Promise<boolean>;
+    onUpdateSortName: (authorId: string, sortName: string) => void;
+    onClose: () => void;
+}
+
+export default function AuthorMergeModal({
+    isOpen,
+    authors,
+    onMerge,
+    onUpdateSortName,
+    onClose
+}: AuthorMergeModalProps) {
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [targetId, setTargetId] = useState<string | null>(null);
+    const [sortNames, setSortNames] = useState<Record<string, string>>({});
+    const [merging, setMerging] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setSelectedIds([]);
+            setTargetId(null);
+        }
+    }, [isOpen]);
+
+    useEffect(() => {
+        setSortNames(Object.fromEntries(authors.map(author => [author.id, author.sort_name])));
+    }, [authors]);
+
+    if (!isOpen) return null;
+
+    const duplicates = findDuplicateAuthors(authors);
+    const selected = authors.filter(author => selectedIds.includes(author.id));
+    // Keep the spelling with the most books unless another one is picked
+    const target = selected.find(author => author.id === targetId)
+        || [...selected].sort((a, b) => (b.book_count || 0) - (a.book_count || 0))[0];
+
+    const toggleAuthor = (id: string) => {
+        setSelectedIds(selectedIds.includes(id) ? selectedIds.filter(other => other !== id) : [...selectedIds, id]);
+    };
+
+    const handleSaveSortName = (author: Author) => {
+        const sortName = (sortNames[author.id] || '').trim();
+        if (sortName && sortName !== author.sort_name) {
+            onUpdateSortName(author.id, sortName);
+        } else {
+            setSortNames({ ...sortNames, [author.id]: author.sort_name });
+        }
+    };
+
+    const handleMerge = async () => {
+        if (!target || selected.length < 2) return;
+
+        const others = selected.filter(author => author.id !== target.id);
+        if (!confirm(`Merge ${others.map(author => `"${author.name}"`).join(', ')} into "${target.name}"? Their books will be credited to "${target.name}".`)) {
+            return;
+        }
+
+        setMerging(true);
+        if (await onMerge(target.id, others.map(author => author.id))) {
+            setSelectedIds([]);
+            setTargetId(null);
+        }
+        setMerging(false);
+    };
+
+    return (
+        <div
+            className="fixed inset-0 flex items-center justify-center z-[9999] cursor-pointer"
+            style={{ backgroundColor: 'rgba(0, 0, 0, 0.4)' }}
+            onClick={onClose}
+        >
+            <div
+                className="bg-gray-800 border border-gray-700 rounded-lg p-6 max-w-2xl w-full mx-4 max-h-[85vh] flex flex-col cursor-default space-y-4"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div>
+                    <h3 className="text-xl font-semibold text-white flex items-center gap-2">
+                        <Users size={20} className="text-purple-400" />
+                        Authors
+                    </h3>
+                    <p className="text-sm text-gray-400 mt-1">
+                        Tick two or more spellings of the same author to merge them. Sort names decide where an author files in the author sort.
+                    </p>
+                </div>
+
+                {duplicates.length > 0 && (
+                    <div className="space-y-2">
+                        <div className="text-xs font-medium text-gray-400 uppercase tracking-wider">Possible duplicates</div>
+                        <div className="flex flex-wrap gap-2">
+                            {duplicates.map((group) => (
+                                <button
+                                    key={group.map(author => author.id).join()}
+                                    onClick={() => setSelectedIds(group.map(author => author.id))}
+                                    className="px-3 py-1.5 rounded-full text-xs font-medium bg-yellow-500/10 text-yellow-300 border border-yellow-500/30 hover:bg-yellow-500/20 transition-colors cursor-pointer"
+                                    title="Select these authors"
+                                >
+                                    {group.map(author => author.name).join(' / ')}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                <div className="flex-1 overflow-y-auto divide-y divide-gray-700 border border-gray-700 rounded-lg">
+                    {authors.length === 0 ? (
+                        <p className="p-4 text-sm text-gray-400">No authors yet.</p>
+                    ) : authors.map((author) => (
+                        <div key={author.id} className="flex items-center gap-3 px-3 py-2">
+                            <input
+                                type="checkbox"
+                                checked={selectedIds.includes(author.id)}
+                                onChange={() => toggleAuthor(author.id)}
+                                className="cursor-pointer"
+                            />
+                            <div className="flex-1 min-w-0">
+                                <div className="text-sm font-medium text-white truncate">{author.name}</div>
+                                <div className="text-xs text-gray-400 truncate">
+                                    {author.book_count || 0} {author.book_count === 1 ? 'book' : 'books'}
+                                    {author.aliases.length > 0 && ` • also ${author.aliases.join(', ')}`}
+                                </div>
+                            </div>
+                            <input
+                                type="text"
+                                value={sortNames[author.id] ?? author.sort_name}
+                                onChange={(e) => setSortNames({ ...sortNames, [author.id]: e.target.value })}
+                                onBlur={() => handleSaveSortName(author)}
+                                onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                                className="w-48 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                                title="Sort name"
+                            />
+                        </div>
+                    ))}
+                </div>
+
+                <div className="flex items-center justify-end gap-3">
+                    {selected.length >= 2 && target && (
+                        <label className="flex items-center gap-2 text-sm text-gray-300 mr-auto">
+                            Keep
+                            <select
+                                value={target.id}
+                                onChange={(e) => setTargetId(e.target.value)}
+                                className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm cursor-pointer"
+                            >
+                                {selected.map(author => (
+                                    <option key={author.id} value={author.id}>{author.name}</option>
+                                ))}
+                            </select>
+                        </label>
+                    )}
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-sm font-medium text-gray-300 hover:text-white transition-colors cursor-pointer"
+                    >
+                        Close
+                    </button>
+                    <button
+                        onClick={handleMerge}
+                        disabled={selected.length < 2 || merging}
+                        className="px-4 py-2 text-sm font-medium bg-purple-600 text-white rounded-lg hover:bg-purple-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors cursor-pointer"
+                    >
+                        {merging ? 'Merging...' : `Merge${selected.length >= 2 ? ` ${selected.length}` : ''}`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
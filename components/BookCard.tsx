@@ -1,5 +1,13 @@
 import { useState } from 'react';
-import { Edit3, Trash2, Star, Calendar, User, Tag } from 'lucide-react';
+import Link from 'next/link';
+import { Edit3, Trash2, Calendar, User, Tag, Clock, FolderPlus, Check, Layers, RotateCcw, Quote } from 'lucide-react';
+import StarRating from './StarRating';
+import SearchSnippet from './SearchSnippet';
+import AuthorLinks from './AuthorLinks';
+import type { ProgressUnit } from '../lib/supabase';
+import { formatProgressPosition } from '../lib/progress';
+import { formatSeries } from '../lib/series';
+import { CITATION_STYLES, formatCitation, type CitationStyle } from '../lib/citations';
 
 type BookCardProps = {
   id: string;
@@ -10,11 +18,30 @@ type BookCardProps = {
   coverUrl?: string;
   onDelete?: (id: string) => void;
   onEdit?: (id: string) => void;
+  onLogSession?: (id: string) => void;
+  // Shelf props
+  shelves?: { id: string; name: string }[];
+  shelfIds?: string[];
+  onToggleShelf?: (bookId: string, shelfId: string) => void;
   // Progress tracking props
   progress_percentage?: number;
+  page_count?: number | null;
+  current_page?: number | null;
+  progress_unit?: ProgressUnit;
   date_started?: string | null;
   date_finished?: string | null;
   reading_notes?: string | null;
+  // Rating and review props
+  rating?: number | null;
+  review?: string | null;
+  tags?: string[];
+  read_count?: number;
+  search_snippet?: string | null;
+  series_name?: string | null;
+  series_position?: number | null;
+  // Citation props
+  publisher?: string | null;
+  published_date?: string | null;
 };
 
 export default function BookCard({
@@ -26,16 +53,48 @@ export default function BookCard({
   coverUrl,
   onDelete,
   onEdit,
+  onLogSession,
+  // Shelf props
+  shelves = [],
+  shelfIds = [],
+  onToggleShelf,
   // Progress props
   progress_percentage = 0,
+  page_count,
+  current_page,
+  progress_unit = 'pages',
   date_started,
   date_finished,
-  reading_notes
+  reading_notes,
+  // Rating props
+  rating,
+  review,
+  tags = [],
+  read_count = 0,
+  search_snippet,
+  series_name,
+  series_position,
+  publisher,
+  published_date
 }: BookCardProps) {
   // Image loading states
   const [imageLoading, setImageLoading] = useState(true);
   const [imageError, setImageError] = useState(false);
   const [isHovered, setIsHovered] = useState(false);
+  const [showShelfMenu, setShowShelfMenu] = useState(false);
+  const [showCitationMenu, setShowCitationMenu] = useState(false);
+  const [copiedStyle, setCopiedStyle] = useState<CitationStyle | null>(null);
+
+  const handleCopyCitation = async (style: CitationStyle) => {
+    try {
+      await navigator.clipboard.writeText(formatCitation({ id, title, author, publisher, published_date }, style));
+      setCopiedStyle(style);
+      setTimeout(() => setCopiedStyle(null), 2000);
+    } catch (error) {
+      console.error('Error copying citation:', error);
+      alert('Could not copy the citation to the clipboard');
+    }
+  };
 
   // Get category color and icon
   const getCategoryStyle = (cat: string) => {
@@ -72,6 +131,15 @@ export default function BookCard({
     return text.slice(0, maxLength) + '...';
   };
 
+  // Strip markdown syntax so reviews read cleanly in the preview
+  const stripMarkdown = (text: string) => {
+    return text
+      .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/[#>*_`~]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  };
+
   // Format dates for display
   const formatDate = (dateString: string | null) => {
     if (!dateString) return null;
@@ -88,11 +156,51 @@ export default function BookCard({
     <div
       className="group relative bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl overflow-hidden transition-all duration-300 hover:bg-white/10 hover:border-purple-500/30 hover:-translate-y-2 hover:shadow-2xl hover:shadow-purple-500/10 cursor-pointer"
       onMouseEnter={() => setIsHovered(true)}
-      onMouseLeave={() => setIsHovered(false)}
+      onMouseLeave={() => {
+        setIsHovered(false);
+        setShowShelfMenu(false);
+        setShowCitationMenu(false);
+      }}
     >
       {/* Action Buttons - Back in the corner like before */}
       <div className={`absolute top-3 right-3 flex gap-2 z-10 transition-all duration-200 ${isHovered ? 'opacity-100 scale-100' : 'opacity-0 scale-95'
         }`}>
+        {onToggleShelf && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setShowShelfMenu(!showShelfMenu);
+              setShowCitationMenu(false);
+            }}
+            className="w-8 h-8 bg-white/90 hover:bg-white rounded-full shadow-lg flex items-center justify-center transition-all duration-200 hover:scale-110 cursor-pointer"
+            title="Add to shelf"
+          >
+            <FolderPlus size={14} className="text-purple-500" />
+          </button>
+        )}
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            setShowCitationMenu(!showCitationMenu);
+            setShowShelfMenu(false);
+          }}
+          className="w-8 h-8 bg-white/90 hover:bg-white rounded-full shadow-lg flex items-center justify-center transition-all duration-200 hover:scale-110 cursor-pointer"
+          title="Copy citation"
+        >
+          <Quote size={14} className="text-amber-600" />
+        </button>
+        {onLogSession && reading_status !== 'finished' && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onLogSession(id);
+            }}
+            className="w-8 h-8 bg-white/90 hover:bg-white rounded-full shadow-lg flex items-center justify-center transition-all duration-200 hover:scale-110 cursor-pointer"
+            title="Log session"
+          >
+            <Clock size={14} className="text-blue-500" />
+          </button>
+        )}
         {onEdit && (
           <button
             onClick={(e) => {
@@ -120,8 +228,50 @@ export default function BookCard({
         )}
       </div>
 
-      {/* Book Cover Section */}
-      <div className="relative">
+      {/* Shelf Menu */}
+      {onToggleShelf && showShelfMenu && (
+        <div
+          className="absolute top-14 right-3 z-20 w-48 bg-gray-800 border border-gray-600 rounded-xl shadow-2xl py-1"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {shelves.length === 0 ? (
+            <div className="px-3 py-2 text-xs text-gray-400">Create a shelf first to add books to it.</div>
+          ) : (
+            shelves.map((shelf) => (
+              <button
+                key={shelf.id}
+                onClick={() => onToggleShelf(id, shelf.id)}
+                className="w-full flex items-center justify-between gap-2 px-3 py-2 text-left text-sm text-white hover:bg-gray-700 transition-colors cursor-pointer"
+              >
+                <span className="truncate">{shelf.name}</span>
+                {shelfIds.includes(shelf.id) && <Check size={14} className="text-green-400 flex-shrink-0" />}
+              </button>
+            ))
+          )}
+        </div>
+      )}
+
+      {/* Citation Menu */}
+      {showCitationMenu && (
+        <div
+          className="absolute top-14 right-3 z-20 w-48 bg-gray-800 border border-gray-600 rounded-xl shadow-2xl py-1"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {(Object.keys(CITATION_STYLES) as CitationStyle[]).map((style) => (
+            <button
+              key={style}
+              onClick={() => handleCopyCitation(style)}
+              className="w-full flex items-center justify-between gap-2 px-3 py-2 text-left text-sm text-white hover:bg-gray-700 transition-colors cursor-pointer"
+            >
+              <span>Copy {CITATION_STYLES[style]}</span>
+              {copiedStyle === style && <Check size={14} className="text-green-400 flex-shrink-0" />}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Book Cover Section - links to the book's own page */}
+      <Link href={`/books/${id}`} className="relative block">
         {coverUrl && !imageError ? (
           <>
             {/* Loading skeleton */}
@@ -149,19 +299,29 @@ export default function BookCard({
             </span>
           </div>
         )}
-      </div>
+      </Link>
 
       {/* Book Details Section */}
       <div className="p-4 space-y-3">
         {/* Title and Author */}
         <div>
           <h3 className="font-bold text-lg text-white leading-tight mb-1" title={title}>
-            {truncateText(title, 40)}
+            <Link href={`/books/${id}`} className="hover:text-purple-300 transition-colors">
+              {truncateText(title, 40)}
+            </Link>
           </h3>
-          <div className="flex items-center text-gray-300 text-sm">
-            <User size={14} className="mr-1" />
-            <span title={author}>{truncateText(author, 25)}</span>
+          <div className="flex items-center text-gray-300 text-sm min-w-0">
+            <User size={14} className="mr-1 flex-shrink-0" />
+            <AuthorLinks author={author} className="truncate" />
           </div>
+          {series_name && (
+            <div className="flex items-center text-gray-400 text-xs mt-1">
+              <Layers size={12} className="mr-1" />
+              <span title={formatSeries(series_name, series_position) || undefined}>
+                {truncateText(formatSeries(series_name, series_position) || '', 30)}
+              </span>
+            </div>
+          )}
         </div>
 
         {/* Category and Reading Status Row */}
@@ -184,11 +344,32 @@ export default function BookCard({
           </span>
         </div>
 
+        {/* Full-text search match */}
+        {search_snippet && (
+          <SearchSnippet snippet={search_snippet} className="line-clamp-3" />
+        )}
+
+        {/* Tags */}
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {tags.slice(0, 3).map((tag) => (
+              <span key={tag} className="px-2 py-0.5 bg-blue-500/10 text-blue-300 rounded-full text-xs">
+                #{tag}
+              </span>
+            ))}
+            {tags.length > 3 && (
+              <span className="px-2 py-0.5 text-gray-400 text-xs" title={tags.slice(3).join(', ')}>
+                +{tags.length - 3}
+              </span>
+            )}
+          </div>
+        )}
+
         {/* Progress Information for Currently Reading Books */}
         {reading_status === 'reading' && progress_percentage && progress_percentage > 0 && (
           <div className="space-y-2">
             <div className="flex justify-between text-xs text-gray-400">
-              <span>Progress</span>
+              <span>{page_count ? formatProgressPosition(current_page, page_count, progress_unit) : 'Progress'}</span>
               <span className="font-medium text-purple-400">{progress_percentage}%</span>
             </div>
             <div className="w-full bg-gray-700 rounded-full h-2">
@@ -203,6 +384,14 @@ export default function BookCard({
           </div>
         )}
 
+        {/* Re-reads */}
+        {read_count > 1 && (
+          <div className="flex items-center gap-1 text-xs text-purple-300">
+            <RotateCcw size={12} />
+            <span>Read {read_count} times</span>
+          </div>
+        )}
+
         {/* Date Information for Finished Books */}
         {reading_status === 'finished' && (date_started || date_finished) && (
           <div className="text-xs text-gray-400 space-y-1">
@@ -220,6 +409,23 @@ export default function BookCard({
           </div>
         )}
 
+        {/* Rating and Review Preview */}
+        {(rating || (review && review.trim())) && (
+          <div className="space-y-1">
+            {rating && (
+              <div className="flex items-center gap-2">
+                <StarRating rating={rating} size={14} />
+                <span className="text-xs text-gray-400">{rating}/5</span>
+              </div>
+            )}
+            {review && review.trim() && (
+              <div className="text-xs text-gray-300 italic line-clamp-2" title={stripMarkdown(review)}>
+                “{truncateText(stripMarkdown(review), 80)}”
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Reading Notes Preview */}
         {reading_notes && reading_notes.trim() && (
           <div className="p-2 bg-white/5 rounded-lg border border-white/10">
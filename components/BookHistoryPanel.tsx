@@ -0,0 +1,95 @@
+// components/BookHistoryPanel.tsx
+"use client";
+
+import { useState, useEffect } from "react";
+import { History, RotateCcw } from 'lucide-react';
+import type { Book, BookChange } from '../lib/supabase';
+import { fetchBookChanges } from '../lib/database';
+import { FIELD_LABELS, formatChangeValue, getRevertUpdates } from '../lib/history';
+
+interface BookHistoryPanelProps {
+    book: Book;
+    onRevert: (bookId: string, updates: Record<string, unknown>) => Promise<boolean>;
+}
+
+export default function BookHistoryPanel({ book, onRevert }: BookHistoryPanelProps) {
+    const [history, setHistory] = useState<BookChange[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [revertingId, setRevertingId] = useState<string | null>(null);
+
+    // Reload whenever the book changes, including after a revert
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+
+        fetchBookChanges(book.id).then(({ data, error }) => {
+            if (cancelled) return;
+            if (error) {
+                console.error('Error loading book history:', error);
+            }
+            setHistory(data || []);
+            setLoading(false);
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [book]);
+
+    const handleRevert = async (change: BookChange) => {
+        const when = new Date(change.created_at).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+        if (!confirm(`Revert "${book.title}" to how it was before the edit on ${when}?`)) return;
+
+        setRevertingId(change.id);
+        await onRevert(book.id, getRevertUpdates(history, change.id));
+        setRevertingId(null);
+    };
+
+    if (loading) {
+        return <div className="text-sm text-gray-400 pb-4">Loading history...</div>;
+    }
+
+    if (history.length === 0) {
+        return (
+            <p className="text-sm text-gray-400 pb-4">
+                No changes yet. Edits to this book will show up here so you can undo them.
+            </p>
+        );
+    }
+
+    return (
+        <ol className="relative border-l border-gray-600 ml-2 space-y-5 pb-4">
+            {history.map((change, index) => (
+                <li key={change.id} className="ml-4">
+                    <div className="absolute -left-1.5 mt-1.5 w-3 h-3 bg-purple-500 rounded-full border-2 border-gray-800"></div>
+                    <div className="flex items-center justify-between gap-3">
+                        <div className="flex items-center gap-2 text-xs text-gray-400">
+                            <History size={12} />
+                            {new Date(change.created_at).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}
+                        </div>
+                        <button
+                            type="button"
+                            onClick={() => handleRevert(change)}
+                            disabled={revertingId !== null}
+                            className="flex items-center gap-1 text-xs text-purple-300 hover:text-purple-200 disabled:opacity-50 transition-colors cursor-pointer"
+                            title={index === 0 ? 'Undo this edit' : 'Undo this edit and everything after it'}
+                        >
+                            <RotateCcw size={12} />
+                            {revertingId === change.id ? 'Reverting...' : 'Revert to before this'}
+                        </button>
+                    </div>
+                    <ul className="mt-2 space-y-1">
+                        {Object.entries(change.changes).map(([field, values]) => (
+                            <li key={field} className="text-sm">
+                                <span className="text-gray-300 font-medium">{FIELD_LABELS[field] || field}: </span>
+                                <span className="text-red-300/80 line-through">{formatChangeValue(values.old)}</span>
+                                <span className="text-gray-500"> → </span>
+                                <span className="text-green-300">{formatChangeValue(values.new)}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </li>
+            ))}
+        </ol>
+    );
+}
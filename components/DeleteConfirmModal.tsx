@@ -1,4 +1,6 @@
 // components/DeleteConfirmModal.tsx
+import { TRASH_RETENTION_DAYS } from '../lib/database';
+
 interface DeleteConfirmModalProps {
     isOpen: boolean;
     bookTitle: string;
@@ -25,15 +27,16 @@ export default function DeleteConfirmModal({
                 onClick={(e) => e.stopPropagation()}
             >
                 <h3 className="text-xl font-semibold text-white mb-4">
-                    Delete Book
+                    Move to Trash
                 </h3>
 
                 <p className="text-gray-300 mb-6">
-                    Are you sure you want to delete{' '}
-                    <span className="font-medium text-white">"{bookTitle}"</span>?
+                    Move{' '}
+                    <span className="font-medium text-white">"{bookTitle}"</span>{' '}
+                    to the trash?
                     <br />
                     <span className="text-sm text-gray-400 mt-2 block">
-                        This action cannot be undone.
+                        You can restore it from the trash for {TRASH_RETENTION_DAYS} days before it&apos;s deleted for good.
                     </span>
                 </p>
 
@@ -48,7 +51,7 @@ export default function DeleteConfirmModal({
                         onClick={onConfirm}
                         className="px-6 py-3 bg-red-600 text-white rounded-lg font-semibold hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500/50 transition-all duration-200 flex items-center justify-center gap-2 hover:scale-105 border border-red-500/50 shadow-lg cursor-pointer"
                     >
-                        Delete
+                        Move to Trash
                     </button>
                 </div>
             </div>
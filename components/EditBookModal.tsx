@@ -1,43 +1,87 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
-import { X, Search, User, Tag, Calendar, BookOpen } from 'lucide-react';
+import { X, Search, User, Tag, Calendar, Hash, Layers, BookOpen, RotateCcw } from 'lucide-react';
 import BookCoverUpload from './BookCoverUpload';
+import TagPicker from './TagPicker';
+import HighlightsPanel, { HighlightDetails } from './HighlightsPanel';
+import BookHistoryPanel from './BookHistoryPanel';
+import type { EditModalTab } from '../lib/store';
+import StarRating from './StarRating';
+import type { Book, BookFormat, Highlight, ProgressUnit, ReadingCycle, ReadingSession } from '../lib/supabase';
+import { fetchReadingSessions } from '../lib/database';
+import { normalizeIsbn } from '../lib/isbn';
+import { calculateProgressPercentage, formatSessionRange, getProgressUnitLabels } from '../lib/progress';
 
 interface EditBookModalProps {
     isOpen: boolean;
     book: Book | null;
     onSave: (id: string, updates: Partial<Book>) => void;
     onClose: () => void;
+    tagSuggestions?: string[];
+    initialTab?: EditModalTab;
+    // Highlights are saved as soon as they're added, separately from the book details
+    highlights?: Highlight[];
+    highlightTagSuggestions?: string[];
+    onAddHighlight: (bookId: string, details: HighlightDetails) => Promise<boolean>;
+    onUpdateHighlight: (id: string, details: HighlightDetails) => Promise<boolean>;
+    onDeleteHighlight: (id: string) => Promise<boolean>;
+    onRevert: (bookId: string, updates: Record<string, unknown>) => Promise<boolean>;
 }
 
-interface Book {
-    id: string;
-    title: string;
-    author: string;
-    category: string;
-    cover_url?: string | null;
-    reading_status: 'to-read' | 'reading' | 'finished';
-    created_at: string;
-    progress_percentage?: number;
-    date_started?: string | null;
-    date_finished?: string | null;
-    reading_notes?: string | null;
-}
+export default function EditBookModal({
+    isOpen,
+    book,
+    onSave,
+    onClose,
+    tagSuggestions = [],
+    initialTab = 'details',
+    highlights = [],
+    highlightTagSuggestions = [],
+    onAddHighlight,
+    onUpdateHighlight,
+    onDeleteHighlight,
+    onRevert
+}: EditBookModalProps) {
+    const [activeTab, setActiveTab] = useState<EditModalTab>(initialTab);
 
-export default function EditBookModal({ isOpen, book, onSave, onClose }: EditBookModalProps) {
     // Form state
     const [title, setTitle] = useState("");
     const [author, setAuthor] = useState("");
     const [category, setCategory] = useState("");
     const [readingStatus, setReadingStatus] = useState<'to-read' | 'reading' | 'finished'>('to-read');
     const [coverUrl, setCoverUrl] = useState("");
+    const [tags, setTags] = useState<string[]>([]);
+    const [seriesName, setSeriesName] = useState("");
+    const [seriesPosition, setSeriesPosition] = useState<number | ''>('');
+
+    // Edition details
+    const [isbn10, setIsbn10] = useState("");
+    const [isbn13, setIsbn13] = useState("");
+    const [publisher, setPublisher] = useState("");
+    const [publishedDate, setPublishedDate] = useState("");
+    const [language, setLanguage] = useState("");
+    const [format, setFormat] = useState<BookFormat | ''>('');
 
     // Progress tracking
     const [dateStarted, setDateStarted] = useState("");
-    const [progressPercentage, setProgressPercentage] = useState(0);
+    const [progressUnit, setProgressUnit] = useState<ProgressUnit>('pages');
+    const [pageCount, setPageCount] = useState<number | ''>('');
+    const [currentPage, setCurrentPage] = useState<number | ''>('');
     const [readingNotes, setReadingNotes] = useState("");
 
+    // Rating and review
+    const [rating, setRating] = useState<number | null>(null);
+    const [review, setReview] = useState("");
+
+    // Reading session history
+    const [sessions, setSessions] = useState<ReadingSession[]>([]);
+    const [loadingSessions, setLoadingSessions] = useState(false);
+
+    // Percentage is derived from the current position and the book's length
+    const progressPercentage = calculateProgressPercentage(currentPage || 0, pageCount || 0);
+    const unitLabels = getProgressUnitLabels(progressUnit);
+
     // Refs for modal functionality
     const modalRef = useRef<HTMLDivElement>(null);
 
@@ -76,12 +120,80 @@ export default function EditBookModal({ isOpen, book, onSave, onClose }: EditBoo
             setCategory(book.category);
             setReadingStatus(book.reading_status);
             setCoverUrl(book.cover_url || "");
-            setProgressPercentage(book.progress_percentage || 0);
+            setTags(book.tags || []);
+            setSeriesName(book.series_name || "");
+            setSeriesPosition(book.series_position ?? '');
+            setIsbn10(book.isbn_10 || "");
+            setIsbn13(book.isbn_13 || "");
+            setPublisher(book.publisher || "");
+            setPublishedDate(book.published_date || "");
+            setLanguage(book.language || "");
+            setFormat(book.format || '');
+            setProgressUnit(book.progress_unit || 'pages');
+            setPageCount(book.page_count || '');
+            setCurrentPage(book.current_page || '');
             setDateStarted(book.date_started || "");
             setReadingNotes(book.reading_notes || "");
+            setRating(book.rating ?? null);
+            setReview(book.review || "");
         }
     }, [book]);
 
+    // Open on the requested tab each time the modal opens
+    useEffect(() => {
+        if (isOpen) setActiveTab(initialTab);
+    }, [isOpen, initialTab]);
+
+    // Load the session timeline whenever the modal opens for a book
+    useEffect(() => {
+        if (!isOpen || !book) {
+            setSessions([]);
+            return;
+        }
+
+        let cancelled = false;
+        setLoadingSessions(true);
+
+        fetchReadingSessions(book.id).then(({ data }) => {
+            if (!cancelled) {
+                setSessions(data || []);
+                setLoadingSessions(false);
+            }
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [isOpen, book]);
+
+    // Format a session's start time and duration for the timeline
+    const formatSessionTime = (session: ReadingSession) => {
+        const start = new Date(session.started_at);
+        const label = start.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+        if (!session.ended_at) return label;
+
+        const minutes = Math.round((new Date(session.ended_at).getTime() - start.getTime()) / 60000);
+        return minutes > 0 ? `${label} • ${minutes} min` : label;
+    };
+
+    // A read is stored by its dates, e.g. "Mar 2, 2025 – Apr 10, 2025"
+    const formatCycleDates = (cycle: ReadingCycle) => {
+        const formatDate = (date: string) =>
+            new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+        return cycle.date_started
+            ? `${formatDate(cycle.date_started)} – ${formatDate(cycle.date_finished)}`
+            : formatDate(cycle.date_finished);
+    };
+
+    // Start another read of a finished book - the earlier read is kept as its own cycle
+    const handleStartReread = () => {
+        setReadingStatus('reading');
+        setDateStarted(new Date().toISOString().split('T')[0]);
+        setCurrentPage('');
+        setReadingNotes('');
+    };
+
     // Handle image upload
     const handleImageUpload = (url: string) => {
         setCoverUrl(url);
@@ -91,6 +203,16 @@ export default function EditBookModal({ isOpen, book, onSave, onClose }: EditBoo
         setCoverUrl('');
     };
 
+    // Ebooks track location and audiobooks track minutes, unless a length is already set
+    const handleFormatSelect = (selected: BookFormat) => {
+        const next = format === selected ? '' : selected;
+        setFormat(next);
+
+        if (next && !pageCount) {
+            setProgressUnit(next === 'audiobook' ? 'minutes' : next === 'ebook' ? 'location' : 'pages');
+        }
+    };
+
     // Handle form submission
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -99,6 +221,21 @@ export default function EditBookModal({ isOpen, book, onSave, onClose }: EditBoo
             return;
         }
 
+        // Only keep ISBNs of the field's length that pass the check digit, so they can be used to de-duplicate.
+        // Unchanged ones are kept as stored, so an old bad value doesn't block other edits.
+        const isbn10Changed = isbn10 !== (book.isbn_10 || "");
+        const isbn13Changed = isbn13 !== (book.isbn_13 || "");
+        const cleanIsbn10 = isbn10Changed ? normalizeIsbn(isbn10, 10) : book.isbn_10 || null;
+        const cleanIsbn13 = isbn13Changed ? normalizeIsbn(isbn13, 13) : book.isbn_13 || null;
+        if (isbn10Changed && isbn10.trim() && !cleanIsbn10) {
+            alert('Please check the ISBN-10 - it should be 10 characters with a valid check digit');
+            return;
+        }
+        if (isbn13Changed && isbn13.trim() && !cleanIsbn13) {
+            alert('Please check the ISBN-13 - it should be 13 digits with a valid check digit');
+            return;
+        }
+
         const updates: Partial<Book> = {
             title,
             author,
@@ -106,9 +243,26 @@ export default function EditBookModal({ isOpen, book, onSave, onClose }: EditBoo
             cover_url: coverUrl || null,
             reading_status: readingStatus,
             progress_percentage: readingStatus === 'reading' ? progressPercentage : readingStatus === 'finished' ? 100 : 0,
+            page_count: pageCount || null,
+            current_page: readingStatus === 'reading' ? currentPage || null : readingStatus === 'finished' ? pageCount || null : null,
+            progress_unit: progressUnit,
             date_started: readingStatus !== 'to-read' && dateStarted ? dateStarted : null,
-            date_finished: readingStatus === 'finished' && dateStarted ? new Date().toISOString().split('T')[0] : null,
+            // Keep the original finish date when a finished book is edited
+            date_finished: readingStatus === 'finished'
+                ? (book.reading_status === 'finished' && book.date_finished) || new Date().toISOString().split('T')[0]
+                : null,
             reading_notes: readingNotes || null,
+            rating,
+            review: review || null,
+            tags,
+            series_name: seriesName.trim() || null,
+            series_position: seriesName.trim() && seriesPosition !== '' ? seriesPosition : null,
+            isbn_10: cleanIsbn10,
+            isbn_13: cleanIsbn13,
+            publisher: publisher.trim() || null,
+            published_date: publishedDate.trim() || null,
+            language: language.trim() || null,
+            format: format || null,
         };
 
         try {
@@ -147,8 +301,41 @@ export default function EditBookModal({ isOpen, book, onSave, onClose }: EditBoo
                     </div>
                 </div>
 
+                {/* Tabs */}
+                <div className="flex gap-2 px-8 pb-4 flex-shrink-0">
+                    {[
+                        { value: 'details', label: 'Details' },
+                        { value: 'highlights', label: `Highlights${highlights.length > 0 ? ` (${highlights.length})` : ''}` },
+                        { value: 'history', label: 'History' }
+                    ].map((tab) => (
+                        <button
+                            key={tab.value}
+                            type="button"
+                            onClick={() => setActiveTab(tab.value as EditModalTab)}
+                            className={`px-4 py-2 rounded-xl text-sm font-medium transition-all duration-200 cursor-pointer ${activeTab === tab.value
+                                ? 'bg-gray-600 text-white'
+                                : 'text-gray-400 hover:bg-gray-700 hover:text-white'
+                                }`}
+                        >
+                            {tab.label}
+                        </button>
+                    ))}
+                </div>
+
                 {/* Scrollable Content */}
                 <div className="flex-1 overflow-y-auto px-8">
+                    {activeTab === 'highlights' ? (
+                        <HighlightsPanel
+                            highlights={highlights}
+                            progressUnit={progressUnit}
+                            tagSuggestions={highlightTagSuggestions}
+                            onAdd={(details) => onAddHighlight(book.id, details)}
+                            onUpdate={onUpdateHighlight}
+                            onDelete={onDeleteHighlight}
+                        />
+                    ) : activeTab === 'history' ? (
+                        <BookHistoryPanel book={book} onRevert={onRevert} />
+                    ) : (
                     <div className="space-y-6 pb-4">
                         {/* Title */}
                         <div className="space-y-2">
@@ -202,6 +389,46 @@ export default function EditBookModal({ isOpen, book, onSave, onClose }: EditBoo
                             </div>
                         </div>
 
+                        {/* Tags */}
+                        <div className="space-y-2">
+                            <label className="block text-sm font-medium text-gray-200">
+                                Tags
+                            </label>
+                            <TagPicker
+                                tags={tags}
+                                onChange={setTags}
+                                suggestions={tagSuggestions}
+                            />
+                        </div>
+
+                        {/* Series */}
+                        <div className="space-y-2">
+                            <label className="block text-sm font-medium text-gray-200">
+                                Series
+                            </label>
+                            <div className="grid grid-cols-4 gap-4">
+                                <div className="relative col-span-3">
+                                    <Layers className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                                    <input
+                                        type="text"
+                                        placeholder="e.g. The Expanse"
+                                        value={seriesName}
+                                        onChange={(e) => setSeriesName(e.target.value)}
+                                        className="w-full pl-12 pr-4 py-3 bg-gray-700 border border-gray-600 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all cursor-text"
+                                    />
+                                </div>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    step="0.5"
+                                    placeholder="#"
+                                    value={seriesPosition}
+                                    onChange={(e) => setSeriesPosition(e.target.value ? Number(e.target.value) : '')}
+                                    className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all cursor-text"
+                                />
+                            </div>
+                        </div>
+
                         {/* Book Cover Upload Section */}
                         <div className="space-y-3">
                             <label className="block text-sm font-medium text-gray-200">
@@ -214,6 +441,92 @@ export default function EditBookModal({ isOpen, book, onSave, onClose }: EditBoo
                             />
                         </div>
 
+                        {/* Edition Details */}
+                        <div className="space-y-3">
+                            <label className="block text-sm font-medium text-gray-200">
+                                Edition Details
+                            </label>
+                            <div className="grid grid-cols-4 gap-2">
+                                {[
+                                    { value: 'hardcover', label: 'Hardcover' },
+                                    { value: 'paperback', label: 'Paperback' },
+                                    { value: 'ebook', label: 'Ebook' },
+                                    { value: 'audiobook', label: 'Audiobook' }
+                                ].map((option) => (
+                                    <button
+                                        key={option.value}
+                                        type="button"
+                                        onClick={() => handleFormatSelect(option.value as BookFormat)}
+                                        className={`px-2 py-2 rounded-xl border text-sm font-medium transition-all duration-200 cursor-pointer ${format === option.value
+                                            ? 'bg-gray-600 border-gray-500 text-white'
+                                            : 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600 hover:text-white'
+                                            }`}
+                                    >
+                                        {option.label}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                {[
+                                    { label: 'ISBN-13', value: isbn13, onChange: setIsbn13, placeholder: 'e.g. 9780316129084' },
+                                    { label: 'ISBN-10', value: isbn10, onChange: setIsbn10, placeholder: 'e.g. 0316129089' },
+                                    { label: 'Publisher', value: publisher, onChange: setPublisher, placeholder: 'e.g. Orbit' },
+                                    { label: 'Published', value: publishedDate, onChange: setPublishedDate, placeholder: 'e.g. 2011-06-15' },
+                                    { label: 'Language', value: language, onChange: setLanguage, placeholder: 'e.g. en' }
+                                ].map((field) => (
+                                    <div key={field.label} className="space-y-1">
+                                        <label className="block text-xs text-gray-400">{field.label}</label>
+                                        <input
+                                            type="text"
+                                            placeholder={field.placeholder}
+                                            value={field.value}
+                                            onChange={(e) => field.onChange(e.target.value)}
+                                            className="w-full px-4 py-2.5 bg-gray-700 border border-gray-600 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all cursor-text text-sm"
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Length - pages for print, location for ebooks, minutes for audiobooks */}
+                        <div className="space-y-2">
+                            <label className="block text-sm font-medium text-gray-200">
+                                Length
+                            </label>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div className="grid grid-cols-3 gap-2">
+                                    {[
+                                        { value: 'pages', label: 'Pages' },
+                                        { value: 'location', label: 'Location' },
+                                        { value: 'minutes', label: 'Minutes' }
+                                    ].map((unit) => (
+                                        <button
+                                            key={unit.value}
+                                            type="button"
+                                            onClick={() => setProgressUnit(unit.value as ProgressUnit)}
+                                            className={`px-2 py-3 rounded-xl border text-sm font-medium transition-all duration-200 cursor-pointer ${progressUnit === unit.value
+                                                ? 'bg-gray-600 border-gray-500 text-white'
+                                                : 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600 hover:text-white'
+                                                }`}
+                                        >
+                                            {unit.label}
+                                        </button>
+                                    ))}
+                                </div>
+                                <div className="relative">
+                                    <Hash className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        placeholder={unitLabels.total}
+                                        value={pageCount}
+                                        onChange={(e) => setPageCount(e.target.value ? Number(e.target.value) : '')}
+                                        className="w-full pl-12 pr-4 py-3 bg-gray-700 border border-gray-600 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all cursor-text"
+                                    />
+                                </div>
+                            </div>
+                        </div>
+
                         {/* Reading Status */}
                         <div className="space-y-2">
                             <label className="block text-sm font-medium text-gray-200">
@@ -260,24 +573,33 @@ export default function EditBookModal({ isOpen, book, onSave, onClose }: EditBoo
                                     </div>
                                 </div>
 
-                                {/* Progress Bar - Only for reading status */}
+                                {/* Current Position - Only for reading status */}
                                 {readingStatus === 'reading' && (
                                     <div className="space-y-2">
                                         <label className="block text-sm font-medium text-gray-200">
-                                            Progress: {progressPercentage}%
+                                            {unitLabels.current}{pageCount ? `: ${progressPercentage}%` : ''}
                                         </label>
                                         <input
-                                            type="range"
+                                            type="number"
                                             min="0"
-                                            max="100"
-                                            step="5"
-                                            value={progressPercentage}
-                                            onChange={(e) => setProgressPercentage(Number(e.target.value))}
-                                            className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
-                                            style={{
-                                                background: `linear-gradient(to right, #3b82f6 0%, #3b82f6 ${progressPercentage}%, #4b5563 ${progressPercentage}%, #4b5563 100%)`
-                                            }}
+                                            max={pageCount || undefined}
+                                            placeholder={pageCount ? `of ${pageCount}` : 'e.g. 142'}
+                                            value={currentPage}
+                                            onChange={(e) => setCurrentPage(e.target.value ? Number(e.target.value) : '')}
+                                            className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all cursor-text"
                                         />
+                                        {pageCount ? (
+                                            <div className="w-full bg-gray-600 rounded-lg h-2">
+                                                <div
+                                                    className="bg-blue-500 h-2 rounded-lg transition-all duration-300"
+                                                    style={{ width: `${progressPercentage}%` }}
+                                                />
+                                            </div>
+                                        ) : (
+                                            <p className="text-xs text-gray-400">
+                                                Add the book&apos;s length above to track your percentage.
+                                            </p>
+                                        )}
                                     </div>
                                 )}
 
@@ -296,7 +618,96 @@ export default function EditBookModal({ isOpen, book, onSave, onClose }: EditBoo
                                 </div>
                             </div>
                         )}
+
+                        {/* Rating and Review - Only for finished books */}
+                        {readingStatus === 'finished' && (
+                            <div className="space-y-4">
+                                <div className="space-y-2">
+                                    <div className="flex items-center justify-between">
+                                        <label className="block text-sm font-medium text-gray-200">
+                                            Your Rating{rating ? `: ${rating}/5` : ''}
+                                        </label>
+                                        {book.reading_status === 'finished' && (
+                                            <button
+                                                type="button"
+                                                onClick={handleStartReread}
+                                                className="flex items-center gap-1 text-xs text-purple-300 hover:text-purple-200 transition-colors cursor-pointer"
+                                            >
+                                                <RotateCcw size={12} />
+                                                Read it again
+                                            </button>
+                                        )}
+                                    </div>
+                                    <StarRating rating={rating} onChange={setRating} size={28} />
+                                </div>
+
+                                <div className="space-y-2">
+                                    <label className="block text-sm font-medium text-gray-200">
+                                        Review
+                                        <span className="ml-2 text-xs text-gray-400 font-normal">Markdown supported</span>
+                                    </label>
+                                    <textarea
+                                        placeholder="What did you think? **Bold**, _italics_ and lists all work..."
+                                        rows={6}
+                                        value={review}
+                                        onChange={(e) => setReview(e.target.value)}
+                                        className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all resize-y cursor-text font-mono text-sm"
+                                    />
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Previous Reads */}
+                        {book.reading_cycles && book.reading_cycles.length > 0 && (
+                            <div className="space-y-2">
+                                <label className="block text-sm font-medium text-gray-200">
+                                    Read {book.reading_cycles.length} {book.reading_cycles.length === 1 ? 'time' : 'times'}
+                                </label>
+                                <ol className="space-y-2">
+                                    {book.reading_cycles.map((cycle, index) => (
+                                        <li key={cycle.id} className="px-4 py-3 bg-gray-700/50 border border-gray-600 rounded-xl">
+                                            <div className="flex items-center justify-between gap-3">
+                                                <div className="text-sm text-white font-medium">Read #{index + 1}</div>
+                                                {cycle.rating && <StarRating rating={cycle.rating} size={14} />}
+                                            </div>
+                                            <div className="text-xs text-gray-400">{formatCycleDates(cycle)}</div>
+                                            {cycle.notes && (
+                                                <div className="text-xs text-gray-300 mt-1">{cycle.notes}</div>
+                                            )}
+                                        </li>
+                                    ))}
+                                </ol>
+                            </div>
+                        )}
+
+                        {/* Reading Session Timeline */}
+                        {(loadingSessions || sessions.length > 0) && (
+                            <div className="space-y-2">
+                                <label className="block text-sm font-medium text-gray-200">
+                                    Reading Sessions
+                                </label>
+                                {loadingSessions ? (
+                                    <div className="text-sm text-gray-400">Loading sessions...</div>
+                                ) : (
+                                    <ol className="relative border-l border-gray-600 ml-2 space-y-4">
+                                        {[...sessions].reverse().map((session) => (
+                                            <li key={session.id} className="ml-4">
+                                                <div className="absolute -left-1.5 mt-1.5 w-3 h-3 bg-blue-500 rounded-full border-2 border-gray-800"></div>
+                                                <div className="text-xs text-gray-400">{formatSessionTime(session)}</div>
+                                                <div className="text-sm text-white font-medium">
+                                                    {formatSessionRange(session.from_page, session.to_page, progressUnit)}
+                                                </div>
+                                                {session.note && (
+                                                    <div className="text-xs text-gray-300 mt-1">{session.note}</div>
+                                                )}
+                                            </li>
+                                        ))}
+                                    </ol>
+                                )}
+                            </div>
+                        )}
                     </div>
+                    )}
                 </div>
 
                 {/* Sticky Footer */}
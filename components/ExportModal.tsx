@@ -0,0 +1,132 @@
+// components/ExportModal.tsx
+"use client";
+
+import { useState, useEffect } from "react";
+import { Download } from 'lucide-react';
+import type { Shelf } from '../lib/supabase';
+import { EXPORT_FORMATS, type ExportFormat, type ExportScope } from '../lib/export';
+
+interface ExportModalProps {
+    isOpen: boolean;
+    filtersActive: boolean;
+    selectedCount: number;         // books ticked in the table view
+    shelves: Shelf[];
+    onExport: (format: ExportFormat, scope: ExportScope) => Promise<void>;
+    onClose: () => void;
+}
+
+const FORMAT_GROUPS: { label: string; citation: boolean }[] = [
+    { label: 'Library', citation: false },
+    { label: 'Citations', citation: true },
+];
+
+export default function ExportModal({
+    isOpen,
+    filtersActive,
+    selectedCount,
+    shelves,
+    onExport,
+    onClose
+}: ExportModalProps) {
+    const [format, setFormat] = useState<ExportFormat>('json');
+    // "all", "filtered", "selected" or a shelf id
+    const [scope, setScope] = useState('all');
+    const [exporting, setExporting] = useState(false);
+
+    // Ticked books are usually what's wanted when there are any
+    useEffect(() => {
+        if (isOpen) {
+            setScope(selectedCount > 0 ? 'selected' : 'all');
+        }
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const handleExport = async () => {
+        setExporting(true);
+        await onExport(format, scope === 'all' || scope === 'filtered' || scope === 'selected' ? scope : { shelfId: scope });
+        setExporting(false);
+    };
+
+    return (
+        <div
+            className="fixed inset-0 flex items-center justify-center z-[9999] cursor-pointer"
+            style={{ backgroundColor: 'rgba(0, 0, 0, 0.4)' }}
+            onClick={exporting ? undefined : onClose}
+        >
+            <div
+                className="bg-gray-800 border border-gray-700 rounded-lg p-6 max-w-md w-full mx-4 max-h-[85vh] overflow-y-auto cursor-default space-y-4"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <h3 className="text-xl font-semibold text-white flex items-center gap-2">
+                    <Download size={20} className="text-blue-400" />
+                    Export Library
+                </h3>
+
+                {FORMAT_GROUPS.map(group => (
+                    <div key={group.label} className="space-y-2">
+                        <div className="text-xs font-medium text-gray-400 uppercase tracking-wider">{group.label}</div>
+                        {(Object.keys(EXPORT_FORMATS) as ExportFormat[])
+                            .filter(key => EXPORT_FORMATS[key].citation === group.citation)
+                            .map(key => (
+                                <label
+                                    key={key}
+                                    className={`flex items-start gap-3 p-3 rounded-lg border transition-colors cursor-pointer ${format === key
+                                        ? 'border-blue-500 bg-blue-500/10'
+                                        : 'border-gray-700 hover:border-gray-600'
+                                        }`}
+                                >
+                                    <input
+                                        type="radio"
+                                        name="export-format"
+                                        checked={format === key}
+                                        onChange={() => setFormat(key)}
+                                        className="mt-1 cursor-pointer"
+                                    />
+                                    <div>
+                                        <div className="text-sm font-medium text-white">{EXPORT_FORMATS[key].label}</div>
+                                        <div className="text-xs text-gray-400">{EXPORT_FORMATS[key].description}</div>
+                                    </div>
+                                </label>
+                            ))}
+                    </div>
+                ))}
+
+                <div className="space-y-2">
+                    <label className="block text-sm font-medium text-gray-200">Books</label>
+                    <select
+                        value={scope}
+                        onChange={(e) => setScope(e.target.value)}
+                        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 cursor-pointer"
+                    >
+                        <option value="all">Whole library</option>
+                        {filtersActive && <option value="filtered">Books matching the current filters</option>}
+                        {selectedCount > 0 && (
+                            <option value="selected">{selectedCount} selected {selectedCount === 1 ? 'book' : 'books'}</option>
+                        )}
+                        {shelves.map(shelf => (
+                            <option key={shelf.id} value={shelf.id}>Shelf: {shelf.name}</option>
+                        ))}
+                    </select>
+                </div>
+
+                <div className="flex justify-end gap-3">
+                    <button
+                        onClick={onClose}
+                        disabled={exporting}
+                        className="px-4 py-2 text-sm font-medium text-gray-300 hover:text-white disabled:opacity-50 transition-colors cursor-pointer"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleExport}
+                        disabled={exporting}
+                        className="px-4 py-2 text-sm font-medium bg-blue-600 text-white rounded-lg hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors cursor-pointer"
+                    >
+                        {exporting ? 'Exporting...' : 'Export'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
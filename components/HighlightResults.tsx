@@ -0,0 +1,61 @@
+// components/HighlightResults.tsx
+import type { Book, Highlight } from '../lib/supabase';
+import { formatPosition } from '../lib/progress';
+import { HIGHLIGHT_ICONS } from './HighlightsPanel';
+
+interface HighlightResultsProps {
+    highlights: Highlight[];
+    books: Book[];
+    onOpen: (bookId: string) => void;
+}
+
+const MAX_RESULTS = 6;
+
+// Highlights that match the search bar, shown above the matching books
+export default function HighlightResults({ highlights, books, onOpen }: HighlightResultsProps) {
+    if (highlights.length === 0) return null;
+
+    return (
+        <div className="mb-8">
+            <div className="flex items-center gap-6 mb-4">
+                <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider">
+                    Highlights ({highlights.length})
+                </h3>
+                <div className="flex-1 h-px bg-gradient-to-r from-white/10 to-transparent"></div>
+            </div>
+
+            <div className="grid gap-3 grid-cols-1 md:grid-cols-2">
+                {highlights.slice(0, MAX_RESULTS).map((highlight) => {
+                    const book = books.find(b => b.id === highlight.book_id);
+                    if (!book) return null;
+                    const Icon = HIGHLIGHT_ICONS[highlight.kind];
+
+                    return (
+                        <button
+                            key={highlight.id}
+                            onClick={() => onOpen(book.id)}
+                            className="text-left bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-4 hover:bg-white/10 transition-all duration-200 cursor-pointer"
+                        >
+                            <div className="flex items-start gap-3">
+                                <Icon size={16} className="text-purple-400 flex-shrink-0 mt-1" />
+                                <div className="min-w-0 space-y-1">
+                                    <p className="text-sm text-white line-clamp-3">{highlight.text || highlight.note}</p>
+                                    <p className="text-xs text-gray-400 truncate">
+                                        {book.title}
+                                        {highlight.location != null && ` • ${formatPosition(highlight.location, book.progress_unit)}`}
+                                    </p>
+                                </div>
+                            </div>
+                        </button>
+                    );
+                })}
+            </div>
+
+            {highlights.length > MAX_RESULTS && (
+                <p className="text-xs text-gray-400 mt-3">
+                    Showing {MAX_RESULTS} of {highlights.length} highlights - refine your search to see more.
+                </p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,204 @@
+// components/HighlightsPanel.tsx
+"use client";
+
+import { useState } from "react";
+import { Quote, StickyNote, Bookmark, Edit3, Trash2 } from 'lucide-react';
+import TagPicker from './TagPicker';
+import type { Highlight, HighlightKind, ProgressUnit } from '../lib/supabase';
+import type { CreateHighlightData } from '../lib/database';
+import { formatPosition, getProgressUnitLabels } from '../lib/progress';
+
+export type HighlightDetails = Omit<CreateHighlightData, 'book_id' | 'kind' | 'created_at'>;
+
+export const HIGHLIGHT_ICONS: Record<HighlightKind, typeof Quote> = {
+    highlight: Quote,
+    note: StickyNote,
+    bookmark: Bookmark,
+};
+
+interface HighlightsPanelProps {
+    highlights: Highlight[];
+    progressUnit?: ProgressUnit;
+    tagSuggestions?: string[];
+    // Each returns whether the change was saved, so the form is only cleared on success
+    onAdd: (details: HighlightDetails) => Promise<boolean>;
+    onUpdate: (id: string, details: HighlightDetails) => Promise<boolean>;
+    onDelete: (id: string) => Promise<boolean>;
+}
+
+export default function HighlightsPanel({
+    highlights,
+    progressUnit = 'pages',
+    tagSuggestions = [],
+    onAdd,
+    onUpdate,
+    onDelete
+}: HighlightsPanelProps) {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [text, setText] = useState("");
+    const [location, setLocation] = useState<number | ''>('');
+    const [note, setNote] = useState("");
+    const [tags, setTags] = useState<string[]>([]);
+    const [saving, setSaving] = useState(false);
+
+    const unitLabel = getProgressUnitLabels(progressUnit).current;
+
+    // Keep highlights in the order they appear in the book, unplaced ones last
+    const sorted = [...highlights].sort((a, b) => {
+        if (a.location == null && b.location == null) return a.created_at.localeCompare(b.created_at);
+        if (a.location == null) return 1;
+        if (b.location == null) return -1;
+        return a.location - b.location;
+    });
+
+    const resetForm = () => {
+        setEditingId(null);
+        setText("");
+        setLocation('');
+        setNote("");
+        setTags([]);
+    };
+
+    const startEditing = (highlight: Highlight) => {
+        setEditingId(highlight.id);
+        setText(highlight.text);
+        setLocation(highlight.location ?? '');
+        setNote(highlight.note || "");
+        setTags(highlight.tags || []);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!text.trim()) return;
+
+        const details: HighlightDetails = {
+            text: text.trim(),
+            location: location === '' ? null : location,
+            note: note.trim() || null,
+            tags,
+        };
+
+        setSaving(true);
+        const saved = editingId ? await onUpdate(editingId, details) : await onAdd(details);
+        setSaving(false);
+
+        if (saved) resetForm();
+    };
+
+    const handleDelete = async (highlight: Highlight) => {
+        if (!confirm('Delete this highlight?')) return;
+
+        const deleted = await onDelete(highlight.id);
+        if (deleted && editingId === highlight.id) resetForm();
+    };
+
+    return (
+        <div className="space-y-6 pb-4">
+            {/* Add / Edit Form */}
+            <form onSubmit={handleSubmit} className="space-y-3">
+                <label className="block text-sm font-medium text-gray-200">
+                    {editingId ? 'Edit Highlight' : 'New Highlight'}
+                </label>
+                <textarea
+                    placeholder="Paste or type the quote..."
+                    rows={3}
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all resize-y cursor-text"
+                />
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <input
+                        type="number"
+                        min="0"
+                        placeholder={unitLabel}
+                        value={location}
+                        onChange={(e) => setLocation(e.target.value ? Number(e.target.value) : '')}
+                        className="w-full px-4 py-2.5 bg-gray-700 border border-gray-600 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all cursor-text text-sm"
+                    />
+                    <input
+                        type="text"
+                        placeholder="Note (optional)"
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        className="md:col-span-2 w-full px-4 py-2.5 bg-gray-700 border border-gray-600 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all cursor-text text-sm"
+                    />
+                </div>
+                <TagPicker tags={tags} onChange={setTags} suggestions={tagSuggestions} />
+                <div className="flex justify-end gap-2">
+                    {editingId && (
+                        <button
+                            type="button"
+                            onClick={resetForm}
+                            className="px-4 py-2 text-sm text-gray-300 hover:text-white transition-colors cursor-pointer"
+                        >
+                            Cancel
+                        </button>
+                    )}
+                    <button
+                        type="submit"
+                        disabled={saving || !text.trim()}
+                        className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm rounded-lg font-medium transition-colors cursor-pointer"
+                    >
+                        {saving ? 'Saving...' : editingId ? 'Save Highlight' : 'Add Highlight'}
+                    </button>
+                </div>
+            </form>
+
+            {/* Saved Highlights */}
+            {sorted.length === 0 ? (
+                <p className="text-sm text-gray-400">No highlights yet. Save quotes here instead of burying them in your notes.</p>
+            ) : (
+                <ul className="space-y-3">
+                    {sorted.map((highlight) => {
+                        const Icon = HIGHLIGHT_ICONS[highlight.kind];
+
+                        return (
+                            <li
+                                key={highlight.id}
+                                className={`px-4 py-3 bg-gray-700/50 border rounded-xl ${editingId === highlight.id ? 'border-blue-500' : 'border-gray-600'}`}
+                            >
+                                <div className="flex items-start gap-3">
+                                    <Icon size={16} className="text-purple-400 flex-shrink-0 mt-1" />
+                                    <div className="flex-1 min-w-0 space-y-1">
+                                        {highlight.text
+                                            ? <p className="text-sm text-white whitespace-pre-line">{highlight.text}</p>
+                                            : <p className="text-sm text-gray-400 italic">Bookmark</p>}
+                                        {highlight.note && (
+                                            <p className="text-xs text-gray-300">{highlight.note}</p>
+                                        )}
+                                        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                                            {highlight.location != null && <span>{formatPosition(highlight.location, progressUnit)}</span>}
+                                            {highlight.tags.map((tag) => (
+                                                <span key={tag} className="px-2 py-0.5 bg-blue-500/10 text-blue-300 rounded-full">
+                                                    #{tag}
+                                                </span>
+                                            ))}
+                                        </div>
+                                    </div>
+                                    <div className="flex gap-1 flex-shrink-0">
+                                        <button
+                                            type="button"
+                                            onClick={() => startEditing(highlight)}
+                                            className="p-1.5 text-gray-400 hover:text-white transition-colors cursor-pointer"
+                                            title="Edit highlight"
+                                        >
+                                            <Edit3 size={14} />
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => handleDelete(highlight)}
+                                            className="p-1.5 text-gray-400 hover:text-red-400 transition-colors cursor-pointer"
+                                            title="Delete highlight"
+                                        >
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </div>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,229 @@
+// components/ImportModal.tsx
+"use client";
+
+import { useState, useEffect } from "react";
+import { Upload } from 'lucide-react';
+import type { Book } from '../lib/supabase';
+import { previewImport, type ImportedBook, type ImportPreviewRow, type ImportResult } from '../lib/import';
+import { IMPORT_FORMATS, detectImportFormat } from '../lib/importFormats';
+
+interface ImportModalProps {
+    isOpen: boolean;
+    books: Book[];                 // the whole library, to spot duplicates
+    onImport: (rows: ImportedBook[], onProgress: (done: number, total: number) => void) => Promise<ImportResult[] | null>;
+    onClose: () => void;
+}
+
+const STATUS_LABELS: Record<Book['reading_status'], string> = {
+    'to-read': 'To Read',
+    'reading': 'Reading',
+    'finished': 'Finished'
+};
+
+export default function ImportModal({
+    isOpen,
+    books,
+    onImport,
+    onClose
+}: ImportModalProps) {
+    const [fileName, setFileName] = useState("");
+    const [formatLabel, setFormatLabel] = useState("");
+    const [rows, setRows] = useState<ImportPreviewRow[]>([]);
+    const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
+    const [importing, setImporting] = useState(false);
+    const [progress, setProgress] = useState({ done: 0, total: 0 });
+    const [results, setResults] = useState<ImportResult[] | null>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            setFileName("");
+            setFormatLabel("");
+            setRows([]);
+            setSelectedRows(new Set());
+            setResults(null);
+        }
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        try {
+            const text = await file.text();
+            const format = detectImportFormat(text);
+            if (!format) {
+                throw new Error(`it isn't a format that can be imported (${IMPORT_FORMATS.map(format => format.label).join(', ')})`);
+            }
+
+            const preview = previewImport(format.parse(text), books);
+            setFileName(file.name);
+            setFormatLabel(format.label);
+            setRows(preview);
+            setResults(null);
+            // Duplicates are left out unless ticked
+            setSelectedRows(new Set(preview
+                .filter(row => !row.error && !row.duplicate && !row.duplicateRow)
+                .map(row => row.row)));
+        } catch (error: any) {
+            console.error('Error reading import file:', error);
+            alert(`Couldn't read ${file.name}: ${error.message}`);
+        }
+        e.target.value = '';
+    };
+
+    const toggleRow = (row: number) => {
+        const next = new Set(selectedRows);
+        if (next.has(row)) {
+            next.delete(row);
+        } else {
+            next.add(row);
+        }
+        setSelectedRows(next);
+    };
+
+    const handleImport = async () => {
+        const selected = rows.filter(row => selectedRows.has(row.row));
+        if (selected.length === 0) return;
+
+        setImporting(true);
+        setProgress({ done: 0, total: selected.length });
+        const imported = await onImport(selected, (done, total) => setProgress({ done, total }));
+        setImporting(false);
+
+        if (imported) setResults(imported);
+    };
+
+    const failed = (results || []).filter(result => result.error);
+
+    return (
+        <div
+            className="fixed inset-0 flex items-center justify-center z-[9999] cursor-pointer"
+            style={{ backgroundColor: 'rgba(0, 0, 0, 0.4)' }}
+            onClick={importing ? undefined : onClose}
+        >
+            <div
+                className="bg-gray-800 border border-gray-700 rounded-lg p-6 max-w-4xl w-full mx-4 max-h-[85vh] flex flex-col cursor-default space-y-4"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div>
+                    <h3 className="text-xl font-semibold text-white flex items-center gap-2">
+                        <Upload size={20} className="text-blue-400" />
+                        Import Books
+                    </h3>
+                    <p className="text-sm text-gray-400 mt-1">
+                        Choose a library export from Goodreads, StoryGraph or LibraryThing - the format is recognised
+                        automatically. Shelves and tags from the other app become tags.
+                    </p>
+                </div>
+
+                {results ? (
+                    <div className="flex-1 overflow-y-auto space-y-3">
+                        <p className="text-white">
+                            Imported {results.length - failed.length} of {results.length} {results.length === 1 ? 'book' : 'books'}.
+                        </p>
+                        {failed.length > 0 && (
+                            <ul className="divide-y divide-gray-700 border border-red-500/30 rounded-lg">
+                                {failed.map(result => (
+                                    <li key={result.row} className="px-3 py-2 text-sm">
+                                        <span className="text-gray-400">Row {result.row}</span>{' '}
+                                        <span className="text-white">{result.title || 'Untitled'}</span>
+                                        <div className="text-red-300 text-xs">{result.error}</div>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                ) : (
+                    <>
+                        <label className="flex items-center gap-3 px-4 py-3 border border-dashed border-gray-600 rounded-lg text-sm text-gray-300 hover:border-blue-500 transition-colors cursor-pointer">
+                            <input
+                                type="file"
+                                accept={Array.from(new Set(IMPORT_FORMATS.flatMap(format => format.accept.split(',')))).join(',')}
+                                onChange={handleFile}
+                                className="hidden"
+                            />
+                            <Upload size={16} />
+                            {fileName ? `${fileName} • ${formatLabel}` : 'Choose an export file...'}
+                        </label>
+
+                        {rows.length > 0 && (
+                            <div className="flex-1 overflow-y-auto border border-gray-700 rounded-lg">
+                                <table className="w-full text-sm">
+                                    <thead className="bg-gray-900/50 text-gray-400 text-xs uppercase tracking-wider sticky top-0">
+                                        <tr>
+                                            <th className="px-3 py-2 text-left">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={rows.every(row => row.error || selectedRows.has(row.row))}
+                                                    onChange={(e) => setSelectedRows(new Set(e.target.checked
+                                                        ? rows.filter(row => !row.error).map(row => row.row)
+                                                        : []))}
+                                                    className="cursor-pointer"
+                                                />
+                                            </th>
+                                            <th className="px-3 py-2 text-left">Row</th>
+                                            <th className="px-3 py-2 text-left">Book</th>
+                                            <th className="px-3 py-2 text-left">Status</th>
+                                            <th className="px-3 py-2 text-left">Rating</th>
+                                            <th className="px-3 py-2 text-left">Tags</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-700">
+                                        {rows.map(row => (
+                                            <tr key={row.row} className={row.error ? 'opacity-50' : ''}>
+                                                <td className="px-3 py-2">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={selectedRows.has(row.row)}
+                                                        disabled={!!row.error}
+                                                        onChange={() => toggleRow(row.row)}
+                                                        className="cursor-pointer"
+                                                    />
+                                                </td>
+                                                <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                                                <td className="px-3 py-2">
+                                                    <div className="text-white">{row.book.title || 'Untitled'}</div>
+                                                    <div className="text-xs text-gray-400">{row.book.author}</div>
+                                                    {row.error && <div className="text-xs text-red-300">{row.error}</div>}
+                                                    {row.duplicate && <div className="text-xs text-yellow-300">Already in your library</div>}
+                                                    {!row.duplicate && row.duplicateRow && <div className="text-xs text-yellow-300">Same book as row {row.duplicateRow}</div>}
+                                                </td>
+                                                <td className="px-3 py-2 text-gray-300">{STATUS_LABELS[row.book.reading_status]}</td>
+                                                <td className="px-3 py-2 text-gray-300">{row.book.rating ? '★'.repeat(row.book.rating) : '—'}</td>
+                                                <td className="px-3 py-2 text-gray-400 text-xs">{row.tags.join(', ')}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </>
+                )}
+
+                <div className="flex items-center justify-end gap-3">
+                    {importing && (
+                        <span className="text-sm text-gray-400 mr-auto">Importing {progress.done} of {progress.total}...</span>
+                    )}
+                    <button
+                        onClick={onClose}
+                        disabled={importing}
+                        className="px-4 py-2 text-sm font-medium text-gray-300 hover:text-white disabled:opacity-50 transition-colors cursor-pointer"
+                    >
+                        {results ? 'Done' : 'Cancel'}
+                    </button>
+                    {!results && (
+                        <button
+                            onClick={handleImport}
+                            disabled={selectedRows.size === 0 || importing}
+                            className="px-4 py-2 text-sm font-medium bg-blue-600 text-white rounded-lg hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors cursor-pointer"
+                        >
+                            {importing ? 'Importing...' : `Import ${selectedRows.size} ${selectedRows.size === 1 ? 'book' : 'books'}`}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,235 @@
+// components/KindleImportModal.tsx
+"use client";
+
+import { useState, useEffect } from "react";
+import { Bookmark } from 'lucide-react';
+import type { Book, Highlight } from '../lib/supabase';
+import { fetchBookHighlights } from '../lib/database';
+import {
+    findKindleMatch,
+    findNewKindleHighlights,
+    groupKindleClippings,
+    parseKindleClippings,
+    type KindleBook,
+    type KindleImport
+} from '../lib/kindle';
+
+// How many books were created and clippings saved
+export interface KindleImportResult {
+    books: number;
+    highlights: number;
+}
+
+interface KindleImportModalProps {
+    isOpen: boolean;
+    books: Book[];                 // the whole library, to match clippings against
+    onImport: (imports: KindleImport[], onProgress: (done: number, total: number) => void) => Promise<KindleImportResult | null>;
+    onClose: () => void;
+}
+
+// A library book id, or one of these
+const NEW_BOOK = 'new';
+const SKIP = 'skip';
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+export default function KindleImportModal({
+    isOpen,
+    books,
+    onImport,
+    onClose
+}: KindleImportModalProps) {
+    const [fileName, setFileName] = useState("");
+    const [kindleBooks, setKindleBooks] = useState<KindleBook[]>([]);
+    const [choices, setChoices] = useState<string[]>([]);
+    const [importing, setImporting] = useState(false);
+    const [progress, setProgress] = useState({ done: 0, total: 0 });
+    const [result, setResult] = useState<KindleImportResult | null>(null);
+    // What's already saved on the chosen books, so clippings from an earlier import are skipped
+    const [savedHighlights, setSavedHighlights] = useState<Highlight[]>([]);
+    const [checkedIds, setCheckedIds] = useState<string[]>([]);
+
+    useEffect(() => {
+        if (isOpen) {
+            setFileName("");
+            setKindleBooks([]);
+            setChoices([]);
+            setResult(null);
+            setSavedHighlights([]);
+            setCheckedIds([]);
+        }
+    }, [isOpen]);
+
+    const chosenIds = Array.from(new Set(choices.filter(choice => choice !== NEW_BOOK && choice !== SKIP)));
+    const uncheckedIds = chosenIds.filter(id => !checkedIds.includes(id));
+
+    useEffect(() => {
+        if (uncheckedIds.length === 0) return;
+
+        fetchBookHighlights(uncheckedIds).then(({ data, error }) => {
+            if (error || !data) {
+                console.error('Error loading saved highlights:', error);
+                alert(`Failed to check for clippings you've already saved: ${error?.message || error}`);
+                return;
+            }
+
+            setSavedHighlights(saved => [...saved.filter(highlight => !uncheckedIds.includes(highlight.book_id)), ...data]);
+            setCheckedIds(checked => [...checked, ...uncheckedIds]);
+        });
+    }, [uncheckedIds.join(',')]);
+
+    if (!isOpen) return null;
+
+    const sortedBooks = [...books].sort((a, b) => a.title.localeCompare(b.title));
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        try {
+            const grouped = groupKindleClippings(parseKindleClippings(await file.text()));
+            setFileName(file.name);
+            setKindleBooks(grouped);
+            setChoices(grouped.map(kindleBook => findKindleMatch(kindleBook, books)?.id || NEW_BOOK));
+            setResult(null);
+        } catch (error: any) {
+            console.error('Error reading clippings file:', error);
+            alert(`Couldn't read ${file.name}: ${error.message}`);
+        }
+        e.target.value = '';
+    };
+
+    // What would be saved for each Kindle book with the current choices
+    const imports: (KindleImport | null)[] = kindleBooks.map((kindleBook, index) => {
+        if (choices[index] === SKIP) return null;
+
+        const book = books.find(book => book.id === choices[index]) || null;
+        return { kindleBook, book, highlights: findNewKindleHighlights(kindleBook, book, savedHighlights) };
+    });
+    const selected = imports.filter((item): item is KindleImport => item !== null && item.highlights.length > 0);
+    const clippingCount = selected.reduce((count, item) => count + item.highlights.length, 0);
+
+    const handleImport = async () => {
+        if (clippingCount === 0) return;
+
+        setImporting(true);
+        setProgress({ done: 0, total: clippingCount });
+        const imported = await onImport(selected, (done, total) => setProgress({ done, total }));
+        setImporting(false);
+
+        if (imported) setResult(imported);
+    };
+
+    return (
+        <div
+            className="fixed inset-0 flex items-center justify-center z-[9999] cursor-pointer"
+            style={{ backgroundColor: 'rgba(0, 0, 0, 0.4)' }}
+            onClick={importing ? undefined : onClose}
+        >
+            <div
+                className="bg-gray-800 border border-gray-700 rounded-lg p-6 max-w-4xl w-full mx-4 max-h-[85vh] flex flex-col cursor-default space-y-4"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div>
+                    <h3 className="text-xl font-semibold text-white flex items-center gap-2">
+                        <Bookmark size={20} className="text-blue-400" />
+                        Import Kindle Highlights
+                    </h3>
+                    <p className="text-sm text-gray-400 mt-1">
+                        Plug in your Kindle and choose <span className="text-gray-200">documents/My Clippings.txt</span>.
+                        Highlights, notes and bookmarks are added to the matching books, and ones already imported are skipped.
+                    </p>
+                </div>
+
+                {result ? (
+                    <p className="flex-1 text-white">
+                        Saved {plural(result.highlights, 'clipping')}
+                        {result.books > 0 && ` and added ${plural(result.books, 'new book')}`}.
+                    </p>
+                ) : (
+                    <>
+                        <label className="flex items-center gap-3 px-4 py-3 border border-dashed border-gray-600 rounded-lg text-sm text-gray-300 hover:border-blue-500 transition-colors cursor-pointer">
+                            <input
+                                type="file"
+                                accept=".txt"
+                                onChange={handleFile}
+                                className="hidden"
+                            />
+                            <Bookmark size={16} />
+                            {fileName ? `${fileName} • ${plural(kindleBooks.length, 'book')}` : 'Choose My Clippings.txt...'}
+                        </label>
+
+                        {kindleBooks.length > 0 && (
+                            <div className="flex-1 overflow-y-auto border border-gray-700 rounded-lg">
+                                <table className="w-full text-sm">
+                                    <thead className="bg-gray-900/50 text-gray-400 text-xs uppercase tracking-wider sticky top-0">
+                                        <tr>
+                                            <th className="px-3 py-2 text-left">On the Kindle</th>
+                                            <th className="px-3 py-2 text-left">Add to</th>
+                                            <th className="px-3 py-2 text-left">Clippings</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-700">
+                                        {kindleBooks.map((kindleBook, index) => {
+                                            const item = imports[index];
+                                            const saved = kindleBook.highlights.length - (item ? item.highlights.length : 0);
+
+                                            return (
+                                                <tr key={`${kindleBook.title}|${kindleBook.author}`} className={item ? '' : 'opacity-50'}>
+                                                    <td className="px-3 py-2">
+                                                        <div className="text-white">{kindleBook.title}</div>
+                                                        <div className="text-xs text-gray-400">{kindleBook.author || 'Unknown Author'}</div>
+                                                    </td>
+                                                    <td className="px-3 py-2">
+                                                        <select
+                                                            value={choices[index]}
+                                                            onChange={(e) => setChoices(choices.map((choice, other) => other === index ? e.target.value : choice))}
+                                                            disabled={importing}
+                                                            className="w-full px-2 py-1.5 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 cursor-pointer"
+                                                        >
+                                                            <option value={NEW_BOOK}>New book</option>
+                                                            <option value={SKIP}>Don't import</option>
+                                                            {sortedBooks.map(book => (
+                                                                <option key={book.id} value={book.id}>{book.title} - {book.author}</option>
+                                                            ))}
+                                                        </select>
+                                                    </td>
+                                                    <td className="px-3 py-2 text-gray-300 whitespace-nowrap">
+                                                        {item ? `${item.highlights.length} new` : plural(kindleBook.highlights.length, 'clipping')}
+                                                        {item && saved > 0 && <div className="text-xs text-gray-500">{saved} already saved</div>}
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </>
+                )}
+
+                <div className="flex items-center justify-end gap-3">
+                    {importing && (
+                        <span className="text-sm text-gray-400 mr-auto">Saving {progress.done} of {progress.total}...</span>
+                    )}
+                    <button
+                        onClick={onClose}
+                        disabled={importing}
+                        className="px-4 py-2 text-sm font-medium text-gray-300 hover:text-white disabled:opacity-50 transition-colors cursor-pointer"
+                    >
+                        {result ? 'Done' : 'Cancel'}
+                    </button>
+                    {!result && (
+                        <button
+                            onClick={handleImport}
+                            disabled={clippingCount === 0 || importing || uncheckedIds.length > 0}
+                            className="px-4 py-2 text-sm font-medium bg-blue-600 text-white rounded-lg hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors cursor-pointer"
+                        >
+                            {importing ? 'Importing...' : uncheckedIds.length > 0 ? 'Checking...' : `Import ${plural(clippingCount, 'clipping')}`}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,161 @@
+// components/LogSessionModal.tsx
+"use client";
+
+import { useState, useEffect } from "react";
+import { Clock } from 'lucide-react';
+import type { Book } from '../lib/supabase';
+import type { ReadingSessionDetails } from '../lib/database';
+import { getProgressUnitLabels } from '../lib/progress';
+
+interface LogSessionModalProps {
+    isOpen: boolean;
+    book: Book | null;
+    onSave: (bookId: string, toPage: number, details: ReadingSessionDetails) => void;
+    onCancel: () => void;
+}
+
+// Format a date for a datetime-local input (local time, no seconds)
+const toDateTimeLocal = (date: Date) => {
+    const offset = date.getTimezoneOffset() * 60000;
+    return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+export default function LogSessionModal({
+    isOpen,
+    book,
+    onSave,
+    onCancel
+}: LogSessionModalProps) {
+    const [startedAt, setStartedAt] = useState("");
+    const [endedAt, setEndedAt] = useState("");
+    const [toPage, setToPage] = useState<number | ''>('');
+    const [note, setNote] = useState("");
+
+    // Default to a 30 minute session ending now
+    useEffect(() => {
+        if (isOpen && book) {
+            const now = new Date();
+            setStartedAt(toDateTimeLocal(new Date(now.getTime() - 30 * 60000)));
+            setEndedAt(toDateTimeLocal(now));
+            setToPage(book.current_page || '');
+            setNote("");
+        }
+    }, [isOpen, book]);
+
+    if (!isOpen || !book) return null;
+
+    const unitLabels = getProgressUnitLabels(book.progress_unit);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (toPage === '' || !startedAt) {
+            alert('Please fill in all required fields');
+            return;
+        }
+
+        if (endedAt && new Date(endedAt) < new Date(startedAt)) {
+            alert('The session cannot end before it started');
+            return;
+        }
+
+        onSave(book.id, toPage, {
+            started_at: new Date(startedAt).toISOString(),
+            ended_at: endedAt ? new Date(endedAt).toISOString() : null,
+            note: note || null,
+        });
+    };
+
+    return (
+        <div
+            className="fixed inset-0 flex items-center justify-center z-[9999] cursor-pointer"
+            style={{ backgroundColor: 'rgba(0, 0, 0, 0.4)' }}
+            onClick={onCancel}
+        >
+            <form
+                onSubmit={handleSubmit}
+                className="bg-gray-800 border border-gray-700 rounded-lg p-6 max-w-md w-full mx-4 cursor-default space-y-4"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div>
+                    <h3 className="text-xl font-semibold text-white flex items-center gap-2">
+                        <Clock size={20} className="text-blue-400" />
+                        Log Reading Session
+                    </h3>
+                    <p className="text-sm text-gray-400 mt-1">
+                        <span className="font-medium text-white">"{book.title}"</span>
+                        {book.current_page ? ` • currently at ${book.current_page}` : ''}
+                        {book.page_count ? ` of ${book.page_count}` : ''}
+                    </p>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                        <label className="block text-sm font-medium text-gray-200">
+                            Started *
+                        </label>
+                        <input
+                            type="datetime-local"
+                            value={startedAt}
+                            onChange={(e) => setStartedAt(e.target.value)}
+                            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all cursor-pointer"
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <label className="block text-sm font-medium text-gray-200">
+                            Ended
+                        </label>
+                        <input
+                            type="datetime-local"
+                            value={endedAt}
+                            onChange={(e) => setEndedAt(e.target.value)}
+                            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all cursor-pointer"
+                        />
+                    </div>
+                </div>
+
+                <div className="space-y-2">
+                    <label className="block text-sm font-medium text-gray-200">
+                        {unitLabels.current} Reached *
+                    </label>
+                    <input
+                        type="number"
+                        min="0"
+                        max={book.page_count || undefined}
+                        value={toPage}
+                        onChange={(e) => setToPage(e.target.value ? Number(e.target.value) : '')}
+                        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all cursor-text"
+                    />
+                </div>
+
+                <div className="space-y-2">
+                    <label className="block text-sm font-medium text-gray-200">
+                        Note
+                    </label>
+                    <textarea
+                        placeholder="Anything worth remembering from this session..."
+                        rows={2}
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all resize-none cursor-text"
+                    />
+                </div>
+
+                <div className="flex gap-3 justify-end">
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        className="px-6 py-3 bg-white/5 backdrop-blur-xl border border-white/10 text-gray-300 rounded-lg font-semibold hover:bg-white/10 hover:text-white hover:border-white/20 transition-all duration-200 cursor-pointer"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        type="submit"
+                        className="px-6 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg font-semibold hover:from-blue-700 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all duration-200 hover:scale-105 border border-blue-500/50 shadow-lg cursor-pointer"
+                    >
+                        Log Session
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+}
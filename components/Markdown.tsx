@@ -0,0 +1,70 @@
+// components/Markdown.tsx
+import { Fragment } from 'react';
+import { parseMarkdown, type MarkdownInline } from '../lib/markdown';
+
+interface MarkdownProps {
+    text: string;
+    className?: string;
+}
+
+function Inline({ parts }: { parts: MarkdownInline[] }) {
+    return (
+        <>
+            {parts.map((part, index) => {
+                switch (part.type) {
+                    case 'text': return <Fragment key={index}>{part.text}</Fragment>;
+                    case 'code': return <code key={index} className="px-1 py-0.5 bg-white/10 rounded text-sm font-mono">{part.text}</code>;
+                    case 'strong': return <strong key={index} className="font-semibold text-white"><Inline parts={part.children} /></strong>;
+                    case 'em': return <em key={index}><Inline parts={part.children} /></em>;
+                    case 'link': return (
+                        <a key={index} href={part.href} target="_blank" rel="noopener noreferrer" className="text-purple-300 hover:text-purple-200 underline">
+                            <Inline parts={part.children} />
+                        </a>
+                    );
+                }
+            })}
+        </>
+    );
+}
+
+const HEADING_CLASSES = ['text-xl', 'text-lg', 'text-base'];
+
+// A review written in markdown - see lib/markdown.ts for what's supported
+export default function Markdown({ text, className = '' }: MarkdownProps) {
+    return (
+        <div className={`space-y-3 ${className}`}>
+            {parseMarkdown(text).map((block, index) => {
+                switch (block.type) {
+                    case 'heading':
+                        return (
+                            <p key={index} className={`${HEADING_CLASSES[block.level - 1]} font-semibold text-white`}>
+                                <Inline parts={block.children} />
+                            </p>
+                        );
+                    case 'quote':
+                        return (
+                            <blockquote key={index} className="border-l-2 border-purple-400/50 pl-4 italic text-gray-300 whitespace-pre-line">
+                                <Inline parts={block.children} />
+                            </blockquote>
+                        );
+                    case 'list': {
+                        const List = block.ordered ? 'ol' : 'ul';
+                        return (
+                            <List key={index} className={`${block.ordered ? 'list-decimal' : 'list-disc'} pl-6 space-y-1`}>
+                                {block.items.map((item, itemIndex) => (
+                                    <li key={itemIndex}><Inline parts={item} /></li>
+                                ))}
+                            </List>
+                        );
+                    }
+                    default:
+                        return (
+                            <p key={index} className="whitespace-pre-line">
+                                <Inline parts={block.children} />
+                            </p>
+                        );
+                }
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,45 @@
+// components/QueryErrors.tsx
+import { AlertTriangle } from 'lucide-react';
+import type { QueryError } from '../lib/query';
+
+interface QueryErrorsProps {
+    query: string;
+    errors: QueryError[];
+}
+
+// Echoes the search query with the parts that couldn't be understood underlined, and why
+export default function QueryErrors({ query, errors }: QueryErrorsProps) {
+    if (errors.length === 0) return null;
+
+    const parts: { text: string; error: boolean }[] = [];
+    let lastIndex = 0;
+    errors.forEach(({ start, end }) => {
+        if (start > lastIndex) parts.push({ text: query.slice(lastIndex, start), error: false });
+        parts.push({ text: query.slice(start, end), error: true });
+        lastIndex = end;
+    });
+    if (lastIndex < query.length) parts.push({ text: query.slice(lastIndex), error: false });
+
+    return (
+        <div className="absolute left-0 right-0 top-full mt-2 z-20 bg-gray-900/95 border border-red-500/30 rounded-xl px-4 py-3 shadow-xl space-y-2">
+            <p className="font-mono text-sm text-gray-300 whitespace-pre-wrap break-words">
+                {parts.map((part, index) => part.error ? (
+                    <span key={index} className="text-red-300 underline decoration-wavy decoration-red-400">{part.text}</span>
+                ) : (
+                    <span key={index}>{part.text}</span>
+                ))}
+            </p>
+            <ul className="space-y-1">
+                {errors.map((error) => (
+                    <li key={error.start} className="flex items-center gap-2 text-xs text-red-300">
+                        <AlertTriangle size={12} className="flex-shrink-0" />
+                        <span>
+                            <code className="text-red-200">{query.slice(error.start, error.end)}</code> - {error.message}
+                        </span>
+                    </li>
+                ))}
+            </ul>
+            <p className="text-xs text-gray-500">These filters are ignored until they're fixed.</p>
+        </div>
+    );
+}
@@ -10,6 +10,7 @@ interface Book {
     category: string;
     reading_status: string;
     progress_percentage?: number;
+    rating?: number | null;
 }
 
 interface Recommendation {
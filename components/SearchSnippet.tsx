@@ -0,0 +1,22 @@
+// components/SearchSnippet.tsx
+import { splitSnippet } from '../lib/search';
+
+interface SearchSnippetProps {
+    snippet: string;
+    className?: string;
+}
+
+// A full-text search snippet with the matched words highlighted
+export default function SearchSnippet({ snippet, className = '' }: SearchSnippetProps) {
+    return (
+        <p className={`text-xs text-gray-400 leading-relaxed ${className}`}>
+            {splitSnippet(snippet).map((part, index) =>
+                part.match ? (
+                    <mark key={index} className="bg-yellow-400/20 text-yellow-200 rounded px-0.5">{part.text}</mark>
+                ) : (
+                    <span key={index}>{part.text}</span>
+                )
+            )}
+        </p>
+    );
+}
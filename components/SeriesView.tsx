@@ -0,0 +1,98 @@
+// components/SeriesView.tsx
+import { Layers } from 'lucide-react';
+import type { SeriesGroup } from '../lib/series';
+
+interface SeriesViewProps {
+    groups: SeriesGroup[];
+    onEdit?: (id: string) => void;
+}
+
+export default function SeriesView({ groups, onEdit }: SeriesViewProps) {
+    if (groups.length === 0) {
+        return (
+            <div className="text-center py-20">
+                <div className="text-6xl mb-4">📚</div>
+                <h3 className="text-xl font-medium text-white mb-2">No series yet</h3>
+                <p className="text-gray-400">Add a series name and number to a book to see it grouped here.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="grid gap-6 grid-cols-1 lg:grid-cols-2">
+            {groups.map((group) => {
+                const ownedCount = group.entries.filter(entry => entry.book).length;
+
+                return (
+                    <div key={group.name} className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-5">
+                        {/* Series Header */}
+                        <div className="flex items-center justify-between gap-3 mb-4">
+                            <div className="flex items-center gap-2 min-w-0">
+                                <Layers size={18} className="text-purple-400 flex-shrink-0" />
+                                <h3 className="font-bold text-lg text-white truncate">{group.name}</h3>
+                            </div>
+                            <div className="flex items-center gap-2 flex-shrink-0">
+                                <span className="text-xs text-gray-400">{ownedCount} owned</span>
+                                {group.missingPositions.length > 0 && (
+                                    <span className="px-2 py-1 bg-red-500/20 text-red-300 rounded-full text-xs font-medium">
+                                        {group.missingPositions.length} missing
+                                    </span>
+                                )}
+                            </div>
+                        </div>
+
+                        {/* Entries in reading order */}
+                        <ol className="space-y-2">
+                            {group.entries.map((entry, index) => {
+                                const isNextUp = entry === group.nextUp;
+                                const positionLabel = entry.position !== null ? `#${entry.position}` : '—';
+
+                                if (!entry.book) {
+                                    return (
+                                        <li
+                                            key={`missing-${entry.position}`}
+                                            className="flex items-center gap-3 px-3 py-2 rounded-lg border border-dashed border-red-400/30 text-sm"
+                                        >
+                                            <span className="w-10 text-gray-500 font-mono">{positionLabel}</span>
+                                            <span className="flex-1 text-red-300/80 italic">Not in your library</span>
+                                            {isNextUp && (
+                                                <span className="px-2 py-0.5 bg-blue-500/20 text-blue-300 rounded-full text-xs font-medium">
+                                                    Next up
+                                                </span>
+                                            )}
+                                        </li>
+                                    );
+                                }
+
+                                const book = entry.book;
+                                return (
+                                    <li
+                                        key={book.id || index}
+                                        onClick={() => onEdit?.(book.id)}
+                                        className={`flex items-center gap-3 px-3 py-2 rounded-lg text-sm transition-colors ${onEdit ? 'cursor-pointer hover:bg-white/5' : ''} ${isNextUp ? 'bg-blue-500/10 border border-blue-400/30' : 'border border-transparent'}`}
+                                    >
+                                        <span className="w-10 text-gray-400 font-mono">{positionLabel}</span>
+                                        <span className="flex-1 min-w-0 text-white truncate" title={book.title}>{book.title}</span>
+                                        {isNextUp && (
+                                            <span className="px-2 py-0.5 bg-blue-500/20 text-blue-300 rounded-full text-xs font-medium">
+                                                Next up
+                                            </span>
+                                        )}
+                                        <span className={`px-2 py-0.5 rounded-full text-xs ${book.reading_status === 'finished' ? 'bg-green-500/20 text-green-300' :
+                                            book.reading_status === 'reading' ? 'bg-orange-500/20 text-orange-300' :
+                                                'bg-gray-500/20 text-gray-300'
+                                            }`}>
+                                            {book.reading_status === 'finished' ? '✅ Done' :
+                                                book.reading_status === 'reading' ? '📖 Reading' :
+                                                    '📚 To Read'}
+                                        </span>
+                                    </li>
+                                );
+                            })}
+                        </ol>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
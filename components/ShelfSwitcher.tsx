@@ -0,0 +1,141 @@
+// components/ShelfSwitcher.tsx
+"use client";
+
+import { useState } from "react";
+import { Plus, Edit3, Trash2, Check, X } from 'lucide-react';
+import type { Shelf } from '../lib/supabase';
+
+interface ShelfSwitcherProps {
+    shelves: Shelf[];
+    selectedShelf: string | null;
+    totalBooks: number;
+    onSelect: (shelfId: string | null) => void;
+    onCreate: (name: string) => void;
+    onRename: (shelfId: string, name: string) => void;
+    onDelete: (shelfId: string) => void;
+}
+
+export default function ShelfSwitcher({
+    shelves,
+    selectedShelf,
+    totalBooks,
+    onSelect,
+    onCreate,
+    onRename,
+    onDelete
+}: ShelfSwitcherProps) {
+    const [creating, setCreating] = useState(false);
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [name, setName] = useState("");
+
+    const startCreating = () => {
+        setRenamingId(null);
+        setName("");
+        setCreating(true);
+    };
+
+    const startRenaming = (shelf: Shelf) => {
+        setCreating(false);
+        setName(shelf.name);
+        setRenamingId(shelf.id);
+    };
+
+    const cancel = () => {
+        setCreating(false);
+        setRenamingId(null);
+        setName("");
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim()) return;
+
+        if (renamingId) {
+            onRename(renamingId, name.trim());
+        } else {
+            onCreate(name.trim());
+        }
+        cancel();
+    };
+
+    const chipClass = (active: boolean) =>
+        `px-4 py-2 rounded-xl font-medium transition-all duration-200 text-sm cursor-pointer ${active
+            ? "bg-white/15 text-white border border-white/20"
+            : "bg-white/5 text-gray-400 hover:bg-white/10 hover:text-gray-300 border border-white/10"
+        }`;
+
+    const nameInput = (
+        <form onSubmit={handleSubmit} className="flex items-center gap-1">
+            <input
+                type="text"
+                autoFocus
+                placeholder="e.g. Summer 2026"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Escape' && cancel()}
+                className="px-3 py-2 bg-white/10 border border-white/20 rounded-xl text-white text-sm placeholder-gray-400 focus:outline-none focus:ring-1 focus:ring-purple-400/50 cursor-text"
+            />
+            <button type="submit" className="p-2 text-green-400 hover:text-green-300 cursor-pointer" title="Save shelf">
+                <Check size={16} />
+            </button>
+            <button type="button" onClick={cancel} className="p-2 text-gray-400 hover:text-white cursor-pointer" title="Cancel">
+                <X size={16} />
+            </button>
+        </form>
+    );
+
+    return (
+        <div className="mb-8">
+            <div className="flex items-center gap-6 mb-4">
+                <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider">Shelves</h3>
+                <div className="flex-1 h-px bg-gradient-to-r from-white/10 to-transparent"></div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+                <button className={chipClass(selectedShelf === null)} onClick={() => onSelect(null)}>
+                    📚 All Books ({totalBooks})
+                </button>
+
+                {shelves.map((shelf) => (
+                    renamingId === shelf.id ? (
+                        <div key={shelf.id}>{nameInput}</div>
+                    ) : (
+                        <div key={shelf.id} className="flex items-center gap-1">
+                            <button className={chipClass(selectedShelf === shelf.id)} onClick={() => onSelect(shelf.id)}>
+                                🗂️ {shelf.name} ({shelf.book_ids.length})
+                            </button>
+                            {selectedShelf === shelf.id && (
+                                <>
+                                    <button
+                                        onClick={() => startRenaming(shelf)}
+                                        className="p-1.5 text-gray-400 hover:text-white transition-colors cursor-pointer"
+                                        title="Rename shelf"
+                                    >
+                                        <Edit3 size={14} />
+                                    </button>
+                                    <button
+                                        onClick={() => onDelete(shelf.id)}
+                                        className="p-1.5 text-gray-400 hover:text-red-400 transition-colors cursor-pointer"
+                                        title="Delete shelf"
+                                    >
+                                        <Trash2 size={14} />
+                                    </button>
+                                </>
+                            )}
+                        </div>
+                    )
+                ))}
+
+                {creating ? nameInput : (
+                    <button
+                        onClick={startCreating}
+                        className="px-4 py-2 rounded-xl text-sm font-medium text-gray-400 border border-dashed border-white/20 hover:text-white hover:border-white/40 transition-all flex items-center gap-2 cursor-pointer"
+                    >
+                        <Plus size={14} />
+                        New Shelf
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,145 @@
+// components/SmartShelfChips.tsx
+"use client";
+
+import { useState } from "react";
+import { Sparkles, Save, Edit3, Trash2, Check, X } from 'lucide-react';
+import type { SmartShelf } from '../lib/supabase';
+
+interface SmartShelfChipsProps {
+    smartShelves: SmartShelf[];
+    activeId: string | null;
+    counts: Record<string, number>; // books in the whole library each one matches, once counted
+    canSave: boolean;               // filters are set and no smart shelf already matches them
+    onApply: (smartShelf: SmartShelf) => void;
+    onClear: () => void;
+    onSave: (name: string) => void;
+    onRename: (id: string, name: string) => void;
+    onDelete: (id: string) => void;
+}
+
+// Saved filter combinations, shown as chips alongside the categories
+export default function SmartShelfChips({
+    smartShelves,
+    activeId,
+    counts,
+    canSave,
+    onApply,
+    onClear,
+    onSave,
+    onRename,
+    onDelete
+}: SmartShelfChipsProps) {
+    const [saving, setSaving] = useState(false);
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [name, setName] = useState("");
+
+    const startSaving = () => {
+        setRenamingId(null);
+        setName("");
+        setSaving(true);
+    };
+
+    const startRenaming = (smartShelf: SmartShelf) => {
+        setSaving(false);
+        setName(smartShelf.name);
+        setRenamingId(smartShelf.id);
+    };
+
+    const cancel = () => {
+        setSaving(false);
+        setRenamingId(null);
+        setName("");
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim()) return;
+
+        if (renamingId) {
+            onRename(renamingId, name.trim());
+        } else {
+            onSave(name.trim());
+        }
+        cancel();
+    };
+
+    if (smartShelves.length === 0 && !canSave) return null;
+
+    const chipClass = (active: boolean) =>
+        `px-4 py-2 rounded-xl font-medium transition-all duration-200 text-sm cursor-pointer flex items-center gap-2 ${active
+            ? "bg-purple-500/20 text-white border border-purple-400/40"
+            : "bg-white/5 text-gray-400 hover:bg-white/10 hover:text-gray-300 border border-white/10"
+        }`;
+
+    const nameInput = (
+        <form onSubmit={handleSubmit} className="flex items-center gap-1">
+            <input
+                type="text"
+                autoFocus
+                placeholder="e.g. Unfinished programming books"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Escape' && cancel()}
+                className="px-3 py-2 bg-white/10 border border-white/20 rounded-xl text-white text-sm placeholder-gray-400 focus:outline-none focus:ring-1 focus:ring-purple-400/50 cursor-text"
+            />
+            <button type="submit" className="p-2 text-green-400 hover:text-green-300 cursor-pointer" title="Save smart shelf">
+                <Check size={16} />
+            </button>
+            <button type="button" onClick={cancel} className="p-2 text-gray-400 hover:text-white cursor-pointer" title="Cancel">
+                <X size={16} />
+            </button>
+        </form>
+    );
+
+    return (
+        <>
+            <div className="w-px self-stretch bg-white/10 mx-1"></div>
+
+            {smartShelves.map((smartShelf) => (
+                renamingId === smartShelf.id ? (
+                    <div key={smartShelf.id}>{nameInput}</div>
+                ) : (
+                    <div key={smartShelf.id} className="flex items-center gap-1">
+                        <button
+                            className={chipClass(activeId === smartShelf.id)}
+                            onClick={() => activeId === smartShelf.id ? onClear() : onApply(smartShelf)}
+                            title={smartShelf.filters.query || undefined}
+                        >
+                            <Sparkles size={14} className="text-purple-400" />
+                            {smartShelf.name}{counts[smartShelf.id] !== undefined && ` (${counts[smartShelf.id]})`}
+                        </button>
+                        {activeId === smartShelf.id && (
+                            <>
+                                <button
+                                    onClick={() => startRenaming(smartShelf)}
+                                    className="p-1.5 text-gray-400 hover:text-white transition-colors cursor-pointer"
+                                    title="Rename smart shelf"
+                                >
+                                    <Edit3 size={14} />
+                                </button>
+                                <button
+                                    onClick={() => onDelete(smartShelf.id)}
+                                    className="p-1.5 text-gray-400 hover:text-red-400 transition-colors cursor-pointer"
+                                    title="Delete smart shelf"
+                                >
+                                    <Trash2 size={14} />
+                                </button>
+                            </>
+                        )}
+                    </div>
+                )
+            ))}
+
+            {saving ? nameInput : canSave && (
+                <button
+                    onClick={startSaving}
+                    className="px-4 py-2 rounded-xl text-sm font-medium text-gray-400 border border-dashed border-white/20 hover:text-white hover:border-white/40 transition-all flex items-center gap-2 cursor-pointer"
+                    title="Save the current search and filters as a smart shelf"
+                >
+                    <Save size={14} />
+                    Save as Smart Shelf
+                </button>
+            )}
+        </>
+    );
+}
@@ -0,0 +1,31 @@
+// components/SortableHeader.tsx
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import type { BookSort, SortKey } from '../lib/sort';
+
+interface SortableHeaderProps {
+    label: string;
+    sortKey: SortKey;
+    sort: BookSort | null;
+    onSort: (key: SortKey) => void;
+}
+
+// A table column header that sorts by its column, and flips direction when clicked again
+export default function SortableHeader({ label, sortKey, sort, onSort }: SortableHeaderProps) {
+    const active = sort?.key === sortKey;
+    const Icon = !active ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+
+    return (
+        <th
+            className="text-left p-4 text-gray-300"
+            aria-sort={active ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+        >
+            <button
+                onClick={() => onSort(sortKey)}
+                className={`flex items-center gap-1.5 hover:text-white transition-colors cursor-pointer ${active ? 'text-white' : ''}`}
+            >
+                {label}
+                <Icon size={14} className={active ? 'text-purple-400' : 'text-gray-500'} />
+            </button>
+        </th>
+    );
+}
@@ -0,0 +1,56 @@
+// components/StarRating.tsx
+import { Star } from 'lucide-react';
+
+interface StarRatingProps {
+    rating?: number | null;
+    onChange?: (rating: number | null) => void;
+    size?: number;
+}
+
+// Shows a 0.5-5 star rating. Pass onChange to make it editable - each star has a
+// left and right half so half stars can be picked, and clicking the current value clears it.
+export default function StarRating({ rating, onChange, size = 16 }: StarRatingProps) {
+    const value = rating || 0;
+
+    const handleSelect = (selected: number) => {
+        onChange?.(value === selected ? null : selected);
+    };
+
+    return (
+        <div
+            className="flex items-center gap-0.5"
+            title={rating ? `${rating} out of 5 stars` : 'Not rated'}
+        >
+            {[1, 2, 3, 4, 5].map((star) => {
+                const fill = value >= star ? 100 : value >= star - 0.5 ? 50 : 0;
+
+                return (
+                    <span key={star} className="relative inline-block" style={{ width: size, height: size }}>
+                        <Star size={size} className="absolute inset-0 text-gray-600" />
+                        {fill > 0 && (
+                            <span className="absolute inset-y-0 left-0 overflow-hidden" style={{ width: `${fill}%` }}>
+                                <Star size={size} className="text-yellow-400 fill-yellow-400" />
+                            </span>
+                        )}
+                        {onChange && (
+                            <>
+                                <button
+                                    type="button"
+                                    aria-label={`${star - 0.5} stars`}
+                                    onClick={() => handleSelect(star - 0.5)}
+                                    className="absolute inset-y-0 left-0 w-1/2 cursor-pointer"
+                                />
+                                <button
+                                    type="button"
+                                    aria-label={`${star} stars`}
+                                    onClick={() => handleSelect(star)}
+                                    className="absolute inset-y-0 right-0 w-1/2 cursor-pointer"
+                                />
+                            </>
+                        )}
+                    </span>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,125 @@
+// components/TagPicker.tsx
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import { Hash, X } from 'lucide-react';
+
+interface TagPickerProps {
+    tags: string[];
+    onChange: (tags: string[]) => void;
+    suggestions?: string[];
+}
+
+export default function TagPicker({ tags, onChange, suggestions = [] }: TagPickerProps) {
+    const [input, setInput] = useState("");
+    const [showSuggestions, setShowSuggestions] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // Existing tags that match what's typed and aren't already on the book
+    const matches = suggestions
+        .filter(suggestion =>
+            !tags.some(tag => tag.toLowerCase() === suggestion.toLowerCase()) &&
+            suggestion.toLowerCase().includes(input.trim().toLowerCase())
+        )
+        .slice(0, 6);
+
+    // Close the suggestions when clicking elsewhere
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+                setShowSuggestions(false);
+            }
+        };
+
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    const addTag = (name: string) => {
+        const trimmed = name.trim().replace(/,$/, '');
+        if (!trimmed) return;
+
+        // Reuse the existing spelling if the tag already exists
+        const existing = suggestions.find(suggestion => suggestion.toLowerCase() === trimmed.toLowerCase());
+        const tag = existing || trimmed;
+
+        if (!tags.some(current => current.toLowerCase() === tag.toLowerCase())) {
+            onChange([...tags, tag]);
+        }
+        setInput("");
+    };
+
+    const removeTag = (tag: string) => {
+        onChange(tags.filter(current => current !== tag));
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            addTag(input);
+        } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+            removeTag(tags[tags.length - 1]);
+        }
+    };
+
+    return (
+        <div className="relative" ref={containerRef}>
+            <div className="w-full flex flex-wrap items-center gap-2 pl-12 pr-4 py-3 bg-gray-700 border border-gray-600 rounded-xl focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-blue-500 transition-all">
+                <Hash className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                {tags.map((tag) => (
+                    <span
+                        key={tag}
+                        className="flex items-center gap-1 px-2 py-1 bg-blue-500/20 text-blue-300 rounded-full text-xs font-medium"
+                    >
+                        {tag}
+                        <button
+                            type="button"
+                            onClick={() => removeTag(tag)}
+                            className="hover:text-white cursor-pointer"
+                            aria-label={`Remove ${tag}`}
+                        >
+                            <X size={12} />
+                        </button>
+                    </span>
+                ))}
+                <input
+                    type="text"
+                    placeholder={tags.length === 0 ? "e.g. History, Science" : "Add another..."}
+                    value={input}
+                    onChange={(e) => {
+                        setInput(e.target.value);
+                        setShowSuggestions(true);
+                    }}
+                    onFocus={() => setShowSuggestions(true)}
+                    onKeyDown={handleKeyDown}
+                    className="flex-1 min-w-[120px] bg-transparent text-white placeholder-gray-400 focus:outline-none cursor-text py-1"
+                />
+            </div>
+
+            {/* Autocomplete Dropdown */}
+            {showSuggestions && (matches.length > 0 || input.trim()) && (
+                <div className="absolute top-full left-0 right-0 mt-1 bg-gray-800 border border-gray-600 rounded-xl shadow-2xl max-h-48 overflow-y-auto z-50">
+                    {matches.map((suggestion) => (
+                        <button
+                            key={suggestion}
+                            type="button"
+                            onClick={() => addTag(suggestion)}
+                            className="w-full text-left px-4 py-2 text-sm text-white hover:bg-gray-700 transition-colors cursor-pointer"
+                        >
+                            {suggestion}
+                        </button>
+                    ))}
+                    {input.trim() && !suggestions.some(suggestion => suggestion.toLowerCase() === input.trim().toLowerCase()) && (
+                        <button
+                            type="button"
+                            onClick={() => addTag(input)}
+                            className="w-full text-left px-4 py-2 text-sm text-blue-300 hover:bg-gray-700 transition-colors cursor-pointer"
+                        >
+                            Create tag "{input.trim()}"
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,91 @@
+// components/TrashView.tsx
+import { RotateCcw, Trash2 } from 'lucide-react';
+import type { Book } from '../lib/supabase';
+import { TRASH_RETENTION_DAYS } from '../lib/database';
+
+interface TrashViewProps {
+    books: Book[];
+    onRestore: (id: string) => void;
+    onPurge: (id: string) => void;
+    onEmpty: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days left before a trashed book is purged automatically
+const daysUntilPurge = (deletedAt?: string | null) => {
+    if (!deletedAt) return TRASH_RETENTION_DAYS;
+    const elapsed = Math.floor((Date.now() - new Date(deletedAt).getTime()) / DAY_MS);
+    return Math.max(TRASH_RETENTION_DAYS - elapsed, 0);
+};
+
+export default function TrashView({ books, onRestore, onPurge, onEmpty }: TrashViewProps) {
+    if (books.length === 0) {
+        return (
+            <div className="text-center py-20">
+                <div className="text-6xl mb-4">🗑️</div>
+                <h3 className="text-xl font-medium text-white mb-2">Trash is empty</h3>
+                <p className="text-gray-400">
+                    Deleted books stay here for {TRASH_RETENTION_DAYS} days so you can restore them.
+                </p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+                <p className="text-sm text-gray-400">
+                    Books in the trash are deleted for good after {TRASH_RETENTION_DAYS} days.
+                </p>
+                <button
+                    onClick={onEmpty}
+                    className="px-4 py-2 text-sm font-medium text-red-300 border border-red-500/30 rounded-lg hover:bg-red-500/10 transition-colors cursor-pointer"
+                >
+                    Empty Trash
+                </button>
+            </div>
+
+            <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl overflow-hidden divide-y divide-white/10">
+                {books.map((book) => {
+                    const daysLeft = daysUntilPurge(book.deleted_at);
+
+                    return (
+                        <div key={book.id} className="flex items-center gap-4 p-4">
+                            {book.cover_url ? (
+                                <img src={book.cover_url} alt={book.title} className="w-10 h-14 object-cover rounded opacity-60" />
+                            ) : (
+                                <div className="w-10 h-14 bg-gray-700 rounded flex items-center justify-center text-gray-500 text-xs">📖</div>
+                            )}
+                            <div className="flex-1 min-w-0">
+                                <div className="font-medium text-white truncate">{book.title}</div>
+                                <div className="text-sm text-gray-400 truncate">{book.author}</div>
+                            </div>
+                            <div className="text-xs text-gray-500 whitespace-nowrap">
+                                {daysLeft === 0 ? 'Purged soon' : `${daysLeft} ${daysLeft === 1 ? 'day' : 'days'} left`}
+                            </div>
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={() => onRestore(book.id)}
+                                    className="flex items-center gap-1 px-3 py-1.5 text-sm text-green-300 hover:bg-green-500/10 rounded-lg transition-colors cursor-pointer"
+                                    title="Restore to library"
+                                >
+                                    <RotateCcw size={14} />
+                                    Restore
+                                </button>
+                                <button
+                                    onClick={() => onPurge(book.id)}
+                                    className="flex items-center gap-1 px-3 py-1.5 text-sm text-red-300 hover:bg-red-500/10 rounded-lg transition-colors cursor-pointer"
+                                    title="Delete forever"
+                                >
+                                    <Trash2 size={14} />
+                                    Delete Forever
+                                </button>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -3,24 +3,28 @@ export const books = [
     id: "1",
     title: "Test Title",
     author: "Test Author",
+    authors: ["Test Author"],
     category: "Test Category"
   },
   {
     id: "2",
     title: "The Pragmatic Programmer",
     author: "Andrew Hunt & David Thomas",
+    authors: ["Andrew Hunt", "David Thomas"],
     category: "Programming"
   },
   {
     id: "3",
     title: "Clean Code",
     author: "Robert C. Martin",
+    authors: ["Robert C. Martin"],
     category: "Programming"
   },
   {
     id: "4",
     title: "1984",
     author: "George Orwell",
+    authors: ["George Orwell"],
     category: "Fiction"
   }
 ];
@@ -14,6 +14,8 @@ const customJestConfig = {
         '^@/pages/(.*)$': '<rootDir>/pages/$1',
     },
     testEnvironment: 'jest-environment-jsdom',
+    // Shared test data rather than test suites
+    testPathIgnorePatterns: ['<rootDir>/__tests__/fixtures/'],
 }
 
 // createJestConfig is exported this way to ensure that next/jest can load the Next.js config which is async
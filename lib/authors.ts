@@ -0,0 +1,129 @@
+// lib/authors.ts - Splitting author strings into individual authors, and per-author stats
+import type { Book } from './supabase';
+import { getReadCount } from './progress';
+
+const NAME_SUFFIX = /^(jr|sr|ii|iii|iv|phd|md)\.?$/i;
+
+// Split an author string like "Andrew Hunt & David Thomas" or Google Books' "Andrew Hunt, David Thomas"
+// into one name per author. A single "Surname, First" (e.g. "Orwell, George") is turned round instead.
+export function splitAuthors(author: string): string[] {
+    const names: string[] = [];
+
+    author.split(/\s*(?:&|;|\band\b)\s*/i).forEach(group => {
+        const parts = group.split(',').map(part => part.trim()).filter(Boolean);
+
+        // "Tolkien, J.R.R." - two single words is one inverted name, not two authors
+        if (parts.length === 2 && !/\s/.test(parts[0]) && !/\s/.test(parts[1]) && !NAME_SUFFIX.test(parts[1])) {
+            names.push(`${parts[1]} ${parts[0]}`);
+            return;
+        }
+
+        parts.forEach(part => {
+            // "Martin Luther King, Jr." - a suffix belongs to the name before it
+            if (NAME_SUFFIX.test(part) && names.length > 0) {
+                names[names.length - 1] = `${names[names.length - 1]} ${part}`;
+            } else {
+                names.push(part);
+            }
+        });
+    });
+
+    return names.filter(Boolean);
+}
+
+// How an author is filed, e.g. "Robert C. Martin" -> "Martin, Robert C." and
+// "Martin Luther King Jr." -> "King, Martin Luther, Jr."
+export function getSortName(name: string): string {
+    const words = name.trim().split(/\s+/).filter(Boolean);
+    const suffix = words.length > 2 && NAME_SUFFIX.test(words[words.length - 1]) ? words.pop() : null;
+    if (words.length < 2) return name.trim();
+
+    const surname = words.pop();
+    return `${surname}, ${words.join(' ')}${suffix ? `, ${suffix}` : ''}`;
+}
+
+// Join authors back into one display string: "A", "A & B" or "A, B & C"
+export function formatAuthors(names: string[]): string {
+    if (names.length <= 1) return names[0] || '';
+    return `${names.slice(0, -1).join(', ')} & ${names[names.length - 1]}`;
+}
+
+// URL-safe id for an author page, e.g. "Gabriel García Márquez" -> "gabriel-garcia-marquez"
+export function authorSlug(name: string): string {
+    return name
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+}
+
+// Whether one of a book's authors has the given slug
+export function hasAuthor(book: Pick<Book, 'author'>, slug: string): boolean {
+    return splitAuthors(book.author).some(name => authorSlug(name) === slug);
+}
+
+export interface AuthorStats {
+    total: number;
+    toRead: number;
+    reading: number;
+    finished: number;
+    averageRating: number | null;   // across rated books only
+    pagesRead: number;
+}
+
+// Totals for an author's books. Pages read counts every finished read of page-based books,
+// plus how far into the ones being read now.
+export function getAuthorStats(books: Book[]): AuthorStats {
+    const rated = books.filter(book => book.rating);
+    const pagesRead = books.reduce((total, book) => {
+        if ((book.progress_unit || 'pages') !== 'pages') return total;
+        if (book.reading_status === 'reading') return total + (book.current_page || 0);
+        return total + (book.page_count || 0) * getReadCount(book);
+    }, 0);
+
+    return {
+        total: books.length,
+        toRead: books.filter(book => book.reading_status === 'to-read').length,
+        reading: books.filter(book => book.reading_status === 'reading').length,
+        finished: books.filter(book => book.reading_status === 'finished').length,
+        averageRating: rated.length > 0
+            ? Math.round(rated.reduce((sum, book) => sum + (book.rating as number), 0) / rated.length * 10) / 10
+            : null,
+        pagesRead
+    };
+}
+
+// Titles compared loosely, so "Nineteen Eighty-Four: A Novel" matches "Nineteen eighty-four"
+export function titleKey(title: string): string {
+    return title
+        .split(':')[0]
+        .toLowerCase()
+        .replace(/^(the|a|an)\s+/, '')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
+
+// Likely duplicate spellings: the same surname with given names that could be the same person,
+// e.g. "Robert C. Martin", "Robert Martin" and "R. C. Martin". Nicknames like "Uncle Bob" can't
+// be spotted this way and are left to merge by hand.
+export function findDuplicateAuthors<T extends { id: string; name: string }>(authors: T[]): T[][] {
+    const initials = (name: string) => name.split(/[\s.]+/).slice(0, -1).filter(Boolean).map(word => word[0].toLowerCase());
+    const surname = (name: string) => getSortName(name).split(',')[0].toLowerCase().replace(/[^a-z]/g, '');
+    const bySurname = new Map<string, T[]>();
+
+    authors.forEach(author => {
+        const key = surname(author.name);
+        if (!key) return;
+        bySurname.set(key, [...(bySurname.get(key) || []), author]);
+    });
+
+    return Array.from(bySurname.values())
+        .map(group => group.filter(author => group.some(other => {
+            if (other === author) return false;
+            // The first initials have to agree; a missing middle name is fine
+            const [a, b] = [initials(author.name), initials(other.name)];
+            return a.length > 0 && b.length > 0 && a[0] === b[0];
+        })))
+        .filter(group => group.length > 1);
+}
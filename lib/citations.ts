@@ -0,0 +1,175 @@
+// lib/citations.ts - Citing books: reference manager formats (BibTeX, RIS, CSL-JSON) and
+// formatted APA and Chicago references. Everything comes from the stored book fields.
+import type { Book } from './supabase';
+import { getSortName, splitAuthors } from './authors';
+
+export type CitationStyle = 'apa' | 'chicago';
+
+export const CITATION_STYLES: Record<CitationStyle, string> = {
+    apa: 'APA',
+    chicago: 'Chicago',
+};
+
+// The fields a citation uses
+export type CitableBook = Pick<Book, 'id' | 'title' | 'author'> &
+    Partial<Pick<Book, 'publisher' | 'published_date' | 'isbn_10' | 'isbn_13' | 'series_name' | 'series_position' | 'language'>>;
+
+interface AuthorName {
+    family: string;
+    given: string;
+    suffix: string;
+}
+
+// Names split the way citation styles need them, using the same rules as author sort names
+export function getAuthorNames(author: string): AuthorName[] {
+    return splitAuthors(author).map(name => {
+        const [family, given = '', suffix = ''] = getSortName(name).split(',').map(part => part.trim());
+        return { family, given, suffix };
+    });
+}
+
+const getYear = (book: CitableBook) => book.published_date?.match(/^\d{4}/)?.[0] || null;
+
+// Full stop after the title unless it already ends in punctuation
+const withFullStop = (text: string) => /[.?!]$/.test(text) ? text : `${text}.`;
+
+// "Robert C." -> "R. C.", "Jean-Paul" -> "J.-P."
+const toInitials = (given: string) => given
+    .split(/\s+|(?<=\.)(?=\S)/)
+    .filter(Boolean)
+    .map(name => name.split('-').map(part => `${part[0]}.`).join('-'))
+    .join(' ');
+
+// APA: "Hunt, A., & Thomas, D." - up to 20 authors, then the first 19, an ellipsis and the last
+function apaAuthors(names: AuthorName[]): string {
+    const formatted = names.map(({ family, given, suffix }) =>
+        [family, given && toInitials(given), suffix].filter(Boolean).join(', '));
+
+    if (formatted.length <= 1) return formatted[0] || '';
+    if (formatted.length > 20) return `${formatted.slice(0, 19).join(', ')}, . . . ${formatted[formatted.length - 1]}`;
+    return `${formatted.slice(0, -1).join(', ')}, & ${formatted[formatted.length - 1]}`;
+}
+
+// Chicago: the first author inverted, the rest in normal order - "Hunt, Andrew, and David Thomas"
+function chicagoAuthors(names: AuthorName[]): string {
+    const formatted = names.map(({ family, given, suffix }, index) => index === 0
+        ? [family, given, suffix].filter(Boolean).join(', ')
+        : [given, family].filter(Boolean).join(' ') + (suffix ? `, ${suffix}` : ''));
+
+    if (formatted.length <= 1) return formatted[0] || '';
+    if (formatted.length === 2) return `${formatted[0]}, and ${formatted[1]}`;
+    return `${formatted.slice(0, -1).join(', ')}, and ${formatted[formatted.length - 1]}`;
+}
+
+// A reference in the chosen style, as plain text
+export function formatCitation(book: CitableBook, style: CitationStyle): string {
+    const names = getAuthorNames(book.author);
+    const year = getYear(book);
+
+    if (style === 'apa') {
+        const authors = apaAuthors(names);
+        return [
+            authors ? `${withFullStop(authors)} (${year || 'n.d.'}).` : null,
+            withFullStop(book.title),
+            authors ? null : `(${year || 'n.d.'}).`,
+            book.publisher ? withFullStop(book.publisher) : null,
+        ].filter(Boolean).join(' ');
+    }
+
+    const authors = chicagoAuthors(names);
+    const published = [book.publisher, year].filter(Boolean).join(', ');
+    return [
+        authors ? withFullStop(authors) : null,
+        withFullStop(book.title),
+        published ? `${published}.` : null,
+    ].filter(Boolean).join(' ');
+}
+
+// BibTeX treats these characters as commands or grouping
+const escapeBibtex = (text: string) => text
+    .replace(/\\/g, '\\textbackslash{}')
+    .replace(/([&%$#_{}])/g, '\\$1')
+    .replace(/~/g, '\\textasciitilde{}')
+    .replace(/\^/g, '\\textasciicircum{}');
+
+const asciiWord = (text: string) => text.normalize('NFD').replace(/[^A-Za-z0-9]/g, '').toLowerCase();
+
+// Keys like "orwell1945animal", with a, b, c... added when two books would share one
+function bibtexKeys(books: CitableBook[]): string[] {
+    const keys = books.map(book => {
+        const titleWord = book.title.split(/\s+/).find(word => !/^(a|an|the)$/i.test(word)) || '';
+        return `${asciiWord(getAuthorNames(book.author)[0]?.family || '')}${getYear(book) || ''}${asciiWord(titleWord)}` || book.id;
+    });
+
+    return keys.map((key, index) => {
+        const same = keys.filter(other => other === key).length;
+        if (same === 1) return key;
+        return `${key}${String.fromCharCode(97 + keys.slice(0, index).filter(other => other === key).length)}`;
+    });
+}
+
+export function toBibtex(books: CitableBook[]): string {
+    const keys = bibtexKeys(books);
+
+    return books.map((book, index) => {
+        const fields: [string, string | null | undefined][] = [
+            ['author', getAuthorNames(book.author)
+                .map(({ family, given, suffix }) => [family, suffix, given].filter(Boolean).join(', '))
+                .join(' and ')],
+            ['title', book.title],
+            ['publisher', book.publisher],
+            ['year', getYear(book)],
+            ['isbn', book.isbn_13 || book.isbn_10],
+            ['series', book.series_name],
+            ['volume', book.series_position != null ? String(book.series_position) : null],
+            ['language', book.language],
+        ];
+
+        const lines = fields
+            .filter(([, value]) => value)
+            .map(([name, value]) => `  ${name} = {${escapeBibtex(value as string)}}`);
+        return `@book{${keys[index]},\n${lines.join(',\n')}\n}`;
+    }).join('\n\n') + '\n';
+}
+
+export function toRis(books: CitableBook[]): string {
+    return books.map(book => {
+        const tags: [string, string | null | undefined][] = [
+            ['TY', 'BOOK'],
+            ...getAuthorNames(book.author).map(({ family, given, suffix }) =>
+                ['AU', [family, given, suffix].filter(Boolean).join(', ')] as [string, string]),
+            ['TI', book.title],
+            ['T3', book.series_name],
+            ['PB', book.publisher],
+            ['PY', getYear(book)],
+            ['SN', book.isbn_13 || book.isbn_10],
+            ['LA', book.language],
+        ];
+
+        return [...tags.filter(([, value]) => value).map(([tag, value]) => `${tag}  - ${value}`), 'ER  - '].join('\r\n');
+    }).join('\r\n\r\n') + '\r\n';
+}
+
+// CSL-JSON, the format Zotero, Mendeley and citeproc-based tools read
+export function toCslJson(books: CitableBook[]): string {
+    return JSON.stringify(books.map(book => {
+        const date = book.published_date?.match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?/);
+
+        return {
+            id: book.id,
+            type: 'book',
+            title: book.title,
+            author: getAuthorNames(book.author).map(({ family, given, suffix }) => ({
+                family,
+                ...(given && { given }),
+                ...(suffix && { suffix }),
+            })),
+            ...(book.publisher && { publisher: book.publisher }),
+            ...(date && { issued: { 'date-parts': [date.slice(1).filter(Boolean).map(Number)] } }),
+            ...((book.isbn_13 || book.isbn_10) && { ISBN: book.isbn_13 || book.isbn_10 }),
+            ...(book.series_name && { 'collection-title': book.series_name }),
+            ...(book.series_position != null && { 'collection-number': book.series_position }),
+            ...(book.language && { language: book.language }),
+        };
+    }), null, 2);
+}
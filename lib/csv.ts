@@ -0,0 +1,70 @@
+// lib/csv.ts - Reading delimited text files (CSV, TSV) exported by other book apps
+
+// Split text into rows of fields. Handles quoted fields with embedded delimiters, newlines
+// and doubled quotes, Windows line endings and a leading byte order mark.
+export function parseCsv(text: string, delimiter = ','): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    let index = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+    for (; index < text.length; index++) {
+        const char = text[index];
+
+        if (quoted) {
+            if (char === '"' && text[index + 1] === '"') {
+                field += '"';
+                index++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[index + 1] === '\n') index++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    // Blank lines come through as a single empty field
+    return rows.filter(fields => fields.length > 1 || fields[0] !== '');
+}
+
+// Parse a file with a header row into one record per line, keyed by the header names
+export function parseCsvRecords(text: string, delimiter = ','): Record<string, string>[] {
+    const [header, ...rows] = parseCsv(text, delimiter);
+    if (!header) return [];
+
+    const names = header.map(name => name.trim());
+    return rows.map(fields => Object.fromEntries(names.map((name, index) => [name, (fields[index] || '').trim()])));
+}
+
+// Just the column names, to recognise which app a file came from
+export function parseCsvHeader(text: string, delimiter = ','): string[] {
+    return (parseCsv(text.split(/\r?\n/, 1)[0], delimiter)[0] || []).map(name => name.trim());
+}
+
+// Write rows as CSV, quoting any field with a delimiter, quote or line break in it
+export function toCsv(rows: (string | number | null | undefined)[][], delimiter = ','): string {
+    const quote = (value: string | number | null | undefined) => {
+        const field = value == null ? '' : String(value);
+        return /["\r\n]/.test(field) || field.includes(delimiter) ? `"${field.replace(/"/g, '""')}"` : field;
+    };
+    return rows.map(row => row.map(quote).join(delimiter)).join('\r\n') + '\r\n';
+}
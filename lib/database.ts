@@ -1,5 +1,11 @@
 // lib/database.ts - All database operations for books
-import { supabase, Book } from './supabase';
+import { supabase, Author, Book, BookAuthor, BookChange, BookFieldChanges, BookFormat, Highlight, HighlightKind, ProgressUnit, ReadingCycle, ReadingSession, Shelf, SmartShelf, SmartShelfFilters, Tag } from './supabase';
+import { authorSlug, formatAuthors, hasAuthor, splitAuthors } from './authors';
+import { calculateProgressPercentage, getReadCount } from './progress';
+import { diffBookFields } from './history';
+import type { ImportedBook, ImportResult } from './import';
+import type { BookSort } from './sort';
+import { parseQuery, toReadingStatus, type QueryFilter } from './query';
 
 export interface CreateBookData {
     title: string;
@@ -8,9 +14,22 @@ export interface CreateBookData {
     cover_url?: string | null;
     reading_status: 'to-read' | 'reading' | 'finished';
     progress_percentage?: number;
+    page_count?: number | null;
+    current_page?: number | null;
+    progress_unit?: ProgressUnit;
     date_started?: string | null;
     date_finished?: string | null;
     reading_notes?: string | null;
+    rating?: number | null;
+    review?: string | null;
+    series_name?: string | null;
+    series_position?: number | null;
+    isbn_10?: string | null;
+    isbn_13?: string | null;
+    publisher?: string | null;
+    published_date?: string | null;
+    language?: string | null;
+    format?: BookFormat | null;
 }
 
 export interface UpdateBookData {
@@ -20,31 +39,414 @@ export interface UpdateBookData {
     cover_url?: string | null;
     reading_status?: 'to-read' | 'reading' | 'finished';
     progress_percentage?: number;
+    page_count?: number | null;
+    current_page?: number | null;
+    progress_unit?: ProgressUnit;
     date_started?: string | null;
     date_finished?: string | null;
     reading_notes?: string | null;
+    rating?: number | null;
+    review?: string | null;
+    series_name?: string | null;
+    series_position?: number | null;
+    isbn_10?: string | null;
+    isbn_13?: string | null;
+    publisher?: string | null;
+    published_date?: string | null;
+    language?: string | null;
+    format?: BookFormat | null;
 }
 
-// Fetch all books for the current user
-export async function fetchBooks(): Promise<{ data: Book[] | null; error: any }> {
+export interface CreateReadingSessionData {
+    book_id: string;
+    started_at: string;
+    ended_at?: string | null;
+    from_page?: number | null;
+    to_page: number;
+    note?: string | null;
+}
+
+export interface CreateReadingCycleData {
+    book_id: string;
+    date_started?: string | null;
+    date_finished: string;
+    rating?: number | null;
+    notes?: string | null;
+}
+
+export interface CreateHighlightData {
+    book_id: string;
+    kind?: HighlightKind;
+    text: string;
+    location?: number | null;
+    note?: string | null;
+    tags?: string[];
+    created_at?: string | null;    // when it was made, if not now - e.g. the date on a Kindle clipping
+}
+
+// Optional details for the session recorded by updateBookProgress
+export interface ReadingSessionDetails {
+    started_at?: string;
+    ended_at?: string | null;
+    note?: string | null;
+}
+
+// Books are always fetched with their tags (through the book_tags join table), their finished reads
+// and their authors (through book_authors)
+const BOOK_SELECT = '*, tags(name), reading_cycles(*), book_authors(position, authors(id, name, sort_name))';
+
+// Flatten the nested tag and author rows into plain lists and put the reads and authors in order
+function normalizeBook(row: any): Book {
+    const { tags, reading_cycles, book_authors, ...book } = row;
+    return {
+        ...book,
+        tags: (tags || []).map((tag: { name: string }) => tag.name),
+        reading_cycles: [...(reading_cycles || [])].sort((a: ReadingCycle, b: ReadingCycle) =>
+            a.date_finished.localeCompare(b.date_finished)),
+        authors: [...(book_authors || [])]
+            .sort((a: { position: number }, b: { position: number }) => a.position - b.position)
+            .map((link: { authors: BookAuthor }) => link.authors)
+            .filter(Boolean)
+    };
+}
+
+// Position in the library for keyset pagination - the last book of the previous page
+export interface BookCursor {
+    created_at: string;
+    id: string;
+}
+
+export interface FetchBooksOptions {
+    cursor?: BookCursor | null;
+    pageSize?: number;
+    // Applied in the database so they hold across pages
+    category?: string | null;
+    status?: string | null;
+    shelfId?: string | null;
+    tags?: string[];
+    tagMatchMode?: 'and' | 'or';
+    minRating?: number | null;
+    search?: string;                // free text, matched by search_books
+    queryFilters?: QueryFilter[];   // filters written in the search bar, e.g. author:orwell
+    sort?: BookSort | null;         // null is newest first
+}
+
+export const BOOKS_PAGE_SIZE = 24;
+
+// The filters as arguments for library_page
+function toFilterArgs(options: FetchBooksOptions) {
+    const { category, status, shelfId, tags = [], tagMatchMode = 'or', minRating, search, queryFilters = [] } = options;
+    return {
+        category_filter: category || null,
+        status_filter: status || null,
+        shelf_filter: shelfId || null,
+        tag_names: tags.length > 0 ? tags : null,
+        match_all_tags: tagMatchMode === 'and',
+        min_rating: minRating ?? null,
+        search_query: search?.trim() || null,
+        // Statuses go in as stored, so "status:done" matches finished books
+        query_filters: queryFilters.length > 0
+            ? queryFilters.map(filter => filter.key === 'status' ? { ...filter, value: toReadingStatus(filter.value) } : filter)
+            : null,
+    };
+}
+
+// A search result's matched words, wrapped in [[ ]] - see lib/search.ts - by book id
+export type SearchSnippets = Record<string, string | null>;
+
+// Fetch one page of the current user's books in the chosen order. Pass the returned
+// nextCursor back in to get the following page; it's null on the last page. With search
+// text the page comes with each book's snippet.
+export async function fetchBooks(
+    options: FetchBooksOptions = {}
+): Promise<{ data: Book[] | null; nextCursor: BookCursor | null; snippets: SearchSnippets; error: any }> {
+    const { cursor = null, pageSize = BOOKS_PAGE_SIZE, sort } = options;
+
     try {
+        // The page is worked out by library_page, which sorts and picks up after the cursor's book.
+        // It asks for one extra row to find out whether there's another page.
+        const { data: rows, error: pageError } = await supabase.rpc('library_page', {
+            sort_key: sort?.key ?? null,
+            sort_direction: sort?.direction ?? 'desc',
+            after_id: cursor?.id ?? null,
+            page_size: pageSize + 1,
+            ...toFilterArgs(options),
+        });
+
+        if (pageError) {
+            console.error('Database error fetching books:', pageError);
+            return { data: null, nextCursor: null, snippets: {}, error: pageError };
+        }
+
+        const pageRows: { book_id: string; snippet: string | null }[] = (rows || []).slice(0, pageSize);
+        const ids = pageRows.map(row => row.book_id);
+        const snippets = Object.fromEntries(pageRows.map(row => [row.book_id, row.snippet]));
+        if (ids.length === 0) {
+            return { data: [], nextCursor: null, snippets, error: null };
+        }
+
         const { data, error } = await supabase
             .from('books')
-            .select('*')
-            .order('created_at', { ascending: false });
+            .select(BOOK_SELECT)
+            .in('id', ids);
 
         if (error) {
             console.error('Database error fetching books:', error);
-            return { data: null, error };
+            return { data: null, nextCursor: null, snippets: {}, error };
         }
 
-        return { data, error: null };
+        const booksById = new Map(data.map((row: any) => [row.id, normalizeBook(row)]));
+        const page = ids.map((id: string) => booksById.get(id)).filter(Boolean) as Book[];
+        const last = page[page.length - 1];
+        const nextCursor = rows.length > pageSize && last ? { created_at: last.created_at, id: last.id } : null;
+
+        return { data: page, nextCursor, snippets, error: null };
     } catch (error) {
         console.error('Unexpected error fetching books:', error);
+        return { data: null, nextCursor: null, snippets: {}, error };
+    }
+}
+
+// Fetch the whole library, or everything some filters match, page by page - for exports, which
+// can't stop at what's been loaded
+export async function fetchAllBooks(options: FetchBooksOptions = {}): Promise<{ data: Book[] | null; error: any }> {
+    const books: Book[] = [];
+    let cursor: BookCursor | null = null;
+
+    do {
+        const { data, nextCursor, error } = await fetchBooks({ ...options, cursor, pageSize: 200 });
+        if (error || !data) return { data: null, error };
+
+        books.push(...data);
+        cursor = nextCursor;
+    } while (cursor);
+
+    return { data: books, error: null };
+}
+
+// How many books in the whole library a smart shelf's filters match, counted in the database
+export async function countBooks(filters: SmartShelfFilters): Promise<{ data: number | null; error: any }> {
+    const query = parseQuery(filters.query);
+    const options: FetchBooksOptions = {
+        category: filters.category,
+        status: filters.status,
+        shelfId: filters.shelf_id,
+        tags: filters.tags,
+        tagMatchMode: filters.tag_match_mode,
+        minRating: filters.min_rating,
+        search: query.text,
+        queryFilters: query.filters,
+    };
+
+    try {
+        // Only the total is wanted, so one row is enough
+        const { count, error } = await supabase
+            .rpc('library_page', { page_size: null, ...toFilterArgs(options) }, { count: 'exact' })
+            .limit(1);
+
+        if (error) {
+            console.error('Database error counting books:', error);
+            return { data: null, error };
+        }
+
+        return { data: count ?? 0, error: null };
+    } catch (error) {
+        console.error('Unexpected error counting books:', error);
+        return { data: null, error };
+    }
+}
+
+// How many rows scanTable reads at a time - the most the API returns in one response
+const SCAN_SIZE = 1000;
+
+interface ScanOptions {
+    narrow?: (query: any) => any;   // adds filters to the query
+    orderBy?: string;
+    ascending?: boolean;
+}
+
+// Read every matching row of a table, SCAN_SIZE at a time. A single select stops at the API's row
+// limit without an error, so anything that has to see every row reads it this way. Rows come back
+// in the order asked for, with the id breaking ties so pages don't overlap.
+async function scanTable<T>(table: string, columns: string, options: ScanOptions = {}): Promise<{ data: T[] | null; error: any }> {
+    const { narrow = (query: any) => query, orderBy = 'id', ascending = true } = options;
+    const rows: T[] = [];
+
+    try {
+        for (let from = 0; ; from += SCAN_SIZE) {
+            let query = narrow(supabase.from(table).select(columns)).order(orderBy, { ascending });
+            if (orderBy !== 'id') {
+                query = query.order('id', { ascending });
+            }
+
+            const { data, error } = await query.range(from, from + SCAN_SIZE - 1);
+
+            if (error) {
+                console.error(`Database error reading ${table}:`, error);
+                return { data: null, error };
+            }
+
+            rows.push(...data);
+            if (data.length < SCAN_SIZE) break;
+        }
+
+        return { data: rows, error: null };
+    } catch (error) {
+        console.error(`Unexpected error reading ${table}:`, error);
+        return { data: null, error };
+    }
+}
+
+// Read some columns of every book not in the trash, for lookups that have to see the whole
+// library rather than the pages loaded so far. narrow can add filters to the query.
+function scanBooks<T>(columns: string, narrow = (query: any) => query): Promise<{ data: T[] | null; error: any }> {
+    return scanTable<T>('books', columns, { narrow: query => narrow(query.is('deleted_at', null)) });
+}
+
+// Every book in a series, so series and their gaps can be shown whole
+export async function fetchSeriesBooks(): Promise<{ data: Book[] | null; error: any }> {
+    const { data, error } = await scanBooks(BOOK_SELECT, query => query.not('series_name', 'is', null));
+    return { data: data && data.map(normalizeBook), error };
+}
+
+// The ISBNs of every book, to warn about adding a book that's already in the library
+export async function fetchIsbns(): Promise<{ data: Pick<Book, 'id' | 'title' | 'isbn_10' | 'isbn_13'>[] | null; error: any }> {
+    return scanBooks('id, title, isbn_10, isbn_13', query => query.or('isbn_10.not.is.null,isbn_13.not.is.null'));
+}
+
+// Fetch a single book, or null if it doesn't exist or is in the trash
+export async function fetchBook(bookId: string): Promise<{ data: Book | null; error: any }> {
+    try {
+        const { data, error } = await supabase
+            .from('books')
+            .select(BOOK_SELECT)
+            .eq('id', bookId)
+            .is('deleted_at', null)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Database error fetching book:', error);
+            return { data: null, error };
+        }
+
+        return { data: data ? normalizeBook(data) : null, error: null };
+    } catch (error) {
+        console.error('Unexpected error fetching book:', error);
+        return { data: null, error };
+    }
+}
+
+export interface AdjacentBooks {
+    previous: { id: string; title: string } | null;   // the newer neighbour
+    next: { id: string; title: string } | null;       // the older neighbour
+}
+
+// The books either side of one in the default library order (newest first)
+export async function fetchAdjacentBooks(book: BookCursor): Promise<{ data: AdjacentBooks | null; error: any }> {
+    try {
+        const createdAt = `"${book.created_at}"`;
+        const [newer, older] = await Promise.all([
+            supabase
+                .from('books')
+                .select('id, title')
+                .is('deleted_at', null)
+                .or(`created_at.gt.${createdAt},and(created_at.eq.${createdAt},id.gt."${book.id}")`)
+                .order('created_at', { ascending: true })
+                .order('id', { ascending: true })
+                .limit(1),
+            supabase
+                .from('books')
+                .select('id, title')
+                .is('deleted_at', null)
+                .or(`created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt."${book.id}")`)
+                .order('created_at', { ascending: false })
+                .order('id', { ascending: false })
+                .limit(1)
+        ]);
+
+        const error = newer.error || older.error;
+        if (error) {
+            console.error('Database error fetching adjacent books:', error);
+            return { data: null, error };
+        }
+
+        return { data: { previous: newer.data[0] || null, next: older.data[0] || null }, error: null };
+    } catch (error) {
+        console.error('Unexpected error fetching adjacent books:', error);
+        return { data: null, error };
+    }
+}
+
+// Counts for the header and category chips, taken across the whole library rather than the loaded pages
+export interface LibraryStats {
+    total: number;
+    reading: number;
+    finished: number;              // counts each re-read
+    averageProgress: number;
+    categories: Record<string, number>;
+}
+
+export async function fetchLibraryStats(): Promise<{ data: LibraryStats | null; error: any }> {
+    try {
+        const { data, error } = await scanBooks<any>('id, category, reading_status, progress_percentage, reading_cycles(id)');
+
+        if (error || !data) {
+            return { data: null, error };
+        }
+
+        const stats: LibraryStats = { total: data.length, reading: 0, finished: 0, averageProgress: 0, categories: {} };
+        let progressTotal = 0;
+
+        data.forEach((book: any) => {
+            stats.categories[book.category] = (stats.categories[book.category] || 0) + 1;
+            stats.finished += getReadCount(book);
+
+            if (book.reading_status === 'reading') {
+                stats.reading++;
+                progressTotal += book.progress_percentage || 0;
+            } else if (book.reading_status === 'finished') {
+                progressTotal += 100;
+            }
+        });
+
+        stats.averageProgress = data.length > 0 ? Math.round(progressTotal / data.length) : 0;
+
+        return { data: stats, error: null };
+    } catch (error) {
+        console.error('Unexpected error fetching library stats:', error);
         return { data: null, error };
     }
 }
 
+// The row saved for a new book, with optional fields defaulted
+function toBookRow(bookData: CreateBookData, userId: string) {
+    return {
+        title: bookData.title,
+        author: bookData.author,
+        category: bookData.category,
+        cover_url: bookData.cover_url || null,
+        reading_status: bookData.reading_status,
+        progress_percentage: bookData.progress_percentage || 0,
+        page_count: bookData.page_count || null,
+        current_page: bookData.current_page || null,
+        progress_unit: bookData.progress_unit || 'pages',
+        date_started: bookData.date_started || null,
+        date_finished: bookData.date_finished || null,
+        reading_notes: bookData.reading_notes || null,
+        rating: bookData.rating || null,
+        review: bookData.review || null,
+        series_name: bookData.series_name || null,
+        series_position: bookData.series_position ?? null,
+        isbn_10: bookData.isbn_10 || null,
+        isbn_13: bookData.isbn_13 || null,
+        publisher: bookData.publisher || null,
+        published_date: bookData.published_date || null,
+        language: bookData.language || null,
+        format: bookData.format || null,
+        user_id: userId
+    };
+}
+
 // Add a new book
 export async function addBook(bookData: CreateBookData): Promise<{ data: Book | null; error: any }> {
     try {
@@ -55,24 +457,10 @@ export async function addBook(bookData: CreateBookData): Promise<{ data: Book |
             return { data: null, error: 'User not authenticated' };
         }
 
-        // Insert book with all fields including cover_url
         const { data, error } = await supabase
             .from('books')
-            .insert([
-                {
-                    title: bookData.title,
-                    author: bookData.author,
-                    category: bookData.category,
-                    cover_url: bookData.cover_url || null,
-                    reading_status: bookData.reading_status,
-                    progress_percentage: bookData.progress_percentage || 0,
-                    date_started: bookData.date_started || null,
-                    date_finished: bookData.date_finished || null,
-                    reading_notes: bookData.reading_notes || null,
-                    user_id: user.id
-                }
-            ])
-            .select()
+            .insert([toBookRow(bookData, user.id)])
+            .select(BOOK_SELECT)
             .single();
 
         if (error) {
@@ -80,21 +468,109 @@ export async function addBook(bookData: CreateBookData): Promise<{ data: Book |
             return { data: null, error };
         }
 
-        return { data, error: null };
+        return { data: normalizeBook(data), error: null };
     } catch (error) {
         console.error('Unexpected error adding book:', error);
         return { data: null, error };
     }
 }
 
-// Update an existing book
+// Books are imported this many at a time
+export const IMPORT_BATCH_SIZE = 50;
+
+// Save the books from an import file in batches. A batch the database rejects is retried
+// one book at a time so only the bad rows fail. Tags, authors and the first read are saved
+// for each new book after its batch. Returns what happened to every row.
+export async function importBooks(
+    rows: ImportedBook[],
+    onProgress?: (done: number, total: number) => void
+): Promise<{ data: ImportResult[] | null; error: any }> {
+    try {
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return { data: null, error: 'User not authenticated' };
+        }
+
+        const results: ImportResult[] = [];
+
+        for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+            const batch = rows.slice(start, start + IMPORT_BATCH_SIZE);
+            const { data, error } = await supabase
+                .from('books')
+                .insert(batch.map(row => toBookRow(row.book, user.id)))
+                .select(BOOK_SELECT);
+
+            let saved: (Book | null)[];
+            const errors: (string | null)[] = batch.map(() => null);
+
+            if (!error && data.length === batch.length) {
+                saved = data.map(normalizeBook);
+            } else {
+                console.error('Database error importing batch, retrying one by one:', error);
+                saved = [];
+                for (const [index, row] of batch.entries()) {
+                    const { data: book, error: rowError } = await addBook(row.book);
+                    errors[index] = rowError ? rowError.message || String(rowError) : null;
+                    saved.push(book);
+                }
+            }
+
+            for (const [index, row] of batch.entries()) {
+                const book = saved[index];
+
+                if (!book) {
+                    results.push({ row: row.row, title: row.book.title, book: null, error: errors[index] || 'Not saved' });
+                    continue;
+                }
+
+                // The book itself is saved, so failures from here on are logged rather than returned
+                const { data: tags, error: tagError } = await setBookTags(book.id, row.tags);
+                if (tagError) console.error('Database error saving imported tags:', tagError);
+
+                const { data: linked, error: authorError } = await setBookAuthors(book.id, book.author);
+                if (authorError) console.error('Database error saving imported authors:', authorError);
+
+                const { data: cycles, error: cycleError } = await syncReadingCycle(book);
+                if (cycleError) console.error('Database error saving imported read:', cycleError);
+
+                results.push({
+                    row: row.row,
+                    title: book.title,
+                    book: { ...book, ...linked, tags: tags || [], reading_cycles: cycles || [] },
+                    error: null
+                });
+            }
+
+            onProgress?.(Math.min(start + IMPORT_BATCH_SIZE, rows.length), rows.length);
+        }
+
+        return { data: results, error: null };
+    } catch (error) {
+        console.error('Unexpected error importing books:', error);
+        return { data: null, error };
+    }
+}
+
+// Update an existing book. Every changed field is recorded in the book's history.
 export async function updateBook(bookId: string, updates: UpdateBookData): Promise<{ data: Book | null; error: any }> {
     try {
+        const { data: before, error: fetchError } = await supabase
+            .from('books')
+            .select('*')
+            .eq('id', bookId)
+            .single();
+
+        if (fetchError) {
+            console.error('Database error fetching book before update:', fetchError);
+            return { data: null, error: fetchError };
+        }
+
         const { data, error } = await supabase
             .from('books')
             .update(updates)
             .eq('id', bookId)
-            .select()
+            .select(BOOK_SELECT)
             .single();
 
         if (error) {
@@ -102,15 +578,87 @@ export async function updateBook(bookId: string, updates: UpdateBookData): Promi
             return { data: null, error };
         }
 
-        return { data, error: null };
+        // The edit itself is saved, so a failure here is logged rather than returned
+        const changes = diffBookFields(before, updates);
+        if (Object.keys(changes).length > 0) {
+            await recordBookChange(bookId, changes);
+        }
+
+        return { data: normalizeBook(data), error: null };
     } catch (error) {
         console.error('Unexpected error updating book:', error);
         return { data: null, error };
     }
 }
 
-// Delete a book
+// Books stay in the trash this long before they're purged for good
+export const TRASH_RETENTION_DAYS = 30;
+
+// Move a book to the trash. It can be restored until it's purged.
 export async function deleteBook(bookId: string): Promise<{ error: any }> {
+    try {
+        const { error } = await supabase
+            .from('books')
+            .update({ deleted_at: new Date().toISOString() })
+            .eq('id', bookId);
+
+        if (error) {
+            console.error('Database error moving book to trash:', error);
+            return { error };
+        }
+
+        return { error: null };
+    } catch (error) {
+        console.error('Unexpected error moving book to trash:', error);
+        return { error };
+    }
+}
+
+// Fetch the books in the trash, most recently deleted first
+export async function fetchTrash(): Promise<{ data: Book[] | null; error: any }> {
+    try {
+        const { data, error } = await supabase
+            .from('books')
+            .select(BOOK_SELECT)
+            .not('deleted_at', 'is', null)
+            .order('deleted_at', { ascending: false });
+
+        if (error) {
+            console.error('Database error fetching trash:', error);
+            return { data: null, error };
+        }
+
+        return { data: data.map(normalizeBook), error: null };
+    } catch (error) {
+        console.error('Unexpected error fetching trash:', error);
+        return { data: null, error };
+    }
+}
+
+// Take a book back out of the trash
+export async function restoreBook(bookId: string): Promise<{ data: Book | null; error: any }> {
+    try {
+        const { data, error } = await supabase
+            .from('books')
+            .update({ deleted_at: null })
+            .eq('id', bookId)
+            .select(BOOK_SELECT)
+            .single();
+
+        if (error) {
+            console.error('Database error restoring book:', error);
+            return { data: null, error };
+        }
+
+        return { data: normalizeBook(data), error: null };
+    } catch (error) {
+        console.error('Unexpected error restoring book:', error);
+        return { data: null, error };
+    }
+}
+
+// Delete a book for good, along with its uploaded cover
+export async function purgeBook(bookId: string): Promise<{ error: any }> {
     try {
         // First, get the book to check if it has a cover image
         const { data: book } = await supabase
@@ -142,6 +690,36 @@ export async function deleteBook(bookId: string): Promise<{ error: any }> {
     }
 }
 
+// Purge everything that has been in the trash longer than TRASH_RETENTION_DAYS.
+// Returns the ids of the purged books.
+export async function purgeExpiredTrash(): Promise<{ data: string[] | null; error: any }> {
+    try {
+        const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+        const { data, error } = await supabase
+            .from('books')
+            .select('id')
+            .lt('deleted_at', cutoff);
+
+        if (error) {
+            console.error('Database error finding expired trash:', error);
+            return { data: null, error };
+        }
+
+        const purged: string[] = [];
+        for (const { id } of data) {
+            const { error: purgeError } = await purgeBook(id);
+            if (purgeError) return { data: purged, error: purgeError };
+            purged.push(id);
+        }
+
+        return { data: purged, error: null };
+    } catch (error) {
+        console.error('Unexpected error purging expired trash:', error);
+        return { data: null, error };
+    }
+}
+
 // Delete book cover from storage
 export async function deleteBookCover(imageUrl: string): Promise<{ error: any }> {
     try {
@@ -169,51 +747,296 @@ export async function deleteBookCover(imageUrl: string): Promise<{ error: any }>
 }
 
 // Update book progress (useful for reading tracking)
+// Takes the current page (or location/minute) and derives the percentage from the book's length.
+// Every change is also kept as a reading session so the history is never overwritten.
 export async function updateBookProgress(
     bookId: string,
-    progressPercentage: number,
-    dateStarted?: string | null
+    currentPage: number,
+    dateStarted?: string | null,
+    sessionDetails: ReadingSessionDetails = {}
 ): Promise<{ data: Book | null; error: any }> {
     try {
+        const { data: book, error: fetchError } = await supabase
+            .from('books')
+            .select('page_count, current_page, reading_status, date_started, rating, reading_notes')
+            .eq('id', bookId)
+            .single();
+
+        if (fetchError) {
+            console.error('Database error fetching book length:', fetchError);
+            return { data: null, error: fetchError };
+        }
+
+        const pageCount: number | null = book?.page_count ?? null;
         const updates: UpdateBookData = {
-            progress_percentage: progressPercentage,
+            current_page: currentPage,
+            progress_percentage: calculateProgressPercentage(currentPage, pageCount),
         };
 
         // If starting to read, set date and status
-        if (progressPercentage > 0 && dateStarted) {
+        if (currentPage > 0 && dateStarted) {
             updates.date_started = dateStarted;
             updates.reading_status = 'reading';
         }
 
         // If finished reading, set date and status
-        if (progressPercentage >= 100) {
+        if (pageCount && currentPage >= pageCount) {
             updates.reading_status = 'finished';
             updates.date_finished = new Date().toISOString().split('T')[0];
+            updates.current_page = pageCount;
             updates.progress_percentage = 100;
         }
 
-        return await updateBook(bookId, updates);
+        const result = await updateBook(bookId, updates);
+
+        if (result.error) {
+            return result;
+        }
+
+        // Only recorded once the progress is saved, so a failed update leaves no session behind
+        const now = new Date().toISOString();
+        const { error: sessionError } = await addReadingSession({
+            book_id: bookId,
+            started_at: sessionDetails.started_at || now,
+            ended_at: sessionDetails.ended_at === undefined ? now : sessionDetails.ended_at,
+            from_page: book?.current_page ?? 0,
+            to_page: updates.current_page as number,
+            note: sessionDetails.note || null,
+        });
+
+        if (sessionError) {
+            return { data: null, error: sessionError };
+        }
+
+        // Finishing the book closes this read as its own cycle, so a re-read doesn't lose the earlier dates
+        if (result.data && updates.reading_status === 'finished' && book?.reading_status !== 'finished') {
+            const { data: cycle, error: cycleError } = await addReadingCycle({
+                book_id: bookId,
+                date_started: updates.date_started || book?.date_started || null,
+                date_finished: updates.date_finished as string,
+                rating: book?.rating ?? null,
+                notes: book?.reading_notes || null,
+            });
+
+            if (cycleError) {
+                return { data: null, error: cycleError };
+            }
+
+            result.data.reading_cycles = [...(result.data.reading_cycles || []), cycle as ReadingCycle];
+        }
+
+        return result;
     } catch (error) {
         console.error('Error updating book progress:', error);
         return { data: null, error };
     }
 }
 
-// Get books by status (useful for filtering)
-export async function getBooksByStatus(status: 'to-read' | 'reading' | 'finished'): Promise<{ data: Book[] | null; error: any }> {
+// Fetch the reading session history for a book, or for the whole library when no book is given, oldest first
+export async function fetchReadingSessions(bookId?: string): Promise<{ data: ReadingSession[] | null; error: any }> {
+    return scanTable<ReadingSession>('reading_sessions', '*', {
+        narrow: query => bookId ? query.eq('book_id', bookId) : query,
+        orderBy: 'started_at'
+    });
+}
+
+// Record a reading session
+export async function addReadingSession(sessionData: CreateReadingSessionData): Promise<{ data: ReadingSession | null; error: any }> {
     try {
-        const { data, error } = await supabase
-            .from('books')
-            .select('*')
-            .eq('reading_status', status)
-            .order('created_at', { ascending: false });
+        const { data: { user } } = await supabase.auth.getUser();
 
-        if (error) {
-            console.error('Database error fetching books by status:', error);
-            return { data: null, error };
+        if (!user) {
+            return { data: null, error: 'User not authenticated' };
+        }
+
+        const { data, error } = await supabase
+            .from('reading_sessions')
+            .insert([
+                {
+                    book_id: sessionData.book_id,
+                    started_at: sessionData.started_at,
+                    ended_at: sessionData.ended_at || null,
+                    from_page: sessionData.from_page ?? null,
+                    to_page: sessionData.to_page,
+                    note: sessionData.note || null,
+                    user_id: user.id
+                }
+            ])
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Database error adding reading session:', error);
+            return { data: null, error };
+        }
+
+        return { data, error: null };
+    } catch (error) {
+        console.error('Unexpected error adding reading session:', error);
+        return { data: null, error };
+    }
+}
+
+// Delete a reading session
+export async function deleteReadingSession(sessionId: string): Promise<{ error: any }> {
+    try {
+        const { error } = await supabase
+            .from('reading_sessions')
+            .delete()
+            .eq('id', sessionId);
+
+        if (error) {
+            console.error('Database error deleting reading session:', error);
+            return { error };
+        }
+
+        return { error: null };
+    } catch (error) {
+        console.error('Unexpected error deleting reading session:', error);
+        return { error };
+    }
+}
+
+// Record a finished read of a book
+export async function addReadingCycle(cycleData: CreateReadingCycleData): Promise<{ data: ReadingCycle | null; error: any }> {
+    try {
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return { data: null, error: 'User not authenticated' };
+        }
+
+        const { data, error } = await supabase
+            .from('reading_cycles')
+            .insert([
+                {
+                    book_id: cycleData.book_id,
+                    date_started: cycleData.date_started || null,
+                    date_finished: cycleData.date_finished,
+                    rating: cycleData.rating ?? null,
+                    notes: cycleData.notes || null,
+                    user_id: user.id
+                }
+            ])
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Database error adding reading cycle:', error);
+            return { data: null, error };
+        }
+
+        return { data, error: null };
+    } catch (error) {
+        console.error('Unexpected error adding reading cycle:', error);
+        return { data: null, error };
+    }
+}
+
+// Update the dates, rating or notes of a finished read
+export async function updateReadingCycle(
+    cycleId: string,
+    updates: Partial<Omit<CreateReadingCycleData, 'book_id'>>
+): Promise<{ data: ReadingCycle | null; error: any }> {
+    try {
+        const { data, error } = await supabase
+            .from('reading_cycles')
+            .update(updates)
+            .eq('id', cycleId)
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Database error updating reading cycle:', error);
+            return { data: null, error };
         }
 
         return { data, error: null };
+    } catch (error) {
+        console.error('Unexpected error updating reading cycle:', error);
+        return { data: null, error };
+    }
+}
+
+// Delete a finished read, e.g. one that was logged by mistake
+export async function deleteReadingCycle(cycleId: string): Promise<{ error: any }> {
+    try {
+        const { error } = await supabase
+            .from('reading_cycles')
+            .delete()
+            .eq('id', cycleId);
+
+        if (error) {
+            console.error('Database error deleting reading cycle:', error);
+            return { error };
+        }
+
+        return { error: null };
+    } catch (error) {
+        console.error('Unexpected error deleting reading cycle:', error);
+        return { error };
+    }
+}
+
+// Keep a book's reads in step after it's saved, given how it was before. Finishing a book that
+// wasn't finished starts a new cycle; editing a book that was already finished updates its latest cycle.
+export async function syncReadingCycle(book: Book, previous?: Book | null): Promise<{ data: ReadingCycle[] | null; error: any }> {
+    const cycles = book.reading_cycles || [];
+    const wasFinished = previous?.reading_status === 'finished';
+
+    // Starting a re-read of a book finished before reads were kept as cycles - save the
+    // finished read first so it isn't lost (backend/prisma/sql/backfill_reading_cycles.sql does this for the rest)
+    if (wasFinished && cycles.length === 0 && previous?.date_finished && book.reading_status !== 'finished') {
+        const { data, error } = await addReadingCycle({
+            book_id: book.id,
+            date_started: previous.date_started || null,
+            date_finished: previous.date_finished,
+            rating: previous.rating ?? null,
+            notes: previous.reading_notes || null,
+        });
+        if (error || !data) return { data: null, error };
+        return { data: [data], error: null };
+    }
+
+    if (book.reading_status !== 'finished' || !book.date_finished) {
+        return { data: cycles, error: null };
+    }
+
+    const details = {
+        date_started: book.date_started || null,
+        date_finished: book.date_finished,
+        rating: book.rating ?? null,
+        notes: book.reading_notes || null,
+    };
+    const latest = cycles[cycles.length - 1];
+
+    if (wasFinished && latest) {
+        const { data, error } = await updateReadingCycle(latest.id, details);
+        if (error || !data) return { data: null, error };
+        return { data: [...cycles.slice(0, -1), data], error: null };
+    }
+
+    const { data, error } = await addReadingCycle({ book_id: book.id, ...details });
+    if (error || !data) return { data: null, error };
+    return { data: [...cycles, data], error: null };
+}
+
+// Get books by status (useful for filtering)
+export async function getBooksByStatus(status: 'to-read' | 'reading' | 'finished'): Promise<{ data: Book[] | null; error: any }> {
+    try {
+        const { data, error } = await supabase
+            .from('books')
+            .select(BOOK_SELECT)
+            .is('deleted_at', null)
+            .eq('reading_status', status)
+            .order('created_at', { ascending: false });
+
+        if (error) {
+            console.error('Database error fetching books by status:', error);
+            return { data: null, error };
+        }
+
+        return { data: data.map(normalizeBook), error: null };
     } catch (error) {
         console.error('Unexpected error fetching books by status:', error);
         return { data: null, error };
@@ -225,7 +1048,8 @@ export async function getBooksByCategory(category: string): Promise<{ data: Book
     try {
         const { data, error } = await supabase
             .from('books')
-            .select('*')
+            .select(BOOK_SELECT)
+            .is('deleted_at', null)
             .eq('category', category)
             .order('created_at', { ascending: false });
 
@@ -234,30 +1058,718 @@ export async function getBooksByCategory(category: string): Promise<{ data: Book
             return { data: null, error };
         }
 
-        return { data, error: null };
+        return { data: data.map(normalizeBook), error: null };
     } catch (error) {
         console.error('Unexpected error fetching books by category:', error);
         return { data: null, error };
     }
 }
 
-// Search books by title or author
-export async function searchBooks(query: string): Promise<{ data: Book[] | null; error: any }> {
+// Fetch every book by one author, from the slug on their author page: books linked to an author
+// record whose name or an alias has the slug, and books not linked yet whose author string names
+// them. Author strings are matched here rather than in the database, so accented names
+// ("García Márquez") and inverted ones ("Orwell, George") still match their slug.
+export async function fetchBooksByAuthor(slug: string): Promise<{ data: Book[] | null; error: any }> {
     try {
+        const { data: authors, error: authorError } = await supabase
+            .from('authors')
+            .select('name, aliases, book_authors(book_id)');
+
+        if (authorError) {
+            console.error('Database error fetching authors:', authorError);
+            return { data: null, error: authorError };
+        }
+
+        const author = authors.find(author =>
+            [author.name, ...(author.aliases || [])].some(name => authorSlug(name) === slug));
+        const bookIds = new Set<string>((author?.book_authors || []).map((link: { book_id: string }) => link.book_id));
+
+        const { data: rows, error: scanError } = await scanBooks<Pick<Book, 'id' | 'author'>>('id, author');
+        if (scanError || !rows) {
+            return { data: null, error: scanError };
+        }
+        rows.filter(row => hasAuthor(row, slug)).forEach(row => bookIds.add(row.id));
+
+        if (bookIds.size === 0) {
+            return { data: [], error: null };
+        }
+
         const { data, error } = await supabase
             .from('books')
-            .select('*')
-            .or(`title.ilike.%${query}%,author.ilike.%${query}%`)
+            .select(BOOK_SELECT)
+            .is('deleted_at', null)
+            .in('id', Array.from(bookIds))
             .order('created_at', { ascending: false });
 
         if (error) {
-            console.error('Database error searching books:', error);
+            console.error('Database error fetching books by author:', error);
+            return { data: null, error };
+        }
+
+        return { data: data.map(normalizeBook), error: null };
+    } catch (error) {
+        console.error('Unexpected error fetching books by author:', error);
+        return { data: null, error };
+    }
+}
+
+// Fetch every tag the current user has created
+export async function fetchTags(): Promise<{ data: Tag[] | null; error: any }> {
+    try {
+        const { data, error } = await supabase
+            .from('tags')
+            .select('*')
+            .order('name', { ascending: true });
+
+        if (error) {
+            console.error('Database error fetching tags:', error);
+            return { data: null, error };
+        }
+
+        return { data, error: null };
+    } catch (error) {
+        console.error('Unexpected error fetching tags:', error);
+        return { data: null, error };
+    }
+}
+
+// How many books in the whole library have each tag, from the tag_counts function in
+// backend/prisma/sql/tag_counts.sql. Tags on no books are left out.
+export async function fetchTagCounts(): Promise<{ data: Record<string, number> | null; error: any }> {
+    try {
+        const { data, error } = await supabase.rpc('tag_counts');
+
+        if (error) {
+            console.error('Database error counting tags:', error);
+            return { data: null, error };
+        }
+
+        return {
+            data: Object.fromEntries((data || []).map((row: { name: string; book_count: number }) => [row.name, row.book_count])),
+            error: null
+        };
+    } catch (error) {
+        console.error('Unexpected error counting tags:', error);
+        return { data: null, error };
+    }
+}
+
+// Replace a book's tags, creating any tags that don't exist yet. Runs the set_book_tags function
+// from backend/prisma/sql/set_book_tags.sql, so the book keeps its old tags if anything fails.
+export async function setBookTags(bookId: string, tagNames: string[]): Promise<{ data: string[] | null; error: any }> {
+    try {
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return { data: null, error: 'User not authenticated' };
+        }
+
+        // Trim and drop case-insensitive duplicates, keeping the first spelling
+        const names = tagNames
+            .map(name => name.trim())
+            .filter((name, index, all) =>
+                name && all.findIndex(other => other.toLowerCase() === name.toLowerCase()) === index
+            );
+
+        const { error } = await supabase.rpc('set_book_tags', {
+            target_book_id: bookId,
+            tag_names: names
+        });
+
+        if (error) {
+            console.error('Database error setting book tags:', error);
+            return { data: null, error };
+        }
+
+        return { data: names, error: null };
+    } catch (error) {
+        console.error('Unexpected error setting book tags:', error);
+        return { data: null, error };
+    }
+}
+
+// Every author the current user has, with how many books each is linked to
+export async function fetchAuthors(): Promise<{ data: Author[] | null; error: any }> {
+    const { data, error } = await scanTable<any>('authors', '*, book_authors(book_id)', { orderBy: 'sort_name' });
+
+    return {
+        data: data && data.map(({ book_authors, ...author }) => ({ ...author, aliases: author.aliases || [], book_count: (book_authors || []).length })),
+        error
+    };
+}
+
+// Link a book to the authors named in its author string, creating author records as needed.
+// Runs the set_book_authors function from backend/prisma/sql/set_book_authors.sql, which also
+// rewrites the string from the records - so a spelling merged into another author picks up that
+// author's name - and records the change in the book's history, all in one transaction. Returns
+// the new author string along with the linked authors.
+export async function setBookAuthors(
+    bookId: string,
+    author: string
+): Promise<{ data: { author: string; authors: BookAuthor[] } | null; error: any }> {
+    try {
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return { data: null, error: 'User not authenticated' };
+        }
+
+        const { data: linked, error } = await supabase.rpc('set_book_authors', {
+            target_book_id: bookId,
+            author_names: splitAuthors(author)
+        });
+
+        if (error) {
+            console.error('Database error setting book authors:', error);
+            return { data: null, error };
+        }
+
+        const authors: BookAuthor[] = (linked || []).map(({ id, name, sort_name }: BookAuthor) => ({ id, name, sort_name }));
+        const canonical = authors.length > 0 ? formatAuthors(authors.map(author => author.name)) : author;
+
+        return { data: { author: canonical, authors }, error: null };
+    } catch (error) {
+        console.error('Unexpected error setting book authors:', error);
+        return { data: null, error };
+    }
+}
+
+// Change how an author is filed
+export async function updateAuthor(
+    authorId: string,
+    updates: { sort_name: string }
+): Promise<{ data: Author | null; error: any }> {
+    try {
+        const { data, error } = await supabase
+            .from('authors')
+            .update(updates)
+            .eq('id', authorId)
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Database error updating author:', error);
             return { data: null, error };
         }
 
         return { data, error: null };
     } catch (error) {
-        console.error('Unexpected error searching books:', error);
+        console.error('Unexpected error updating author:', error);
+        return { data: null, error };
+    }
+}
+
+// Merge duplicate authors into one. Runs the merge_authors function from
+// backend/prisma/sql/merge_authors.sql, which relinks their books to the target, keeps their names
+// as aliases of it and rewrites each affected book's author string, recording the change in the
+// book's history - all in one transaction. Returns the affected books.
+export async function mergeAuthors(targetId: string, sourceIds: string[]): Promise<{ data: Book[] | null; error: any }> {
+    try {
+        const { data: bookIds, error: mergeError } = await supabase.rpc('merge_authors', {
+            target_author_id: targetId,
+            source_author_ids: sourceIds
+        });
+
+        if (mergeError) {
+            console.error('Database error merging authors:', mergeError);
+            return { data: null, error: mergeError };
+        }
+
+        if (!bookIds || bookIds.length === 0) {
+            return { data: [], error: null };
+        }
+
+        const { data, error } = await supabase
+            .from('books')
+            .select(BOOK_SELECT)
+            .in('id', bookIds);
+
+        if (error) {
+            console.error('Database error fetching merged books:', error);
+            return { data: null, error };
+        }
+
+        return { data: data.map(normalizeBook), error: null };
+    } catch (error) {
+        console.error('Unexpected error merging authors:', error);
+        return { data: null, error };
+    }
+}
+
+// Shelves are fetched with their books through the shelf_books join table
+const SHELF_SELECT = '*, shelf_books(book_id, position)';
+
+// Turn the nested shelf_books rows into an ordered list of book ids
+function withBookIds(row: any): Shelf {
+    const { shelf_books, ...shelf } = row;
+    const entries: { book_id: string; position: number }[] = shelf_books || [];
+    return {
+        ...shelf,
+        book_ids: [...entries].sort((a, b) => a.position - b.position).map(entry => entry.book_id)
+    };
+}
+
+// Fetch all shelves for the current user
+export async function fetchShelves(): Promise<{ data: Shelf[] | null; error: any }> {
+    try {
+        const { data, error } = await supabase
+            .from('shelves')
+            .select(SHELF_SELECT)
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            console.error('Database error fetching shelves:', error);
+            return { data: null, error };
+        }
+
+        return { data: data.map(withBookIds), error: null };
+    } catch (error) {
+        console.error('Unexpected error fetching shelves:', error);
         return { data: null, error };
     }
-}
\ No newline at end of file
+}
+
+// Create a new shelf
+export async function createShelf(name: string, description?: string | null): Promise<{ data: Shelf | null; error: any }> {
+    try {
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return { data: null, error: 'User not authenticated' };
+        }
+
+        const { data, error } = await supabase
+            .from('shelves')
+            .insert([
+                {
+                    name: name.trim(),
+                    description: description || null,
+                    user_id: user.id
+                }
+            ])
+            .select(SHELF_SELECT)
+            .single();
+
+        if (error) {
+            console.error('Database error creating shelf:', error);
+            return { data: null, error };
+        }
+
+        return { data: withBookIds(data), error: null };
+    } catch (error) {
+        console.error('Unexpected error creating shelf:', error);
+        return { data: null, error };
+    }
+}
+
+// Rename a shelf or change its description
+export async function updateShelf(
+    shelfId: string,
+    updates: { name?: string; description?: string | null }
+): Promise<{ data: Shelf | null; error: any }> {
+    try {
+        const { data, error } = await supabase
+            .from('shelves')
+            .update(updates)
+            .eq('id', shelfId)
+            .select(SHELF_SELECT)
+            .single();
+
+        if (error) {
+            console.error('Database error updating shelf:', error);
+            return { data: null, error };
+        }
+
+        return { data: withBookIds(data), error: null };
+    } catch (error) {
+        console.error('Unexpected error updating shelf:', error);
+        return { data: null, error };
+    }
+}
+
+// Delete a shelf (the books themselves are kept)
+export async function deleteShelf(shelfId: string): Promise<{ error: any }> {
+    try {
+        const { error } = await supabase
+            .from('shelves')
+            .delete()
+            .eq('id', shelfId);
+
+        if (error) {
+            console.error('Database error deleting shelf:', error);
+            return { error };
+        }
+
+        return { error: null };
+    } catch (error) {
+        console.error('Unexpected error deleting shelf:', error);
+        return { error };
+    }
+}
+
+// Put a book at the end of a shelf
+export async function addBookToShelf(shelfId: string, bookId: string): Promise<{ error: any }> {
+    try {
+        const { data: last, error: positionError } = await supabase
+            .from('shelf_books')
+            .select('position')
+            .eq('shelf_id', shelfId)
+            .order('position', { ascending: false })
+            .limit(1);
+
+        if (positionError) {
+            console.error('Database error reading shelf order:', positionError);
+            return { error: positionError };
+        }
+
+        const { error } = await supabase
+            .from('shelf_books')
+            .insert([
+                {
+                    shelf_id: shelfId,
+                    book_id: bookId,
+                    position: last && last.length > 0 ? last[0].position + 1 : 0
+                }
+            ]);
+
+        if (error) {
+            console.error('Database error adding book to shelf:', error);
+            return { error };
+        }
+
+        return { error: null };
+    } catch (error) {
+        console.error('Unexpected error adding book to shelf:', error);
+        return { error };
+    }
+}
+
+// Take a book off a shelf
+export async function removeBookFromShelf(shelfId: string, bookId: string): Promise<{ error: any }> {
+    try {
+        const { error } = await supabase
+            .from('shelf_books')
+            .delete()
+            .eq('shelf_id', shelfId)
+            .eq('book_id', bookId);
+
+        if (error) {
+            console.error('Database error removing book from shelf:', error);
+            return { error };
+        }
+
+        return { error: null };
+    } catch (error) {
+        console.error('Unexpected error removing book from shelf:', error);
+        return { error };
+    }
+}
+
+// Save a shelf's manual order - bookIds is the full list in its new order
+export async function reorderShelfBooks(shelfId: string, bookIds: string[]): Promise<{ error: any }> {
+    try {
+        const { error } = await supabase
+            .from('shelf_books')
+            .upsert(
+                bookIds.map((bookId, position) => ({ shelf_id: shelfId, book_id: bookId, position })),
+                { onConflict: 'shelf_id,book_id' }
+            );
+
+        if (error) {
+            console.error('Database error reordering shelf:', error);
+            return { error };
+        }
+
+        return { error: null };
+    } catch (error) {
+        console.error('Unexpected error reordering shelf:', error);
+        return { error };
+    }
+}
+
+// Fetch the current user's smart shelves, oldest first
+export async function fetchSmartShelves(): Promise<{ data: SmartShelf[] | null; error: any }> {
+    try {
+        const { data, error } = await supabase
+            .from('smart_shelves')
+            .select('*')
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            console.error('Database error fetching smart shelves:', error);
+            return { data: null, error };
+        }
+
+        return { data, error: null };
+    } catch (error) {
+        console.error('Unexpected error fetching smart shelves:', error);
+        return { data: null, error };
+    }
+}
+
+// Save a combination of filters as a named smart shelf
+export async function createSmartShelf(name: string, filters: SmartShelfFilters): Promise<{ data: SmartShelf | null; error: any }> {
+    try {
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return { data: null, error: 'User not authenticated' };
+        }
+
+        const { data, error } = await supabase
+            .from('smart_shelves')
+            .insert([
+                {
+                    name: name.trim(),
+                    filters,
+                    user_id: user.id
+                }
+            ])
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Database error creating smart shelf:', error);
+            return { data: null, error };
+        }
+
+        return { data, error: null };
+    } catch (error) {
+        console.error('Unexpected error creating smart shelf:', error);
+        return { data: null, error };
+    }
+}
+
+// Rename a smart shelf or replace its filters
+export async function updateSmartShelf(
+    smartShelfId: string,
+    updates: { name?: string; filters?: SmartShelfFilters }
+): Promise<{ data: SmartShelf | null; error: any }> {
+    try {
+        const { data, error } = await supabase
+            .from('smart_shelves')
+            .update(updates)
+            .eq('id', smartShelfId)
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Database error updating smart shelf:', error);
+            return { data: null, error };
+        }
+
+        return { data, error: null };
+    } catch (error) {
+        console.error('Unexpected error updating smart shelf:', error);
+        return { data: null, error };
+    }
+}
+
+// Delete a smart shelf
+export async function deleteSmartShelf(smartShelfId: string): Promise<{ error: any }> {
+    try {
+        const { error } = await supabase
+            .from('smart_shelves')
+            .delete()
+            .eq('id', smartShelfId);
+
+        if (error) {
+            console.error('Database error deleting smart shelf:', error);
+            return { error };
+        }
+
+        return { error: null };
+    } catch (error) {
+        console.error('Unexpected error deleting smart shelf:', error);
+        return { error };
+    }
+}
+
+// Fetch every highlight for the current user, newest first
+export async function fetchHighlights(): Promise<{ data: Highlight[] | null; error: any }> {
+    return scanTable<Highlight>('highlights', '*', { orderBy: 'created_at', ascending: false });
+}
+
+// How many book ids go in one .in() filter, to keep request URLs short
+const ID_CHUNK_SIZE = 100;
+
+// Every highlight saved on some books, e.g. to skip clippings that are already saved
+export async function fetchBookHighlights(bookIds: string[]): Promise<{ data: Highlight[] | null; error: any }> {
+    const highlights: Highlight[] = [];
+
+    for (let start = 0; start < bookIds.length; start += ID_CHUNK_SIZE) {
+        const chunk = bookIds.slice(start, start + ID_CHUNK_SIZE);
+        const { data, error } = await scanTable<Highlight>('highlights', '*', {
+            narrow: query => query.in('book_id', chunk)
+        });
+        if (error || !data) return { data: null, error };
+
+        highlights.push(...data);
+    }
+
+    return { data: highlights, error: null };
+}
+
+// The row saved for a new highlight
+function toHighlightRow(highlightData: CreateHighlightData, userId: string) {
+    return {
+        book_id: highlightData.book_id,
+        kind: highlightData.kind || 'highlight',
+        text: highlightData.text,
+        location: highlightData.location ?? null,
+        note: highlightData.note || null,
+        tags: highlightData.tags || [],
+        ...(highlightData.created_at && { created_at: highlightData.created_at }),
+        user_id: userId
+    };
+}
+
+// Save a quote or passage from a book
+export async function addHighlight(highlightData: CreateHighlightData): Promise<{ data: Highlight | null; error: any }> {
+    try {
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return { data: null, error: 'User not authenticated' };
+        }
+
+        const { data, error } = await supabase
+            .from('highlights')
+            .insert([toHighlightRow(highlightData, user.id)])
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Database error adding highlight:', error);
+            return { data: null, error };
+        }
+
+        return { data, error: null };
+    } catch (error) {
+        console.error('Unexpected error adding highlight:', error);
+        return { data: null, error };
+    }
+}
+
+// Save many highlights at once, e.g. from a Kindle's clippings, in batches of IMPORT_BATCH_SIZE
+export async function importHighlights(
+    highlights: CreateHighlightData[],
+    onProgress?: (done: number, total: number) => void
+): Promise<{ data: Highlight[] | null; error: any }> {
+    try {
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return { data: null, error: 'User not authenticated' };
+        }
+
+        const saved: Highlight[] = [];
+
+        for (let start = 0; start < highlights.length; start += IMPORT_BATCH_SIZE) {
+            const { data, error } = await supabase
+                .from('highlights')
+                .insert(highlights.slice(start, start + IMPORT_BATCH_SIZE).map(highlight => toHighlightRow(highlight, user.id)))
+                .select();
+
+            if (error) {
+                console.error('Database error importing highlights:', error);
+                return { data: null, error };
+            }
+
+            saved.push(...data);
+            onProgress?.(Math.min(start + IMPORT_BATCH_SIZE, highlights.length), highlights.length);
+        }
+
+        return { data: saved, error: null };
+    } catch (error) {
+        console.error('Unexpected error importing highlights:', error);
+        return { data: null, error };
+    }
+}
+
+// Update a highlight's text, location, note or tags
+export async function updateHighlight(
+    highlightId: string,
+    updates: Partial<Omit<CreateHighlightData, 'book_id'>>
+): Promise<{ data: Highlight | null; error: any }> {
+    try {
+        const { data, error } = await supabase
+            .from('highlights')
+            .update(updates)
+            .eq('id', highlightId)
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Database error updating highlight:', error);
+            return { data: null, error };
+        }
+
+        return { data, error: null };
+    } catch (error) {
+        console.error('Unexpected error updating highlight:', error);
+        return { data: null, error };
+    }
+}
+
+// Delete a highlight
+export async function deleteHighlight(highlightId: string): Promise<{ error: any }> {
+    try {
+        const { error } = await supabase
+            .from('highlights')
+            .delete()
+            .eq('id', highlightId);
+
+        if (error) {
+            console.error('Database error deleting highlight:', error);
+            return { error };
+        }
+
+        return { error: null };
+    } catch (error) {
+        console.error('Unexpected error deleting highlight:', error);
+        return { error };
+    }
+}
+
+// Fetch a book's change history, or the whole library's when no book is given, newest first
+export async function fetchBookChanges(bookId?: string): Promise<{ data: BookChange[] | null; error: any }> {
+    return scanTable<BookChange>('book_changes', '*', {
+        narrow: query => bookId ? query.eq('book_id', bookId) : query,
+        orderBy: 'created_at',
+        ascending: false
+    });
+}
+
+// Record the fields changed by one edit
+export async function recordBookChange(bookId: string, changes: BookFieldChanges): Promise<{ data: BookChange | null; error: any }> {
+    try {
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return { data: null, error: 'User not authenticated' };
+        }
+
+        const { data, error } = await supabase
+            .from('book_changes')
+            .insert([
+                {
+                    book_id: bookId,
+                    changes,
+                    user_id: user.id
+                }
+            ])
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Database error recording book change:', error);
+            return { data: null, error };
+        }
+
+        return { data, error: null };
+    } catch (error) {
+        console.error('Unexpected error recording book change:', error);
+        return { data: null, error };
+    }
+}
@@ -0,0 +1,233 @@
+// lib/export.ts - Exporting the library to files: full backups so nothing is lost when moving
+// to another app, and reference lists for citation managers
+import type { Author, Book, BookChange, Highlight, ReadingSession, Shelf, SmartShelf } from './supabase';
+import { toCsv } from './csv';
+import { splitAuthors } from './authors';
+import { getReadCount } from './progress';
+import { toBibtex, toCslJson, toRis } from './citations';
+
+export type ExportFormat = 'json' | 'csv' | 'goodreads' | 'bibtex' | 'ris' | 'csl-json';
+
+// Which books to export: the whole library, the ones the current filters show, the ones ticked
+// in the table view, or one shelf
+export type ExportScope = 'all' | 'filtered' | 'selected' | { shelfId: string };
+
+interface ExportFormatDetails {
+    label: string;
+    description: string;
+    filename: string;
+    extension: string;
+    type: string;
+    citation: boolean;             // a reference list for citation managers rather than a library backup
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatDetails> = {
+    json: {
+        label: 'JSON',
+        description: 'Everything, including reads, reading sessions, edit history, authors, shelves and highlights. Can be read back without losing anything.',
+        filename: 'bookshelf',
+        extension: 'json',
+        type: 'application/json',
+        citation: false,
+    },
+    csv: {
+        label: 'CSV',
+        description: 'One row per book with every field, for spreadsheets.',
+        filename: 'bookshelf',
+        extension: 'csv',
+        type: 'text/csv',
+        citation: false,
+    },
+    goodreads: {
+        label: 'Goodreads CSV',
+        description: 'The columns Goodreads imports, with shelves and tags as Goodreads shelves.',
+        filename: 'bookshelf-goodreads',
+        extension: 'csv',
+        type: 'text/csv',
+        citation: false,
+    },
+    bibtex: {
+        label: 'BibTeX',
+        description: 'For LaTeX and reference managers.',
+        filename: 'bookshelf-citations',
+        extension: 'bib',
+        type: 'application/x-bibtex',
+        citation: true,
+    },
+    ris: {
+        label: 'RIS',
+        description: 'For EndNote, Zotero, Mendeley and most reference managers.',
+        filename: 'bookshelf-citations',
+        extension: 'ris',
+        type: 'application/x-research-info-systems',
+        citation: true,
+    },
+    'csl-json': {
+        label: 'CSL-JSON',
+        description: 'For Zotero, Pandoc and other citeproc-based tools.',
+        filename: 'bookshelf-citations',
+        extension: 'json',
+        type: 'application/json',
+        citation: true,
+    },
+};
+
+// Bumped whenever the JSON layout changes in a way readers need to know about
+export const EXPORT_VERSION = 1;
+
+// The JSON export - the books as stored, plus everything that hangs off them
+export interface LibraryExport {
+    version: number;
+    exported_at: string;
+    books: Book[];
+    shelves: Shelf[];
+    smart_shelves: SmartShelf[];
+    highlights: Highlight[];
+    reading_sessions: ReadingSession[];
+    book_changes: BookChange[];
+    authors: Author[];             // with their aliases and sort names, which the books only partly carry
+}
+
+export interface ExportData {
+    books: Book[];
+    shelves: Shelf[];
+    smartShelves: SmartShelf[];
+    highlights: Highlight[];
+    // Only the JSON export uses these
+    readingSessions?: ReadingSession[];
+    bookChanges?: BookChange[];
+    authors?: Author[];
+}
+
+// Every book column, in the order they appear in the flat CSV
+const BOOK_COLUMNS: (keyof Book)[] = [
+    'id', 'title', 'author', 'category', 'reading_status', 'rating', 'progress_percentage', 'current_page',
+    'page_count', 'progress_unit', 'date_started', 'date_finished', 'series_name', 'series_position',
+    'isbn_10', 'isbn_13', 'publisher', 'published_date', 'language', 'format', 'cover_url',
+    'reading_notes', 'review', 'created_at',
+];
+
+const shelfNames = (book: Book, shelves: Shelf[]) =>
+    shelves.filter(shelf => shelf.book_ids.includes(book.id)).map(shelf => shelf.name);
+
+// Only shelves, highlights, sessions, history and authors for the books being exported are included
+export function toJsonExport(
+    { books, shelves, smartShelves, highlights, readingSessions = [], bookChanges = [], authors = [] }: ExportData,
+    exportedAt = new Date()
+): string {
+    const ids = new Set(books.map(book => book.id));
+    const authorIds = new Set(books.flatMap(book => (book.authors || []).map(author => author.id)));
+    const library: LibraryExport = {
+        version: EXPORT_VERSION,
+        exported_at: exportedAt.toISOString(),
+        books,
+        shelves: shelves.map(shelf => ({ ...shelf, book_ids: shelf.book_ids.filter(id => ids.has(id)) })),
+        smart_shelves: smartShelves,
+        highlights: highlights.filter(highlight => ids.has(highlight.book_id)),
+        reading_sessions: readingSessions.filter(session => ids.has(session.book_id)),
+        book_changes: bookChanges.filter(change => ids.has(change.book_id)),
+        // The count is worked out when authors are fetched, not stored
+        authors: authors
+            .filter(author => authorIds.has(author.id))
+            .map(({ book_count, ...author }) => author),
+    };
+    return JSON.stringify(library, null, 2);
+}
+
+export function toCsvExport({ books, shelves }: ExportData): string {
+    return toCsv([
+        [...BOOK_COLUMNS, 'tags', 'shelves', 'read_count'],
+        ...books.map(book => [
+            ...BOOK_COLUMNS.map(column => book[column] as string | number | null | undefined),
+            (book.tags || []).join(', '),
+            shelfNames(book, shelves).join(', '),
+            getReadCount(book),
+        ]),
+    ]);
+}
+
+const GOODREADS_SHELVES: Record<Book['reading_status'], string> = {
+    'to-read': 'to-read',
+    'reading': 'currently-reading',
+    'finished': 'read',
+};
+
+const GOODREADS_BINDINGS: Record<NonNullable<Book['format']>, string> = {
+    hardcover: 'Hardcover',
+    paperback: 'Paperback',
+    ebook: 'Kindle Edition',
+    audiobook: 'Audiobook',
+};
+
+// Goodreads shelf names are lower case with hyphens, e.g. "Book Club" -> "book-club"
+const toShelfName = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+// Goodreads dates are YYYY/MM/DD
+const toGoodreadsDate = (date?: string | null) => date ? date.slice(0, 10).replace(/-/g, '/') : '';
+
+// Goodreads writes ISBNs as ="..." so spreadsheets keep the leading zeros
+const toGoodreadsIsbn = (isbn?: string | null) => isbn ? `="${isbn}"` : '';
+
+// The same columns as a Goodreads export, which Goodreads' own import reads back
+export function toGoodreadsCsv({ books, shelves }: ExportData): string {
+    return toCsv([
+        [
+            'Title', 'Author', 'Additional Authors', 'ISBN', 'ISBN13', 'My Rating', 'Publisher', 'Binding',
+            'Number of Pages', 'Year Published', 'Original Publication Year', 'Date Read', 'Date Added',
+            'Bookshelves', 'Exclusive Shelf', 'My Review', 'Private Notes', 'Read Count',
+        ],
+        ...books.map(book => {
+            const [author, ...additional] = splitAuthors(book.author);
+            const exclusiveShelf = GOODREADS_SHELVES[book.reading_status];
+            const bookshelves = [exclusiveShelf, ...(book.tags || []), ...shelfNames(book, shelves)]
+                .map(toShelfName)
+                .filter((shelf, index, all) => shelf && all.indexOf(shelf) === index);
+            const year = book.published_date?.slice(0, 4) || '';
+
+            return [
+                book.series_name ? `${book.title} (${book.series_name}, #${book.series_position ?? ''})` : book.title,
+                author || book.author,
+                additional.join(', '),
+                toGoodreadsIsbn(book.isbn_10),
+                toGoodreadsIsbn(book.isbn_13),
+                book.rating || 0,
+                book.publisher || '',
+                book.format ? GOODREADS_BINDINGS[book.format] : '',
+                book.page_count || '',
+                year,
+                year,
+                toGoodreadsDate(book.date_finished),
+                toGoodreadsDate(book.created_at),
+                bookshelves.join(', '),
+                exclusiveShelf,
+                book.review || '',
+                book.reading_notes || '',
+                getReadCount(book),
+            ];
+        }),
+    ]);
+}
+
+const EXPORTERS: Record<ExportFormat, (data: ExportData) => string> = {
+    json: toJsonExport,
+    csv: toCsvExport,
+    goodreads: toGoodreadsCsv,
+    bibtex: ({ books }) => toBibtex(books),
+    ris: ({ books }) => toRis(books),
+    'csl-json': ({ books }) => toCslJson(books),
+};
+
+// Build the export and hand it to the browser as a download
+export function downloadExport(format: ExportFormat, data: ExportData) {
+    const { filename, extension, type } = EXPORT_FORMATS[format];
+    const date = new Date().toISOString().slice(0, 10);
+    const url = URL.createObjectURL(new Blob([EXPORTERS[format](data)], { type }));
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${filename}-${date}.${extension}`;
+    link.click();
+
+    // Some browsers only start the download after the click handler returns
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,71 @@
+// lib/goodreads.ts - Reading the CSV from Goodreads' "Import and export" page
+import { parseCsvHeader, parseCsvRecords } from './csv';
+import { formatAuthors } from './authors';
+import {
+    normalizeImport,
+    parseImportDate,
+    parseImportFormat,
+    parseImportIsbn,
+    parseImportNumber,
+    parseImportText,
+    splitImportList,
+    type ImportedBook,
+    type ImportFormat
+} from './import';
+
+// Goodreads' three built-in shelves; every book is on exactly one of them
+const EXCLUSIVE_SHELVES: Record<string, ImportedBook['book']['reading_status']> = {
+    'read': 'finished',
+    'currently-reading': 'reading',
+    'to-read': 'to-read',
+};
+
+// Series go in the title, e.g. "Leviathan Wakes (The Expanse, #1)"
+const SERIES_PATTERN = /^(.+?)\s*\(([^()#]+?),?\s*#(\d+(?:\.\d+)?)\)$/;
+
+const isGoodreadsHeader = (columns: string[]) => columns.includes('Title') && columns.includes('Exclusive Shelf');
+
+// Parse a Goodreads export into books ready to import. Throws if the file isn't one.
+export function parseGoodreadsCsv(text: string): ImportedBook[] {
+    const records = parseCsvRecords(text);
+
+    if (records.length > 0 && !isGoodreadsHeader(Object.keys(records[0]))) {
+        throw new Error('This doesn\'t look like a Goodreads export - it needs Title and Exclusive Shelf columns');
+    }
+
+    return records.map((record, index) => {
+        const series = record['Title'].match(SERIES_PATTERN);
+        const shelf = record['Exclusive Shelf'] || 'to-read';
+
+        // Custom shelves become tags, along with a custom exclusive shelf like "did-not-finish"
+        const tags = splitImportList(record['Bookshelves']).filter(tag => !(tag in EXCLUSIVE_SHELVES));
+        if (!(shelf in EXCLUSIVE_SHELVES)) tags.push(shelf);
+
+        return normalizeImport(index + 2, {
+            title: series ? series[1] : record['Title'],
+            author: formatAuthors([record['Author'], ...splitImportList(record['Additional Authors'])].filter(Boolean)),
+            reading_status: EXCLUSIVE_SHELVES[shelf] || 'to-read',
+            page_count: parseImportNumber(record['Number of Pages']),
+            date_finished: parseImportDate(record['Date Read']),
+            rating: parseImportNumber(record['My Rating']),
+            review: parseImportText(record['My Review']),
+            reading_notes: parseImportText(record['Private Notes']),
+            series_name: series ? series[2].trim() : null,
+            series_position: series ? Number(series[3]) : null,
+            isbn_10: parseImportIsbn(record['ISBN']),
+            isbn_13: parseImportIsbn(record['ISBN13']),
+            publisher: record['Publisher'] || null,
+            published_date: record['Original Publication Year'] || record['Year Published'] || null,
+            format: parseImportFormat(record['Binding']),
+            tags,
+        });
+    });
+}
+
+export const goodreadsFormat: ImportFormat = {
+    id: 'goodreads',
+    label: 'Goodreads CSV',
+    accept: '.csv',
+    detect: text => isGoodreadsHeader(parseCsvHeader(text)),
+    parse: parseGoodreadsCsv,
+};
@@ -0,0 +1,55 @@
+// lib/googleBooks.ts - Google Books volume search, used when adding books and on author pages
+import { parseSeriesFromVolume } from './series';
+
+export interface GoogleBookResult {
+    googleBooksId: string;
+    title: string;
+    author: string;
+    category: string;
+    description: string;
+    coverUrl: string | null;
+    pageCount: number | null;
+    publishedDate: string | null;
+    publisher: string | null;
+    language: string | null;
+    isbn10: string | null;
+    isbn13: string | null;
+    seriesName: string | null;
+    seriesPosition: number | null;
+}
+
+// Search Google Books. The query can use Google's operators, e.g. inauthor:"George Orwell"
+export async function searchGoogleBooks(query: string, maxResults = 5): Promise<GoogleBookResult[]> {
+    if (query.length < 3) return [];
+
+    try {
+        const response = await fetch(
+            `https://www.googleapis.com/books/v1/volumes?q=${encodeURIComponent(query)}&maxResults=${maxResults}&orderBy=relevance`
+        );
+
+        if (!response.ok) {
+            throw new Error('Network response was not ok');
+        }
+
+        const data = await response.json();
+
+        return data.items?.map((book: any) => ({
+            googleBooksId: book.id,
+            title: book.volumeInfo.title || 'Unknown Title',
+            author: book.volumeInfo.authors?.join(', ') || 'Unknown Author',
+            category: book.volumeInfo.categories?.[0] || 'Unknown',
+            description: book.volumeInfo.description || '',
+            coverUrl: book.volumeInfo.imageLinks?.thumbnail?.replace('http:', 'https:') || null,
+            pageCount: book.volumeInfo.pageCount || null,
+            publishedDate: book.volumeInfo.publishedDate || null,
+            publisher: book.volumeInfo.publisher || null,
+            language: book.volumeInfo.language || null,
+            isbn10: book.volumeInfo.industryIdentifiers?.find((id: any) => id.type === 'ISBN_10')?.identifier || null,
+            isbn13: book.volumeInfo.industryIdentifiers?.find((id: any) => id.type === 'ISBN_13')?.identifier || null,
+            ...parseSeriesFromVolume(book.volumeInfo)
+        })) || [];
+    } catch (error) {
+        console.error('Error searching Google Books:', error);
+        return [];
+    }
+}
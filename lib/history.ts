@@ -0,0 +1,72 @@
+// lib/history.ts - Field-level diffs for a book's change history, and reverting to an earlier version
+import type { BookChange, BookFieldChanges } from './supabase';
+
+// Friendly names for the fields shown in the history
+export const FIELD_LABELS: Record<string, string> = {
+    title: 'Title',
+    author: 'Author',
+    category: 'Category',
+    cover_url: 'Cover',
+    reading_status: 'Status',
+    progress_percentage: 'Progress',
+    page_count: 'Length',
+    current_page: 'Current position',
+    progress_unit: 'Progress unit',
+    date_started: 'Date started',
+    date_finished: 'Date finished',
+    reading_notes: 'Notes',
+    rating: 'Rating',
+    review: 'Review',
+    series_name: 'Series',
+    series_position: 'Series number',
+    isbn_10: 'ISBN-10',
+    isbn_13: 'ISBN-13',
+    publisher: 'Publisher',
+    published_date: 'Published',
+    language: 'Language',
+    format: 'Format',
+};
+
+// Empty strings and undefined are stored as null, so treat them all the same
+const normalize = (value: unknown) => (value === undefined || value === '' ? null : value);
+
+// The fields in `updates` whose value differs from `before`, with both values
+export function diffBookFields(before: Record<string, any>, updates: Record<string, any>): BookFieldChanges {
+    const changes: BookFieldChanges = {};
+
+    Object.keys(updates).forEach(field => {
+        if (!(field in FIELD_LABELS)) return;
+
+        const oldValue = normalize(before[field]);
+        const newValue = normalize(updates[field]);
+
+        if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+            changes[field] = { old: oldValue, new: newValue };
+        }
+    });
+
+    return changes;
+}
+
+// The updates that put a book back the way it was before `changeId`.
+// Expects the history newest first, and undoes every change down to and including that one.
+export function getRevertUpdates(history: BookChange[], changeId: string): Record<string, unknown> {
+    const updates: Record<string, unknown> = {};
+
+    for (const change of history) {
+        Object.entries(change.changes).forEach(([field, { old }]) => {
+            updates[field] = old;
+        });
+        if (change.id === changeId) return updates;
+    }
+
+    return {};
+}
+
+// Show a stored value in the history list
+export function formatChangeValue(value: unknown, maxLength = 60): string {
+    if (value === null || value === undefined) return '—';
+
+    const text = String(value);
+    return text.length > maxLength ? `${text.substring(0, maxLength)}...` : text;
+}
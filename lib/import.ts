@@ -0,0 +1,138 @@
+// lib/import.ts - Importing books exported from other apps. Every format goes through the same
+// steps: its parser reads the file into ImportFields, normalizeImport turns those into books
+// ready to save, previewImport marks duplicates, and importBooks in lib/database.ts saves them.
+// A new format only needs a parser - see lib/importFormats.ts.
+import type { Book, BookFormat } from './supabase';
+import type { CreateBookData } from './database';
+import { findBookByIsbn, normalizeIsbn, toIsbn13 } from './isbn';
+import { splitAuthors, titleKey } from './authors';
+
+// Imported books need a category and exports from other apps don't have one
+export const IMPORT_CATEGORY = 'Uncategorized';
+
+// One row of an import file, mapped onto the fields a new book is saved with
+export interface ImportedBook {
+    row: number;                   // line in the file counting the header as line 1, or entry number
+    book: CreateBookData;
+    tags: string[];
+    error: string | null;          // rows that can't be imported, e.g. with no title
+}
+
+// What a parser reads from one row. Anything left out gets the same defaults as a book added by hand.
+export type ImportFields = Partial<CreateBookData> & { tags?: string[] };
+
+// A file format that can be imported
+export interface ImportFormat {
+    id: string;
+    label: string;
+    accept: string;                // for the file input, e.g. ".csv"
+    detect: (text: string) => boolean;
+    parse: (text: string) => ImportedBook[];
+}
+
+export interface ImportPreviewRow extends ImportedBook {
+    duplicate: Book | null;        // already in the library
+    duplicateRow: number | null;   // or earlier in the same file
+}
+
+// What happened to one row once the import ran
+export interface ImportResult {
+    row: number;
+    title: string;
+    book: Book | null;
+    error: string | null;
+}
+
+// ISBNs may be wrapped for spreadsheets (="0451526341") or in brackets ([0451526341])
+export const parseImportIsbn = (value?: string | null) =>
+    normalizeIsbn((value || '').replace(/^="?|"$|[[\]]/g, ''));
+
+// Dates as YYYY/MM/DD or YYYY-MM-DD, with anything after the day ignored
+export const parseImportDate = (value?: string | null) => {
+    const match = (value || '').match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})/);
+    return match ? `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}` : null;
+};
+
+// Positive numbers only - exports use 0 for "no rating" or "unknown pages"
+export const parseImportNumber = (value?: string | number | null) => {
+    const number = Number(value);
+    return value !== '' && value != null && Number.isFinite(number) && number > 0 ? number : null;
+};
+
+// Reviews and notes may come through with HTML line breaks
+export const parseImportText = (value?: string | null) =>
+    (value || '').replace(/<br\s*\/?>/gi, '\n').trim() || null;
+
+const FORMAT_PATTERNS: [RegExp, BookFormat][] = [
+    [/hardcover|hardback/i, 'hardcover'],
+    [/paperback/i, 'paperback'],
+    [/kindle|e-?book|digital|nook/i, 'ebook'],
+    [/audio/i, 'audiobook'],
+];
+
+// A binding or media name like "Mass Market Paperback" or "Kindle Edition"
+export const parseImportFormat = (value?: string | null): BookFormat | null =>
+    FORMAT_PATTERNS.find(([pattern]) => pattern.test(value || ''))?.[1] || null;
+
+// Split a comma-separated list, dropping blanks
+export const splitImportList = (value?: string | null) =>
+    (value || '').split(',').map(item => item.trim()).filter(Boolean);
+
+// Fill in defaults and check the required fields of one parsed row
+export function normalizeImport(row: number, { tags = [], ...fields }: ImportFields): ImportedBook {
+    const title = (fields.title || '').trim();
+    const author = (fields.author || '').trim();
+    const status = fields.reading_status || 'to-read';
+    const pageCount = fields.page_count || null;
+
+    return {
+        row,
+        book: {
+            ...fields,
+            title,
+            author,
+            category: fields.category || IMPORT_CATEGORY,
+            reading_status: status,
+            progress_percentage: fields.progress_percentage ?? (status === 'finished' ? 100 : 0),
+            page_count: pageCount,
+            current_page: fields.current_page ?? (status === 'finished' ? pageCount : null),
+            progress_unit: fields.progress_unit || 'pages',
+            date_finished: status === 'finished' ? fields.date_finished || null : null,
+            // Ratings are kept to the half stars StarRating shows, e.g. StoryGraph's 4.25 becomes 4.5
+            rating: fields.rating ? Math.min(Math.round(fields.rating * 2) / 2, 5) : null,
+            isbn_10: normalizeIsbn(fields.isbn_10),
+            isbn_13: normalizeIsbn(fields.isbn_13),
+        },
+        tags: tags.filter((tag, index) => tag && tags.findIndex(other => other.toLowerCase() === tag.toLowerCase()) === index),
+        error: !title ? 'Missing title' : !author ? 'Missing author' : null,
+    };
+}
+
+// Books match on ISBN when both have one, otherwise on title and first author
+const bookKey = (book: Pick<Book, 'title' | 'author'>) =>
+    `${titleKey(book.title)}|${(splitAuthors(book.author)[0] || '').toLowerCase()}`;
+
+export function findImportDuplicate(book: CreateBookData, books: Book[]): Book | null {
+    const byIsbn = findBookByIsbn(books, book.isbn_10, book.isbn_13);
+    if (byIsbn) return byIsbn;
+
+    const key = bookKey(book);
+    return books.find(other => bookKey(other) === key) || null;
+}
+
+// Mark each row that's already in the library or repeats an earlier row of the file
+export function previewImport(rows: ImportedBook[], books: Book[]): ImportPreviewRow[] {
+    const seen = new Map<string, number>();
+
+    return rows.map(row => {
+        const keys = [toIsbn13(row.book.isbn_13) || toIsbn13(row.book.isbn_10), bookKey(row.book)].filter(Boolean) as string[];
+        const earlier = keys.map(key => seen.get(key)).find(Boolean) ?? null;
+        if (!row.error) keys.forEach(key => !seen.has(key) && seen.set(key, row.row));
+
+        return {
+            ...row,
+            duplicate: row.error ? null : findImportDuplicate(row.book, books),
+            duplicateRow: row.error ? null : earlier,
+        };
+    });
+}
@@ -0,0 +1,18 @@
+// lib/importFormats.ts - Every file format the import accepts. To support another app, write a
+// parser that maps its rows through normalizeImport (lib/import.ts) and add its format here.
+import type { ImportFormat } from './import';
+import { goodreadsFormat } from './goodreads';
+import { storyGraphFormat } from './storygraph';
+import { libraryThingJsonFormat, libraryThingTsvFormat } from './librarything';
+
+export const IMPORT_FORMATS: ImportFormat[] = [
+    goodreadsFormat,
+    storyGraphFormat,
+    libraryThingTsvFormat,
+    libraryThingJsonFormat,
+];
+
+// Work out which app a file came from by its header or structure
+export function detectImportFormat(text: string): ImportFormat | null {
+    return IMPORT_FORMATS.find(format => format.detect(text)) || null;
+}
@@ -0,0 +1,45 @@
+// lib/isbn.ts - ISBN clean-up and conversion, used to de-duplicate books
+import type { Book } from './supabase';
+
+// Strip hyphens and spaces and check the length and check digit.
+// Returns null for anything that isn't a valid ISBN-10 or ISBN-13, or not the length asked for.
+export function normalizeIsbn(value?: string | null, length?: 10 | 13): string | null {
+    if (!value) return null;
+
+    const isbn = value.replace(/[\s-]/g, '').toUpperCase();
+    if (length && isbn.length !== length) return null;
+
+    if (/^\d{9}[\dX]$/.test(isbn)) {
+        const sum = isbn.split('').reduce((total, char, index) =>
+            total + (char === 'X' ? 10 : Number(char)) * (10 - index), 0);
+        return sum % 11 === 0 ? isbn : null;
+    }
+
+    if (/^\d{13}$/.test(isbn)) {
+        const sum = isbn.split('').reduce((total, char, index) =>
+            total + Number(char) * (index % 2 === 0 ? 1 : 3), 0);
+        return sum % 10 === 0 ? isbn : null;
+    }
+
+    return null;
+}
+
+// Convert any valid ISBN to its 13-digit form so both editions compare equal
+export function toIsbn13(value?: string | null): string | null {
+    const isbn = normalizeIsbn(value);
+    if (!isbn) return null;
+    if (isbn.length === 13) return isbn;
+
+    const core = `978${isbn.slice(0, 9)}`;
+    const sum = core.split('').reduce((total, char, index) =>
+        total + Number(char) * (index % 2 === 0 ? 1 : 3), 0);
+    return `${core}${(10 - (sum % 10)) % 10}`;
+}
+
+// Find a book already in the library with the same ISBN (10 or 13)
+export function findBookByIsbn<T extends Pick<Book, 'isbn_10' | 'isbn_13'>>(books: T[], isbn10?: string | null, isbn13?: string | null): T | undefined {
+    const target = toIsbn13(isbn13) || toIsbn13(isbn10);
+    if (!target) return undefined;
+
+    return books.find(book => (toIsbn13(book.isbn_13) || toIsbn13(book.isbn_10)) === target);
+}
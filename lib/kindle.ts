@@ -0,0 +1,256 @@
+// lib/kindle.ts - Reading the "My Clippings.txt" file a Kindle keeps in its documents folder, and
+// matching the clippings to books in the library. Kindles only ever append to the file, so the
+// same clippings turn up again on every import and are skipped once saved.
+import type { Book, Highlight, HighlightKind, ProgressUnit } from './supabase';
+import type { CreateBookData, CreateHighlightData } from './database';
+import { formatAuthors, getSortName, splitAuthors, titleKey } from './authors';
+import { normalizeImport } from './import';
+
+// One entry of the file, as written
+export interface KindleClipping {
+    title: string;
+    author: string;
+    kind: HighlightKind;
+    page: number | null;
+    location: number | null;       // start of the Kindle location range
+    locationEnd: number | null;
+    addedAt: string | null;        // local time as YYYY-MM-DDTHH:MM:SS - the file has no time zone
+    text: string;
+}
+
+// A highlight, note or bookmark ready to save, with notes joined to the passage they're about
+export interface KindleHighlight {
+    kind: HighlightKind;
+    text: string;                  // empty for bookmarks
+    note: string | null;
+    page: number | null;
+    location: number | null;
+    locationEnd: number | null;
+    addedAt: string | null;
+}
+
+// Everything clipped from one book
+export interface KindleBook {
+    title: string;
+    author: string;
+    highlights: KindleHighlight[];
+}
+
+// One book's clippings as chosen in the import preview - saved on a library book, or on a new
+// book made from the Kindle title and author when book is null
+export interface KindleImport {
+    kindleBook: KindleBook;
+    book: Book | null;
+    highlights: KindleHighlight[];
+}
+
+// Entries end with a line of ten "="
+const SEPARATOR = /^==========\s*$/m;
+
+const KIND_PATTERNS: [RegExp, HighlightKind][] = [
+    [/\bhighlight\b/i, 'highlight'],
+    [/\bnote\b/i, 'note'],
+    [/\bbookmark\b/i, 'bookmark'],
+];
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// "Monday, March 4, 2019 9:15:32 PM" (US), "Saturday, 5 January 2019 14:02:30" (UK) or on
+// older Kindles "Sunday, May 13, 2012, 09:38 PM"
+export function parseKindleDate(value: string): string | null {
+    const match = value.match(/(?:([a-z]+)\s+(\d{1,2}),?|(\d{1,2})\s+([a-z]+))\s+(\d{4}),?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?/i);
+    if (!match) return null;
+
+    const month = MONTHS.indexOf((match[1] || match[4]).toLowerCase()) + 1;
+    if (month === 0) return null;
+
+    let hours = Number(match[6]) % (match[9] ? 12 : 24);
+    if (match[9]?.toLowerCase() === 'pm') hours += 12;
+
+    const pad = (value: string | number) => String(value).padStart(2, '0');
+    return `${match[5]}-${pad(month)}-${pad(match[2] || match[3])}T${pad(hours)}:${match[7]}:${match[8] || '00'}`;
+}
+
+// Older Kindles shorten the end of a range: "Loc. 1170-72" is 1170 to 1172
+const parseLocationEnd = (start: string, end?: string) =>
+    end ? Number(end.length < start.length ? start.slice(0, start.length - end.length) + end : end) : null;
+
+// "Leviathan Wakes (The Expanse Book 1) (James S. A. Corey)" - the author is the last bracketed part.
+// Several authors are separated by ";", and each may be written "Surname, First".
+function parseTitleLine(line: string): { title: string; author: string } {
+    const match = line.match(/^(.*?)\s*\(([^()]*)\)\s*$/);
+    if (!match) return { title: line.trim(), author: '' };
+
+    const names = match[2].split(';').map(name => {
+        const parts = name.split(',').map(part => part.trim());
+        return parts.length === 2 ? `${parts[1]} ${parts[0]}` : name.trim();
+    });
+    return { title: match[1].trim(), author: formatAuthors(names.flatMap(splitAuthors)) };
+}
+
+// Parse the whole file, oldest clipping first. Entries in other languages or that can't be read are
+// skipped. Throws if nothing in the file is a clipping.
+export function parseKindleClippings(text: string): KindleClipping[] {
+    const clippings: KindleClipping[] = [];
+
+    text.replace(/\uFEFF/g, '').split(SEPARATOR).forEach(entry => {
+        const lines = entry.replace(/\r\n?/g, '\n').trim().split('\n');
+        if (lines.length < 2) return;
+
+        const details = lines[1];
+        const kind = KIND_PATTERNS.find(([pattern]) => pattern.test(details.split('|')[0]))?.[1];
+        if (!details.startsWith('-') || !kind) return;
+
+        const page = details.match(/\bpage\s+(\d+)/i);
+        const location = details.match(/\b(?:location|loc\.)\s+(\d+)(?:-(\d+))?/i);
+        const added = details.match(/\badded on\s+(.+)$/i);
+
+        clippings.push({
+            ...parseTitleLine(lines[0]),
+            kind,
+            page: page ? Number(page[1]) : null,
+            location: location ? Number(location[1]) : null,
+            locationEnd: location ? parseLocationEnd(location[1], location[2]) ?? Number(location[1]) : null,
+            addedAt: added ? parseKindleDate(added[1]) : null,
+            text: lines.slice(2).join('\n').trim(),
+        });
+    });
+
+    if (clippings.length === 0) {
+        throw new Error('This doesn\'t look like a Kindle clippings file - no highlights, notes or bookmarks were found');
+    }
+    return clippings;
+}
+
+const overlaps = (a: KindleHighlight, b: Pick<KindleClipping, 'location' | 'locationEnd'>) =>
+    a.location != null && b.location != null && a.location <= (b.locationEnd ?? b.location) && b.location <= (a.locationEnd ?? a.location);
+
+// Group clippings by book and tidy them up the way the Kindle shows them:
+// - changing a highlight's selection adds a new clipping, so the older one it overlaps is dropped
+// - a note is joined to the highlight it was written on; one written on its own is kept as a note
+// - the same bookmark set twice is only kept once
+export function groupKindleClippings(clippings: KindleClipping[]): KindleBook[] {
+    const books = new Map<string, KindleBook>();
+
+    const bookFor = (clipping: KindleClipping) => {
+        const key = `${clipping.title}|${clipping.author}`;
+        if (!books.has(key)) books.set(key, { title: clipping.title, author: clipping.author, highlights: [] });
+        return books.get(key)!;
+    };
+
+    const toHighlight = ({ kind, text, page, location, locationEnd, addedAt }: KindleClipping): KindleHighlight =>
+        ({ kind, text: kind === 'bookmark' ? '' : text, note: null, page, location, locationEnd, addedAt });
+
+    // Highlights first, so notes written before the highlight they belong to still find it
+    clippings.filter(clipping => clipping.kind === 'highlight' && clipping.text).forEach(clipping => {
+        const { highlights } = bookFor(clipping);
+        const index = highlights.findIndex(other =>
+            other.text === clipping.text ||
+            (overlaps(other, clipping) && (other.text.includes(clipping.text) || clipping.text.includes(other.text))));
+
+        if (index === -1) {
+            highlights.push(toHighlight(clipping));
+        } else {
+            highlights[index] = toHighlight(clipping);
+        }
+    });
+
+    clippings.filter(clipping => clipping.kind !== 'highlight').forEach(clipping => {
+        const { highlights } = bookFor(clipping);
+
+        if (clipping.kind === 'bookmark') {
+            const same = highlights.some(other => other.kind === 'bookmark' &&
+                other.location === clipping.location && other.page === clipping.page);
+            if (!same) highlights.push(toHighlight(clipping));
+            return;
+        }
+
+        if (!clipping.text) return;
+
+        // Notes are placed at the end of the passage they're written on
+        const passage = [...highlights].reverse().find(other => other.kind === 'highlight' && overlaps(other, clipping));
+        if (passage) {
+            passage.note = clipping.text;
+        } else if (!highlights.some(other => other.kind === 'note' && other.text === clipping.text)) {
+            highlights.push(toHighlight(clipping));
+        }
+    });
+
+    return Array.from(books.values()).filter(book => book.highlights.length > 0);
+}
+
+// Kindle titles often carry extras the library doesn't, e.g. "Leviathan Wakes (The Expanse Book 1)"
+const kindleTitleKey = (title: string) => titleKey(title.replace(/(\s*[([][^()[\]]*[)\]])+\s*$/, ''));
+
+const surnames = (author: string) =>
+    splitAuthors(author).map(name => getSortName(name).split(',')[0].toLowerCase());
+
+// The library book a Kindle book's clippings belong to. Titles are compared loosely, allowing for
+// a subtitle on either side, and at least one author surname has to agree when the file has one.
+export function findKindleMatch(kindleBook: Pick<KindleBook, 'title' | 'author'>, books: Book[]): Book | null {
+    const key = kindleTitleKey(kindleBook.title);
+    const kindleSurnames = surnames(kindleBook.author);
+    if (!key) return null;
+
+    return books.find(book => {
+        const other = kindleTitleKey(book.title);
+        const sameTitle = other === key || other.startsWith(`${key} `) || key.startsWith(`${other} `);
+        return sameTitle && (kindleSurnames.length === 0 || surnames(book.author).some(name => kindleSurnames.includes(name)));
+    }) || null;
+}
+
+// Where a clipping goes in the book's progress unit. Kindle locations only fit books tracked by
+// location, and pages are only known for books with real page numbers.
+function toHighlightLocation(highlight: KindleHighlight, unit: ProgressUnit = 'pages'): number | null {
+    if (unit === 'location') return highlight.location;
+    if (unit === 'pages') return highlight.page;
+    return null;
+}
+
+export function toKindleHighlightData(highlight: KindleHighlight, book: Pick<Book, 'id' | 'progress_unit'>): CreateHighlightData {
+    return {
+        book_id: book.id,
+        kind: highlight.kind,
+        text: highlight.text,
+        location: toHighlightLocation(highlight, book.progress_unit),
+        note: highlight.note,
+        created_at: highlight.addedAt,
+    };
+}
+
+const highlightKey = (kind: HighlightKind, text: string, location?: number | null) =>
+    `${kind}|${text.trim().replace(/\s+/g, ' ')}|${kind === 'bookmark' ? location ?? '' : ''}`;
+
+// The clippings that aren't saved on the book yet
+export function findNewKindleHighlights(
+    kindleBook: KindleBook,
+    book: Pick<Book, 'id' | 'progress_unit'> | null,
+    highlights: Highlight[]
+): KindleHighlight[] {
+    if (!book) return kindleBook.highlights;
+
+    const saved = new Set(highlights
+        .filter(highlight => highlight.book_id === book.id)
+        .map(highlight => highlightKey(highlight.kind, highlight.text, highlight.location)));
+    return kindleBook.highlights.filter(highlight =>
+        !saved.has(highlightKey(highlight.kind, highlight.text, toHighlightLocation(highlight, book.progress_unit))));
+}
+
+// Series are usually in the title, e.g. "Leviathan Wakes (The Expanse Book 1)" or "(Discworld, #1)"
+const SERIES_PATTERN = /^(.+?)\s*\(([^()]+?),?\s+(?:book\s+|#)(\d+(?:\.\d+)?)\)$/i;
+
+// A new book for clippings with nothing to match in the library. They were read on a Kindle,
+// so it's an ebook tracked by location and already being read.
+export function toKindleBookData(kindleBook: KindleBook): CreateBookData {
+    const series = kindleBook.title.match(SERIES_PATTERN);
+
+    return normalizeImport(0, {
+        title: series ? series[1] : kindleBook.title,
+        author: kindleBook.author || 'Unknown Author',
+        reading_status: 'reading',
+        progress_unit: 'location',
+        format: 'ebook',
+        series_name: series ? series[2].trim() : null,
+        series_position: series ? Number(series[3]) : null,
+    }).book;
+}
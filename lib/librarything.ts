@@ -0,0 +1,166 @@
+// lib/librarything.ts - Reading LibraryThing's tab-delimited and JSON exports (More → Import/Export)
+import { parseCsvHeader, parseCsvRecords } from './csv';
+import { formatAuthors, splitAuthors } from './authors';
+import {
+    normalizeImport,
+    parseImportDate,
+    parseImportFormat,
+    parseImportIsbn,
+    parseImportNumber,
+    parseImportText,
+    splitImportList,
+    type ImportedBook,
+    type ImportFields,
+    type ImportFormat
+} from './import';
+
+// The fields both exports have, whichever way they're written
+interface LibraryThingEntry {
+    title: string;
+    authors: string[];             // as exported, usually "Surname, First"
+    publication: string;           // e.g. "Signet Classics (2004), Edition: Reprint, 141 pages"
+    date: string;
+    pages: string;
+    rating: string | number;
+    review: string;
+    privateComment: string;
+    isbns: string[];
+    tags: string[];
+    collections: string[];
+    dateStarted: string;
+    dateRead: string;
+    series: string[];              // e.g. "The Expanse (1)"
+    media: string;
+    language: string;
+}
+
+// Series are written "Name (position)" or "Name ; position"
+const SERIES_PATTERN = /^(.+?)\s*(?:\((\d+(?:\.\d+)?)\)|;\s*(\d+(?:\.\d+)?))$/;
+
+function toImportFields(entry: LibraryThingEntry): ImportFields {
+    const collections = entry.collections.map(collection => collection.toLowerCase());
+    const isbns = entry.isbns.map(parseImportIsbn).filter(Boolean) as string[];
+    const series = entry.series.map(name => name.trim().match(SERIES_PATTERN)).find(Boolean);
+
+    // There's no status field - it's worked out from the reading dates and collections
+    const status = entry.dateRead || collections.includes('read but unowned')
+        ? 'finished'
+        : entry.dateStarted || collections.includes('currently reading') ? 'reading' : 'to-read';
+
+    return {
+        title: entry.title,
+        author: formatAuthors(entry.authors.flatMap(splitAuthors)),
+        reading_status: status,
+        page_count: parseImportNumber(entry.pages.trim() || entry.publication.match(/(\d+) pages/)?.[1]),
+        date_started: parseImportDate(entry.dateStarted),
+        date_finished: parseImportDate(entry.dateRead),
+        rating: parseImportNumber(entry.rating),
+        review: parseImportText(entry.review),
+        reading_notes: parseImportText(entry.privateComment),
+        series_name: series ? series[1].trim() : null,
+        series_position: series ? Number(series[2] || series[3]) : null,
+        isbn_10: isbns.find(isbn => isbn.length === 10) || null,
+        isbn_13: isbns.find(isbn => isbn.length === 13) || null,
+        publisher: entry.publication.split(/\s*[(,]/)[0].trim() || null,
+        published_date: entry.date || null,
+        language: entry.language || null,
+        format: parseImportFormat(entry.media),
+        tags: entry.tags,
+    };
+}
+
+const isLibraryThingHeader = (columns: string[]) => columns.includes('Title') && columns.includes('Primary Author');
+
+// Parse the tab-delimited export. Secondary authors are "|"-separated, with a matching list of roles.
+export function parseLibraryThingTsv(text: string): ImportedBook[] {
+    const records = parseCsvRecords(text, '\t');
+
+    if (records.length > 0 && !isLibraryThingHeader(Object.keys(records[0]))) {
+        throw new Error('This doesn\'t look like a LibraryThing export - it needs Title and Primary Author columns');
+    }
+
+    return records.map((record, index) => {
+        const roles = (record['Secondary Author Roles'] || '').split('|').map(role => role.trim());
+        const coauthors = (record['Secondary Author'] || '').split('|')
+            .map(name => name.trim())
+            .filter((name, position) => name && (!roles[position] || roles[position] === 'Author'));
+
+        return normalizeImport(index + 2, toImportFields({
+            title: record['Title'],
+            authors: [record['Primary Author'], ...coauthors].filter(Boolean),
+            publication: record['Publication'] || '',
+            date: record['Date'] || '',
+            pages: record['Page Count'] || '',
+            rating: record['Rating'] || '',
+            review: record['Review'] || '',
+            privateComment: record['Private Comment'] || '',
+            isbns: [record['ISBN'], ...splitImportList(record['ISBNs'])].filter(Boolean),
+            tags: splitImportList(record['Tags']),
+            collections: splitImportList(record['Collections']),
+            dateStarted: record['Date Started'] || '',
+            dateRead: record['Date Read'] || '',
+            series: (record['Series'] || '').split('|').filter(Boolean),
+            media: record['Media'] || '',
+            language: splitImportList(record['Languages'])[0] || '',
+        }));
+    });
+}
+
+// Values in the JSON export are sometimes a list, sometimes an object keyed by index, sometimes one value
+const toList = (value: unknown): any[] =>
+    Array.isArray(value) ? value : value && typeof value === 'object' ? Object.values(value) : value ? [value] : [];
+
+// Parse the JSON export - an object of books keyed by their LibraryThing id
+export function parseLibraryThingJson(text: string): ImportedBook[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('This doesn\'t look like a LibraryThing export - it isn\'t valid JSON');
+    }
+
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new Error('This doesn\'t look like a LibraryThing export - expected an object of books');
+    }
+
+    return Object.values(data as Record<string, any>).map((entry, index) => {
+        const authors = toList(entry.authors).filter(author => !author.role || author.role === 'Author');
+
+        return normalizeImport(index + 1, toImportFields({
+            title: String(entry.title || ''),
+            authors: authors.length > 0
+                ? authors.map(author => author.fl || author.lf).filter(Boolean)
+                : [entry.primaryauthor].filter(Boolean),
+            publication: String(entry.publication || ''),
+            date: String(entry.date || ''),
+            pages: String(entry.pages || ''),
+            rating: entry.rating || '',
+            review: String(entry.review || ''),
+            privateComment: String(entry.privatecomment || ''),
+            isbns: [...toList(entry.isbn), entry.originalisbn].filter(Boolean).map(String),
+            tags: toList(entry.tags).map(String),
+            collections: toList(entry.collections).map(String),
+            dateStarted: String(entry.datestarted || ''),
+            dateRead: String(entry.dateread || ''),
+            series: toList(entry.series).map(String),
+            media: toList(entry.format).map(format => format.text || format).join(' '),
+            language: String(toList(entry.language)[0] || ''),
+        }));
+    });
+}
+
+export const libraryThingTsvFormat: ImportFormat = {
+    id: 'librarything-tsv',
+    label: 'LibraryThing tab-delimited',
+    accept: '.tsv,.txt',
+    detect: text => isLibraryThingHeader(parseCsvHeader(text, '\t')),
+    parse: parseLibraryThingTsv,
+};
+
+export const libraryThingJsonFormat: ImportFormat = {
+    id: 'librarything-json',
+    label: 'LibraryThing JSON',
+    accept: '.json',
+    detect: text => /^\s*\{\s*"\d+"\s*:\s*\{[\s\S]*"(books_id|primaryauthor)"/.test(text.slice(0, 2000)),
+    parse: parseLibraryThingJson,
+};
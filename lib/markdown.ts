@@ -0,0 +1,110 @@
+// lib/markdown.ts - The small piece of markdown reviews are written in
+// Reviews are parsed into plain blocks and rendered as React elements rather than HTML,
+// so nothing stored in a review is ever trusted as markup.
+
+export type MarkdownInline =
+    | { type: 'text'; text: string }
+    | { type: 'code'; text: string }
+    | { type: 'strong' | 'em'; children: MarkdownInline[] }
+    | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+    | { type: 'paragraph' | 'quote'; children: MarkdownInline[] }
+    | { type: 'heading'; level: 1 | 2 | 3; children: MarkdownInline[] }
+    | { type: 'list'; ordered: boolean; items: MarkdownInline[][] };
+
+// `code`, **bold** / __bold__, *italics* / _italics_ and [links](https://...). Underscores inside
+// words, like snake_case, are left alone.
+const INLINE_PATTERN = /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|\*(?!\s)(.+?)\*|\b_(.+?)_\b|\[([^\]]+)\]\(([^)\s]+)\)/;
+
+// Only links that go somewhere safe are kept - anything else is shown as its text
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+export function parseInline(text: string): MarkdownInline[] {
+    const parts: MarkdownInline[] = [];
+    let rest = text;
+    let found: RegExpExecArray | null;
+
+    while ((found = INLINE_PATTERN.exec(rest)) !== null) {
+        if (found.index > 0) {
+            parts.push({ type: 'text', text: rest.slice(0, found.index) });
+        }
+
+        const [, code, strong, strongUnderscore, em, emUnderscore, label, href] = found;
+        if (code !== undefined) {
+            parts.push({ type: 'code', text: code });
+        } else if (strong !== undefined || strongUnderscore !== undefined) {
+            parts.push({ type: 'strong', children: parseInline(strong ?? strongUnderscore) });
+        } else if (em !== undefined || emUnderscore !== undefined) {
+            parts.push({ type: 'em', children: parseInline(em ?? emUnderscore) });
+        } else if (SAFE_LINK.test(href)) {
+            parts.push({ type: 'link', href, children: parseInline(label) });
+        } else {
+            parts.push(...parseInline(label));
+        }
+
+        rest = rest.slice(found.index + found[0].length);
+    }
+
+    if (rest) {
+        parts.push({ type: 'text', text: rest });
+    }
+
+    return parts;
+}
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+
+// Split a review into paragraphs, headings, quotes and lists. Blank lines end a block; single line
+// breaks inside a paragraph or quote are kept as they were typed.
+export function parseMarkdown(text: string): MarkdownBlock[] {
+    const blocks: MarkdownBlock[] = [];
+    let lines: string[] = [];
+    let lineType: 'paragraph' | 'quote' = 'paragraph';
+
+    const endLines = () => {
+        if (lines.length > 0) {
+            blocks.push({ type: lineType, children: parseInline(lines.join('\n')) });
+        }
+        lines = [];
+    };
+
+    const addLine = (type: 'paragraph' | 'quote', line: string) => {
+        if (lineType !== type) endLines();
+        lineType = type;
+        lines.push(line);
+    };
+
+    text.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+        const heading = line.match(HEADING);
+        const quote = line.match(QUOTE);
+        const item = line.match(BULLET) || line.match(NUMBERED);
+
+        if (!line.trim()) {
+            endLines();
+        } else if (heading) {
+            endLines();
+            blocks.push({ type: 'heading', level: Math.min(heading[1].length, 3) as 1 | 2 | 3, children: parseInline(heading[2]) });
+        } else if (quote) {
+            addLine('quote', quote[1]);
+        } else if (item) {
+            endLines();
+            const ordered = !BULLET.test(line);
+            const last = blocks[blocks.length - 1];
+
+            if (last?.type === 'list' && last.ordered === ordered) {
+                last.items.push(parseInline(item[1]));
+            } else {
+                blocks.push({ type: 'list', ordered, items: [parseInline(item[1])] });
+            }
+        } else {
+            addLine('paragraph', line);
+        }
+    });
+
+    endLines();
+    return blocks;
+}
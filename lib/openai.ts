@@ -37,7 +37,8 @@ export async function analyzeReadingPatterns(books: any[]): Promise<ReadingInsig
             author: book.author,
             category: book.category,
             status: book.reading_status,
-            progress: book.progress_percentage
+            progress: book.progress_percentage,
+            rating: book.rating
         }));
 
         const prompt = `
@@ -0,0 +1,88 @@
+// lib/progress.ts - Helpers for page, location and minute based reading progress
+import type { Book, ProgressUnit } from './supabase';
+
+// Work out a 0-100 percentage from the current position and the book's length
+export function calculateProgressPercentage(currentPage?: number | null, pageCount?: number | null): number {
+    if (!currentPage || !pageCount || pageCount <= 0) return 0;
+    return Math.min(100, Math.max(0, Math.round((currentPage / pageCount) * 100)));
+}
+
+// Format the current position for display, e.g. "p. 142 / 380"
+export function formatProgressPosition(
+    currentPage: number | null | undefined,
+    pageCount: number,
+    unit: ProgressUnit = 'pages'
+): string {
+    const current = currentPage || 0;
+
+    switch (unit) {
+        case 'location':
+            return `loc. ${current} / ${pageCount}`;
+        case 'minutes':
+            return `${current} / ${pageCount} min`;
+        case 'pages':
+        default:
+            return `p. ${current} / ${pageCount}`;
+    }
+}
+
+// A single position in the book, e.g. "p. 42" for a highlight
+export function formatPosition(position: number, unit: ProgressUnit = 'pages'): string {
+    switch (unit) {
+        case 'location':
+            return `loc. ${position}`;
+        case 'minutes':
+            return `${position} min`;
+        case 'pages':
+        default:
+            return `p. ${position}`;
+    }
+}
+
+// Labels for the length inputs in the Add/Edit modals
+export function getProgressUnitLabels(unit: ProgressUnit = 'pages'): { total: string; current: string } {
+    switch (unit) {
+        case 'location':
+            return { total: 'Total Locations', current: 'Current Location' };
+        case 'minutes':
+            return { total: 'Total Minutes', current: 'Minutes Listened' };
+        case 'pages':
+        default:
+            return { total: 'Total Pages', current: 'Current Page' };
+    }
+}
+
+// Format the span covered by a reading session, e.g. "p. 120 → 142 (+22)"
+export function formatSessionRange(
+    fromPage: number | null | undefined,
+    toPage: number,
+    unit: ProgressUnit = 'pages'
+): string {
+    const from = fromPage || 0;
+    const delta = toPage - from;
+    const sign = delta >= 0 ? '+' : '';
+
+    switch (unit) {
+        case 'location':
+            return `loc. ${from} → ${toPage} (${sign}${delta})`;
+        case 'minutes':
+            return `${from} → ${toPage} min (${sign}${delta})`;
+        case 'pages':
+        default:
+            return `p. ${from} → ${toPage} (${sign}${delta})`;
+    }
+}
+
+// How many times a book has been read. Books finished before reads were tracked count once.
+export function getReadCount(book: Pick<Book, 'reading_status' | 'reading_cycles'>): number {
+    const cycles = book.reading_cycles?.length || 0;
+    return Math.max(cycles, book.reading_status === 'finished' ? 1 : 0);
+}
+
+// The day the read in progress began. Logging a session on a book that isn't being read - not
+// started yet, or finished and picked up again - begins a new read today, rather than reusing
+// the start of a read that's already closed as a cycle.
+export function getCurrentReadStart(book: Pick<Book, 'reading_status' | 'date_started'>): string {
+    if (book.reading_status === 'reading' && book.date_started) return book.date_started;
+    return new Date().toISOString().split('T')[0];
+}
@@ -0,0 +1,198 @@
+// lib/query.ts - Structured search syntax for the library search bar
+// e.g. `author:orwell status:finished category:fiction rating>=4 added:2026 animal farm`.
+// Known keys become filters, anything else (including unknown keys) stays free text.
+import type { Book } from './supabase';
+
+export type QueryKey = 'author' | 'title' | 'category' | 'status' | 'tag' | 'series' | 'rating' | 'added' | 'finished';
+export type QueryOperator = ':' | '=' | '>' | '>=' | '<' | '<=';
+
+export interface QueryFilter {
+    key: QueryKey;
+    operator: QueryOperator;
+    value: string;
+    negated: boolean;          // written with a leading "-", e.g. -status:finished
+}
+
+export interface QueryError {
+    start: number;             // character range in the raw query, for highlighting
+    end: number;
+    message: string;
+}
+
+export interface ParsedQuery {
+    text: string;              // free text left over, matched against title, author and tags
+    filters: QueryFilter[];
+    errors: QueryError[];
+}
+
+type KeyKind = 'text' | 'status' | 'number' | 'date';
+
+const QUERY_KEYS: Record<QueryKey, KeyKind> = {
+    author: 'text',
+    title: 'text',
+    category: 'text',
+    tag: 'text',
+    series: 'text',
+    status: 'status',
+    rating: 'number',
+    added: 'date',
+    finished: 'date',
+};
+
+const STATUS_ALIASES: Record<string, Book['reading_status']> = {
+    'to-read': 'to-read',
+    'toread': 'to-read',
+    'unread': 'to-read',
+    'reading': 'reading',
+    'finished': 'finished',
+    'read': 'finished',
+    'done': 'finished',
+};
+
+const TOKEN_PATTERN = /^(-?)([a-z]+)(>=|<=|:|=|>|<)/i;
+const DATE_PATTERN = /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?)?$/;
+
+const isQueryKey = (key: string): key is QueryKey => key in QUERY_KEYS;
+
+// The stored status for a status: value, e.g. "done" -> "finished"
+export const toReadingStatus = (value: string): Book['reading_status'] | undefined => STATUS_ALIASES[value.toLowerCase()];
+
+// Read a value starting at `index`: a "quoted phrase" or everything up to the next space
+function readValue(query: string, index: number): { value: string; end: number; unterminated: boolean } {
+    if (query[index] === '"') {
+        const close = query.indexOf('"', index + 1);
+        if (close === -1) return { value: query.slice(index + 1), end: query.length, unterminated: true };
+        return { value: query.slice(index + 1, close), end: close + 1, unterminated: false };
+    }
+
+    let end = index;
+    while (end < query.length && !/\s/.test(query[end])) end++;
+    return { value: query.slice(index, end), end, unterminated: false };
+}
+
+// Check a known key's operator and value, returning an error message if they don't fit
+function validateFilter(key: QueryKey, operator: QueryOperator, value: string): string | null {
+    const kind = QUERY_KEYS[key];
+
+    if (value === '') return `${key}${operator} needs a value`;
+
+    if ((kind === 'text' || kind === 'status') && operator !== ':' && operator !== '=') {
+        return `${key} can only be matched with ":"`;
+    }
+
+    if (kind === 'status' && !toReadingStatus(value)) {
+        return 'status must be to-read, reading or finished';
+    }
+
+    if (kind === 'number') {
+        const rating = Number(value);
+        if (!Number.isFinite(rating) || rating < 0 || rating > 5) return 'rating must be a number from 0 to 5';
+    }
+
+    if (kind === 'date' && !DATE_PATTERN.test(value)) {
+        return `${key} must be a year, month or day, e.g. 2026, 2026-03 or 2026-03-14`;
+    }
+
+    return null;
+}
+
+export function parseQuery(query: string): ParsedQuery {
+    const textParts: string[] = [];
+    const filters: QueryFilter[] = [];
+    const errors: QueryError[] = [];
+    let index = 0;
+
+    while (index < query.length) {
+        if (/\s/.test(query[index])) {
+            index++;
+            continue;
+        }
+
+        const start = index;
+        const token = query.slice(index).match(TOKEN_PATTERN);
+        const key = token?.[2].toLowerCase();
+
+        if (!token || !key || !isQueryKey(key)) {
+            // Plain words, quoted phrases and unknown keys like "foo:bar" are all free text
+            const { value, end } = readValue(query, index);
+            textParts.push(query[index] === '"' ? value : query.slice(start, end));
+            index = end;
+            continue;
+        }
+
+        const operator = token[3] as QueryOperator;
+        const { value, end, unterminated } = readValue(query, index + token[0].length);
+        index = end;
+
+        const message = unterminated ? 'Missing closing quote' : validateFilter(key, operator, value.trim());
+        if (message) {
+            errors.push({ start, end, message });
+            continue;
+        }
+
+        filters.push({ key, operator, value: value.trim(), negated: token[1] === '-' });
+    }
+
+    return { text: textParts.join(' ').trim(), filters, errors };
+}
+
+// Compare a "YYYY-MM-DD..." date against a year, month or day, treating the value as a whole period
+function matchesDate(date: string | null | undefined, operator: QueryOperator, value: string): boolean {
+    if (!date) return false;
+    const day = date.slice(0, 10);
+    const within = day.startsWith(value);
+
+    switch (operator) {
+        case '>': return !within && day > value;
+        case '>=': return within || day > value;
+        case '<': return !within && day < value;
+        case '<=': return within || day < value;
+        default: return within;
+    }
+}
+
+function matchesNumber(actual: number, operator: QueryOperator, expected: number): boolean {
+    switch (operator) {
+        case '>': return actual > expected;
+        case '>=': return actual >= expected;
+        case '<': return actual < expected;
+        case '<=': return actual <= expected;
+        default: return actual === expected;
+    }
+}
+
+// ":" matches part of the field, "=" the whole field - both ignore case
+function matchesText(actual: string | null | undefined, operator: QueryOperator, value: string): boolean {
+    const field = (actual || '').toLowerCase();
+    const expected = value.toLowerCase();
+    return operator === '=' ? field === expected : field.includes(expected);
+}
+
+function matchesFilter(book: Book, { key, operator, value }: QueryFilter): boolean {
+    switch (key) {
+        case 'author': return matchesText(book.author, operator, value);
+        case 'title': return matchesText(book.title, operator, value);
+        case 'category': return matchesText(book.category, operator, value);
+        case 'series': return matchesText(book.series_name, operator, value);
+        case 'tag': return (book.tags || []).some(tag => matchesText(tag, operator, value));
+        case 'status': return book.reading_status === toReadingStatus(value);
+        case 'rating': return book.rating != null && matchesNumber(book.rating, operator, Number(value));
+        case 'added': return matchesDate(book.created_at, operator, value);
+        case 'finished': return matchesDate(book.date_finished, operator, value);
+    }
+}
+
+// Whether a book passes every filter in the query. Free text is matched separately,
+// since it may already have been searched on the server.
+export function matchesQueryFilters(book: Book, filters: QueryFilter[]): boolean {
+    return filters.every(filter => matchesFilter(book, filter) !== filter.negated);
+}
+
+// Free text matches part of the title, author or any tag
+export function matchesQueryText(book: Book, text: string): boolean {
+    const query = text.toLowerCase();
+    return query === '' ||
+        book.title.toLowerCase().includes(query) ||
+        book.author.toLowerCase().includes(query) ||
+        (book.tags || []).some(tag => tag.toLowerCase().includes(query));
+}
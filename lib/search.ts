@@ -0,0 +1,30 @@
+// lib/search.ts - Helpers for full-text search results
+// Snippets from search_books mark matched words with [[ ]] rather than HTML tags,
+// so they can be rendered as text without trusting the stored book data.
+
+export interface SnippetPart {
+    text: string;
+    match: boolean;
+}
+
+// Split a snippet into plain and matched parts, e.g. "a [[dune]] b" -> a / dune (match) / b
+export function splitSnippet(snippet: string): SnippetPart[] {
+    const parts: SnippetPart[] = [];
+    const pattern = /\[\[(.*?)\]\]/g;
+    let lastIndex = 0;
+    let found: RegExpExecArray | null;
+
+    while ((found = pattern.exec(snippet)) !== null) {
+        if (found.index > lastIndex) {
+            parts.push({ text: snippet.slice(lastIndex, found.index), match: false });
+        }
+        parts.push({ text: found[1], match: true });
+        lastIndex = found.index + found[0].length;
+    }
+
+    if (lastIndex < snippet.length) {
+        parts.push({ text: snippet.slice(lastIndex), match: false });
+    }
+
+    return parts;
+}
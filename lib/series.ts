@@ -0,0 +1,91 @@
+// lib/series.ts - Series grouping, gap detection and Google Books series parsing
+import type { Book } from './supabase';
+
+export interface SeriesEntry {
+    position: number | null;
+    book: Book | null;           // null when the entry is a gap you don't own
+}
+
+export interface SeriesGroup {
+    name: string;
+    entries: SeriesEntry[];
+    missingPositions: number[];
+    nextUp: SeriesEntry | null;
+}
+
+// Format a book's place in its series, e.g. "The Expanse #3"
+export function formatSeries(seriesName?: string | null, seriesPosition?: number | null): string | null {
+    if (!seriesName) return null;
+    return seriesPosition != null ? `${seriesName} #${seriesPosition}` : seriesName;
+}
+
+// Group books by series, in reading order, with the whole-number entries you don't own filled in as gaps.
+// Prequels numbered 0 come first but never count as a gap.
+export function groupSeries(books: Book[]): SeriesGroup[] {
+    const groups = new Map<string, { name: string; books: Book[] }>();
+
+    books.forEach(book => {
+        const name = book.series_name?.trim();
+        if (!name) return;
+
+        const key = name.toLowerCase();
+        const group = groups.get(key) || { name, books: [] };
+        group.books.push(book);
+        groups.set(key, group);
+    });
+
+    return Array.from(groups.values())
+        .map(({ name, books: seriesBooks }) => {
+            const numbered = seriesBooks
+                .filter(book => book.series_position != null)
+                .sort((a, b) => (a.series_position as number) - (b.series_position as number));
+            const unnumbered = seriesBooks.filter(book => book.series_position == null);
+
+            // Whole-number positions between 1 and the highest owned entry that aren't on the shelf
+            const owned = new Set(numbered.map(book => book.series_position));
+            const highest = numbered.length > 0 ? Math.floor(numbered[numbered.length - 1].series_position as number) : 0;
+            const missingPositions: number[] = [];
+            for (let position = 1; position <= highest; position++) {
+                if (!owned.has(position)) missingPositions.push(position);
+            }
+
+            const entries: SeriesEntry[] = [
+                ...numbered.map(book => ({ position: book.series_position as number, book })),
+                ...missingPositions.map(position => ({ position, book: null }))
+            ].sort((a, b) => a.position - b.position);
+
+            unnumbered.forEach(book => entries.push({ position: null, book }));
+
+            // The first entry you haven't started - either an unread book or one you don't own yet
+            const nextUp = entries.find(entry => entry.position !== null &&
+                (entry.book === null || entry.book.reading_status === 'to-read')) || null;
+
+            return { name, entries, missingPositions, nextUp };
+        })
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Pull series name and number out of Google Books volume info when it's there.
+// Google only exposes the number (seriesInfo.bookDisplayNumber), so the name comes
+// from titles like "Caliban's War (The Expanse, #2)" or subtitles like "Book 2 of The Expanse".
+export function parseSeriesFromVolume(volumeInfo: any): { seriesName: string | null; seriesPosition: number | null } {
+    const title: string = volumeInfo?.title || '';
+    const subtitle: string = volumeInfo?.subtitle || '';
+    const displayNumber = parseFloat(volumeInfo?.seriesInfo?.bookDisplayNumber);
+
+    let seriesName: string | null = null;
+    let seriesPosition: number | null = Number.isFinite(displayNumber) ? displayNumber : null;
+
+    const titleMatch = title.match(/\(([^()]+?),?\s*#(\d+(?:\.\d+)?)\)/);
+    const subtitleMatch = subtitle.match(/(?:Book|Volume|Vol\.?)\s+(\d+(?:\.\d+)?)\s+(?:of|in)\s+(.+?)(?:\s+series)?$/i);
+
+    if (titleMatch) {
+        seriesName = titleMatch[1].trim();
+        seriesPosition = seriesPosition ?? parseFloat(titleMatch[2]);
+    } else if (subtitleMatch) {
+        seriesName = subtitleMatch[2].trim();
+        seriesPosition = seriesPosition ?? parseFloat(subtitleMatch[1]);
+    }
+
+    return { seriesName, seriesPosition: seriesName ? seriesPosition : null };
+}
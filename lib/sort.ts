@@ -0,0 +1,125 @@
+// lib/sort.ts - Sort orders for the grid and table views
+import type { Book } from './supabase';
+import { getSortName, splitAuthors } from './authors';
+
+export type SortKey = 'title' | 'author' | 'category' | 'status' | 'progress' | 'started' | 'finished' | 'rating';
+export type SortDirection = 'asc' | 'desc';
+
+export interface BookSort {
+    key: SortKey;
+    direction: SortDirection;
+}
+
+export const SORT_LABELS: Record<SortKey, string> = {
+    title: 'Title',
+    author: 'Author',
+    category: 'Category',
+    status: 'Status',
+    progress: 'Progress',
+    started: 'Date Started',
+    finished: 'Date Finished',
+    rating: 'Rating',
+};
+
+// Text sorts A-Z first, numbers and dates highest / newest first
+export const DEFAULT_DIRECTIONS: Record<SortKey, SortDirection> = {
+    title: 'asc',
+    author: 'asc',
+    category: 'asc',
+    status: 'asc',
+    progress: 'desc',
+    started: 'desc',
+    finished: 'desc',
+    rating: 'desc',
+};
+
+// Statuses sort in reading order rather than alphabetically
+const STATUS_ORDER: Record<Book['reading_status'], number> = {
+    'to-read': 0,
+    'reading': 1,
+    'finished': 2,
+};
+
+const SORT_STORAGE_KEY = 'library-sort';
+
+// How the first author of an author string is filed, e.g. "Orwell, George"
+const firstAuthorSortName = (author: string) => getSortName(splitAuthors(author)[0] || '');
+
+// The surname to sort an author string by - the first author's last name
+export function getAuthorSurname(author: string): string {
+    return firstAuthorSortName(author).split(',')[0];
+}
+
+// The same collation as library_sort in backend/prisma/sql/library_page.sql - the root locale,
+// ignoring case and accents, with numbers in number order - so a page loaded from the database
+// and the books already on screen agree on where every title goes
+const textCollator = new Intl.Collator('und', { sensitivity: 'base', numeric: true });
+const compareText = (a: string, b: string) => textCollator.compare(a, b);
+
+// The value a book sorts by, or null when it has none (null always sorts last)
+function sortValue(book: Book, key: SortKey): string | number | null {
+    switch (key) {
+        case 'title': return book.title;
+        case 'author': return book.author;
+        case 'category': return book.category;
+        case 'status': return STATUS_ORDER[book.reading_status];
+        case 'progress': return book.progress_percentage ?? 0;
+        case 'started': return book.date_started || null;
+        case 'finished': return book.date_finished || null;
+        case 'rating': return book.rating || null;
+    }
+}
+
+// The first author's sort name, e.g. "Martin, Robert C.", worked out from the author string for
+// books not linked to author records, as library_page does
+const authorSortKey = (book: Book) => book.authors?.[0]?.sort_name || firstAuthorSortName(book.author);
+
+function compareBooks(a: Book, b: Book, key: SortKey): number {
+    if (key === 'author') {
+        return compareText(authorSortKey(a), authorSortKey(b));
+    }
+
+    const valueA = sortValue(a, key) as string | number;
+    const valueB = sortValue(b, key) as string | number;
+    return typeof valueA === 'number' && typeof valueB === 'number'
+        ? valueA - valueB
+        : compareText(String(valueA), String(valueB));
+}
+
+// Sort a copy of the books. Books without a value (unrated, never started...) go last
+// whichever direction is chosen, and ties keep their current order.
+export function sortBooks(books: Book[], { key, direction }: BookSort): Book[] {
+    return [...books].sort((a, b) => {
+        const missingA = sortValue(a, key) === null;
+        const missingB = sortValue(b, key) === null;
+        if (missingA || missingB) return Number(missingA) - Number(missingB);
+
+        const order = compareBooks(a, b, key);
+        return direction === 'asc' ? order : -order;
+    });
+}
+
+// The sort chosen last time, kept in localStorage so it survives reloads
+export function loadSavedSort(): BookSort | null {
+    try {
+        const saved = JSON.parse(localStorage.getItem(SORT_STORAGE_KEY) || 'null');
+        if (saved && saved.key in SORT_LABELS && (saved.direction === 'asc' || saved.direction === 'desc')) {
+            return { key: saved.key, direction: saved.direction };
+        }
+    } catch (error) {
+        console.error('Error reading saved sort:', error);
+    }
+    return null;
+}
+
+export function saveSort(sort: BookSort | null) {
+    try {
+        if (sort) {
+            localStorage.setItem(SORT_STORAGE_KEY, JSON.stringify(sort));
+        } else {
+            localStorage.removeItem(SORT_STORAGE_KEY);
+        }
+    } catch (error) {
+        console.error('Error saving sort:', error);
+    }
+}
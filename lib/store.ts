@@ -1,70 +1,178 @@
 import { create } from 'zustand'
+import type { Book, Highlight, Shelf, SmartShelf, SmartShelfFilters } from './supabase'
+import type { BookCursor, SearchSnippets } from './database'
+import { parseQuery, matchesQueryFilters, matchesQueryText } from './query'
+import { sortBooks, DEFAULT_DIRECTIONS, type BookSort, type SortKey } from './sort'
 
-interface Book {
-    id: string
-    title: string
-    author: string
-    category: string
-    cover_url?: string | null
-    reading_status: 'to-read' | 'reading' | 'finished'
-    created_at: string
-    progress_percentage?: number
-    date_started?: string | null
-    date_finished?: string | null
-    reading_notes?: string | null
+export type EditModalTab = 'details' | 'highlights' | 'history'
+
+// Apply a set of filters to the library. When the books were searched for in the database they
+// have already matched the free text and are in rank order, so only the rest is checked.
+function filterBooks(books: Book[], shelves: Shelf[], filters: SmartShelfFilters, searched = false): Book[] {
+    const { category, status, shelf_id, tags, tag_match_mode, min_rating } = filters
+    // Filters like author:orwell or rating>=4 apply on top of the dropdowns; invalid ones are skipped
+    const query = parseQuery(filters.query)
+
+    // A selected shelf narrows the library to its books, in the shelf's own order
+    const shelf = shelf_id === null ? null : shelves.find(s => s.id === shelf_id)
+    const source = searched
+        // Server-side matches keep their rank order
+        ? books.filter(book => !shelf || shelf.book_ids.includes(book.id))
+        : shelf
+            ? shelf.book_ids
+                .map(bookId => books.find(book => book.id === bookId))
+                .filter((book): book is Book => book !== undefined)
+            : books
+
+    return source.filter(book => {
+        const matchesCategory = category === null || book.category === category
+        const matchesSearch = (searched || matchesQueryText(book, query.text)) &&
+            matchesQueryFilters(book, query.filters)
+        const matchesStatus = status === null || book.reading_status === status
+        const matchesRating = min_rating === null || (book.rating || 0) >= min_rating
+        const bookTags = book.tags || []
+        const matchesTags = tags.length === 0 || (tag_match_mode === 'and'
+            ? tags.every(tag => bookTags.includes(tag))
+            : tags.some(tag => bookTags.includes(tag)))
+
+        return matchesCategory && matchesSearch && matchesStatus && matchesRating && matchesTags
+    })
+}
+
+// Whether two sets of filters would show the same books
+export function sameFilters(a: SmartShelfFilters, b: SmartShelfFilters): boolean {
+    const normalize = (filters: SmartShelfFilters) => JSON.stringify({
+        ...filters,
+        query: filters.query.trim(),
+        tags: [...filters.tags].sort(),
+        // Match mode only matters once more than one tag is picked
+        tag_match_mode: filters.tags.length > 1 ? filters.tag_match_mode : 'or'
+    })
+    return normalize(a) === normalize(b)
 }
 
 interface BookStore {
     // State
     books: Book[]
+    shelves: Shelf[]
+    smartShelves: SmartShelf[]
+    highlights: Highlight[]
+    trash: Book[]
+    showTrash: boolean
     loading: boolean
+    nextCursor: BookCursor | null      // null once the last page is loaded
+    loadingMore: boolean
     searchQuery: string
+    searchSnippets: SearchSnippets | null   // set while the loaded books are a search done in the database
     selectedCategory: string | null
     selectedReadingStatus: string | null
-    viewMode: 'grid' | 'table'        // ← ADD THIS
+    selectedShelf: string | null
+    selectedTags: string[]
+    tagMatchMode: 'and' | 'or'
+    minRating: number | null
+    sort: BookSort | null             // null keeps the default order: newest, shelf order or best match
+    viewMode: 'grid' | 'table' | 'series'
     addingBook: boolean               // ← ADD THIS
 
     // Modal state
     showAddModal: boolean
     showEditModal: boolean
     showDeleteModal: boolean
+    showLogSessionModal: boolean
     bookToEdit: Book | null
+    editModalTab: EditModalTab
     bookToDelete: Book | null
+    bookToLogSession: Book | null
 
     // Actions
     setBooks: (books: Book[]) => void
+    setShelves: (shelves: Shelf[]) => void
+    setSmartShelves: (smartShelves: SmartShelf[]) => void
+    setHighlights: (highlights: Highlight[]) => void
+    setTrash: (trash: Book[]) => void
+    setShowTrash: (show: boolean) => void
     setLoading: (loading: boolean) => void
+    setNextCursor: (cursor: BookCursor | null) => void
+    setLoadingMore: (loadingMore: boolean) => void
     setSearchQuery: (query: string) => void
+    setSearchSnippets: (snippets: SearchSnippets | null) => void
     setSelectedCategory: (category: string | null) => void
     setSelectedReadingStatus: (status: string | null) => void
-    setViewMode: (mode: 'grid' | 'table') => void    // ← ADD THIS
+    setSelectedShelf: (shelfId: string | null) => void
+    setSelectedTags: (tags: string[]) => void
+    toggleTag: (tag: string) => void
+    setTagMatchMode: (mode: 'and' | 'or') => void
+    setMinRating: (rating: number | null) => void
+    setSort: (sort: BookSort | null) => void
+    toggleSort: (key: SortKey) => void
+    setViewMode: (mode: 'grid' | 'table' | 'series') => void
     setAddingBook: (adding: boolean) => void         // ← ADD THIS
 
     // Modal actions
     openAddModal: () => void
     closeAddModal: () => void
-    openEditModal: (book: Book) => void
+    openEditModal: (book: Book, tab?: EditModalTab) => void
     closeEditModal: () => void
     openDeleteModal: (book: Book) => void
     closeDeleteModal: () => void
+    openLogSessionModal: (book: Book) => void
+    closeLogSessionModal: () => void
 
     // Book actions
     addBook: (book: Book) => void
+    appendBooks: (books: Book[]) => void
     updateBook: (id: string, updates: Partial<Book>) => void
     removeBook: (id: string) => void
+    moveToTrash: (id: string) => void
+    removeFromTrash: (id: string) => void
+
+    // Shelf actions
+    addShelf: (shelf: Shelf) => void
+    updateShelf: (id: string, updates: Partial<Shelf>) => void
+    removeShelf: (id: string) => void
+    setShelfBookIds: (id: string, bookIds: string[]) => void
+
+    // Smart shelf actions
+    addSmartShelf: (smartShelf: SmartShelf) => void
+    updateSmartShelf: (id: string, updates: Partial<SmartShelf>) => void
+    removeSmartShelf: (id: string) => void
+    applyFilters: (filters: SmartShelfFilters) => void
+
+    // Highlight actions
+    addHighlight: (highlight: Highlight) => void
+    updateHighlight: (id: string, updates: Partial<Highlight>) => void
+    removeHighlight: (id: string) => void
 
     // Computed values
     getFilteredBooks: () => Book[]
+    filterLibrary: (books: Book[]) => Book[]
+    getCurrentFilters: () => SmartShelfFilters
+    getActiveSmartShelf: () => SmartShelf | null
     getCategories: () => string[]
+    getTags: () => string[]
+    getMatchingHighlights: () => Highlight[]
 }
 
 export const useBookStore = create<BookStore>((set, get) => ({
     // Initial state
     books: [],
+    shelves: [],
+    smartShelves: [],
+    highlights: [],
+    trash: [],
+    showTrash: false,
     loading: false,
+    nextCursor: null,
+    loadingMore: false,
     searchQuery: '',
+    searchSnippets: null,
     selectedCategory: null,
     selectedReadingStatus: null,
+    selectedShelf: null,
+    selectedTags: [],
+    tagMatchMode: 'or',
+    minRating: null,
+    sort: null,
     viewMode: 'grid',        // ← ADD THIS
     addingBook: false,       // ← ADD THIS
 
@@ -72,31 +180,66 @@ export const useBookStore = create<BookStore>((set, get) => ({
     showAddModal: false,
     showEditModal: false,
     showDeleteModal: false,
+    showLogSessionModal: false,
     bookToEdit: null,
+    editModalTab: 'details',
     bookToDelete: null,
+    bookToLogSession: null,
 
     // Basic setters
     setBooks: (books) => set({ books }),
+    setShelves: (shelves) => set({ shelves }),
+    setSmartShelves: (smartShelves) => set({ smartShelves }),
+    setHighlights: (highlights) => set({ highlights }),
+    setTrash: (trash) => set({ trash }),
+    setShowTrash: (showTrash) => set({ showTrash }),
     setLoading: (loading) => set({ loading }),
+    setNextCursor: (nextCursor) => set({ nextCursor }),
+    setLoadingMore: (loadingMore) => set({ loadingMore }),
     setSearchQuery: (searchQuery) => set({ searchQuery }),
+    setSearchSnippets: (searchSnippets) => set({ searchSnippets }),
     setSelectedCategory: (selectedCategory) => set({ selectedCategory }),
     setSelectedReadingStatus: (selectedReadingStatus) => set({ selectedReadingStatus }),
+    setSelectedShelf: (selectedShelf) => set({ selectedShelf }),
+    setSelectedTags: (selectedTags) => set({ selectedTags }),
+    toggleTag: (tag) => set((state) => ({
+        selectedTags: state.selectedTags.includes(tag)
+            ? state.selectedTags.filter(selected => selected !== tag)
+            : [...state.selectedTags, tag]
+    })),
+    setTagMatchMode: (tagMatchMode) => set({ tagMatchMode }),
+    setMinRating: (minRating) => set({ minRating }),
+    setSort: (sort) => set({ sort }),
+    // Picking the current key again flips its direction, a new key starts in its natural direction
+    toggleSort: (key) => set((state) => ({
+        sort: state.sort?.key === key
+            ? { key, direction: state.sort.direction === 'asc' ? 'desc' : 'asc' }
+            : { key, direction: DEFAULT_DIRECTIONS[key] }
+    })),
     setViewMode: (viewMode) => set({ viewMode }),        // ← ADD THIS
     setAddingBook: (addingBook) => set({ addingBook }),  // ← ADD THIS
 
     // Modal actions
     openAddModal: () => set({ showAddModal: true }),
     closeAddModal: () => set({ showAddModal: false }),
-    openEditModal: (book) => set({ showEditModal: true, bookToEdit: book }),
+    openEditModal: (book, tab = 'details') => set({ showEditModal: true, bookToEdit: book, editModalTab: tab }),
     closeEditModal: () => set({ showEditModal: false, bookToEdit: null }),
     openDeleteModal: (book) => set({ showDeleteModal: true, bookToDelete: book }),
     closeDeleteModal: () => set({ showDeleteModal: false, bookToDelete: null }),
+    openLogSessionModal: (book) => set({ showLogSessionModal: true, bookToLogSession: book }),
+    closeLogSessionModal: () => set({ showLogSessionModal: false, bookToLogSession: null }),
 
     // Book actions
     addBook: (book) => set((state) => ({
         books: [book, ...state.books]
     })),
 
+    // Add the next page, skipping any book that's already loaded (e.g. one added since the first page)
+    appendBooks: (books) => set((state) => {
+        const loaded = new Set(state.books.map(book => book.id))
+        return { books: [...state.books, ...books.filter(book => !loaded.has(book.id))] }
+    }),
+
     updateBook: (id, updates) => set((state) => ({
         books: state.books.map(book =>
             book.id === id ? { ...book, ...updates } : book
@@ -104,26 +247,149 @@ export const useBookStore = create<BookStore>((set, get) => ({
     })),
 
     removeBook: (id) => set((state) => ({
-        books: state.books.filter(book => book.id !== id)
+        books: state.books.filter(book => book.id !== id),
+        shelves: state.shelves.map(shelf => ({
+            ...shelf,
+            book_ids: shelf.book_ids.filter(bookId => bookId !== id)
+        })),
+        highlights: state.highlights.filter(highlight => highlight.book_id !== id)
+    })),
+
+    // Trashed books leave the library (and its shelves and highlights) until they're restored
+    moveToTrash: (id) => {
+        const book = get().books.find(b => b.id === id)
+        if (!book) return
+
+        get().removeBook(id)
+        set((state) => ({
+            trash: [{ ...book, deleted_at: new Date().toISOString() }, ...state.trash]
+        }))
+    },
+
+    removeFromTrash: (id) => set((state) => ({
+        trash: state.trash.filter(book => book.id !== id)
+    })),
+
+    // Shelf actions
+    addShelf: (shelf) => set((state) => ({
+        shelves: [...state.shelves, shelf]
+    })),
+
+    updateShelf: (id, updates) => set((state) => ({
+        shelves: state.shelves.map(shelf =>
+            shelf.id === id ? { ...shelf, ...updates } : shelf
+        )
+    })),
+
+    removeShelf: (id) => set((state) => ({
+        shelves: state.shelves.filter(shelf => shelf.id !== id),
+        selectedShelf: state.selectedShelf === id ? null : state.selectedShelf
+    })),
+
+    setShelfBookIds: (id, bookIds) => set((state) => ({
+        shelves: state.shelves.map(shelf =>
+            shelf.id === id ? { ...shelf, book_ids: bookIds } : shelf
+        )
+    })),
+
+    // Smart shelf actions
+    addSmartShelf: (smartShelf) => set((state) => ({
+        smartShelves: [...state.smartShelves, smartShelf]
+    })),
+
+    updateSmartShelf: (id, updates) => set((state) => ({
+        smartShelves: state.smartShelves.map(smartShelf =>
+            smartShelf.id === id ? { ...smartShelf, ...updates } : smartShelf
+        )
+    })),
+
+    removeSmartShelf: (id) => set((state) => ({
+        smartShelves: state.smartShelves.filter(smartShelf => smartShelf.id !== id)
+    })),
+
+    // Show a smart shelf by putting its filters back in place
+    applyFilters: (filters) => set({
+        searchQuery: filters.query,
+        selectedCategory: filters.category,
+        selectedReadingStatus: filters.status,
+        selectedShelf: filters.shelf_id,
+        selectedTags: filters.tags,
+        tagMatchMode: filters.tag_match_mode,
+        minRating: filters.min_rating
+    }),
+
+    // Highlight actions
+    addHighlight: (highlight) => set((state) => ({
+        highlights: [highlight, ...state.highlights]
+    })),
+
+    updateHighlight: (id, updates) => set((state) => ({
+        highlights: state.highlights.map(highlight =>
+            highlight.id === id ? { ...highlight, ...updates } : highlight
+        )
+    })),
+
+    removeHighlight: (id) => set((state) => ({
+        highlights: state.highlights.filter(highlight => highlight.id !== id)
     })),
 
     // Computed values
     getFilteredBooks: () => {
-        const { books, searchQuery, selectedCategory, selectedReadingStatus } = get()
+        const { books, shelves, searchSnippets, sort, getCurrentFilters } = get()
+        const filtered = filterBooks(books, shelves, getCurrentFilters(), searchSnippets !== null)
 
-        return books.filter(book => {
-            const matchesCategory = selectedCategory === null || book.category === selectedCategory
-            const matchesSearch = searchQuery === "" ||
-                book.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                book.author.toLowerCase().includes(searchQuery.toLowerCase())
-            const matchesStatus = selectedReadingStatus === null || book.reading_status === selectedReadingStatus
+        return sort === null ? filtered : sortBooks(filtered, sort)
+    },
+
+    // The current filters and sort applied to another list of books, e.g. the whole library for an
+    // export. Search text is matched against title, author and tags here rather than on the server.
+    filterLibrary: (books) => {
+        const { shelves, sort, getCurrentFilters } = get()
+        const filtered = filterBooks(books, shelves, getCurrentFilters())
+
+        return sort === null ? filtered : sortBooks(filtered, sort)
+    },
 
-            return matchesCategory && matchesSearch && matchesStatus
-        })
+    getCurrentFilters: () => {
+        const { searchQuery, selectedCategory, selectedReadingStatus, selectedShelf, selectedTags, tagMatchMode, minRating } = get()
+        return {
+            query: searchQuery,
+            category: selectedCategory,
+            status: selectedReadingStatus,
+            shelf_id: selectedShelf,
+            tags: selectedTags,
+            tag_match_mode: tagMatchMode,
+            min_rating: minRating
+        }
+    },
+
+    // The smart shelf whose filters are the ones showing right now, if any
+    getActiveSmartShelf: () => {
+        const { smartShelves, getCurrentFilters } = get()
+        const current = getCurrentFilters()
+        return smartShelves.find(smartShelf => sameFilters(smartShelf.filters, current)) || null
     },
 
     getCategories: () => {
         const { books } = get()
         return Array.from(new Set(books.map(book => book.category)))
+    },
+
+    getTags: () => {
+        const { books } = get()
+        return Array.from(new Set(books.flatMap(book => book.tags || []))).sort((a, b) => a.localeCompare(b))
+    },
+
+    // Highlights whose text, note or tags match the search bar's free text
+    getMatchingHighlights: () => {
+        const { highlights, searchQuery } = get()
+        const query = parseQuery(searchQuery).text.toLowerCase()
+        if (query === "") return []
+
+        return highlights.filter(highlight =>
+            highlight.text.toLowerCase().includes(query) ||
+            (highlight.note || '').toLowerCase().includes(query) ||
+            highlight.tags.some(tag => tag.toLowerCase().includes(query))
+        )
     }
 }))
\ No newline at end of file
@@ -0,0 +1,70 @@
+// lib/storygraph.ts - Reading the CSV from StoryGraph's "Manage account" → "Export StoryGraph library"
+import { parseCsvHeader, parseCsvRecords } from './csv';
+import { formatAuthors } from './authors';
+import {
+    normalizeImport,
+    parseImportDate,
+    parseImportFormat,
+    parseImportIsbn,
+    parseImportNumber,
+    parseImportText,
+    splitImportList,
+    type ImportedBook,
+    type ImportFormat
+} from './import';
+
+const READ_STATUSES: Record<string, ImportedBook['book']['reading_status']> = {
+    'read': 'finished',
+    'currently-reading': 'reading',
+    'to-read': 'to-read',
+};
+
+const isStoryGraphHeader = (columns: string[]) => columns.includes('Title') && columns.includes('Read Status');
+
+// "Dates Read" lists every read as start-finish ranges, e.g. "2023/01/02-2023/01/20, 2024/05/01-2024/05/09".
+// The latest range gives the start date to go with "Last Date Read".
+const lastStarted = (datesRead: string) => {
+    const ranges = splitImportList(datesRead);
+    const last = ranges[ranges.length - 1] || '';
+    return last.includes('-') && /^\d{4}\//.test(last) ? parseImportDate(last.split('-')[0]) : null;
+};
+
+// Parse a StoryGraph export into books ready to import. Throws if the file isn't one.
+export function parseStoryGraphCsv(text: string): ImportedBook[] {
+    const records = parseCsvRecords(text);
+
+    if (records.length > 0 && !isStoryGraphHeader(Object.keys(records[0]))) {
+        throw new Error('This doesn\'t look like a StoryGraph export - it needs Title and Read Status columns');
+    }
+
+    return records.map((record, index) => {
+        const status = record['Read Status'] || 'to-read';
+        const isbn = parseImportIsbn(record['ISBN/UID']);
+
+        // "did-not-finish" and "paused" aren't statuses here, so they're kept as tags
+        const tags = splitImportList(record['Tags']);
+        if (!(status in READ_STATUSES)) tags.push(status);
+
+        return normalizeImport(index + 2, {
+            title: record['Title'],
+            author: formatAuthors(splitImportList(record['Authors'])),
+            reading_status: READ_STATUSES[status] || (status === 'paused' ? 'reading' : 'to-read'),
+            date_started: status === 'to-read' ? null : lastStarted(record['Dates Read'] || ''),
+            date_finished: parseImportDate(record['Last Date Read']),
+            rating: parseImportNumber(record['Star Rating']),
+            review: parseImportText(record['Review']),
+            isbn_10: isbn && isbn.length === 10 ? isbn : null,
+            isbn_13: isbn && isbn.length === 13 ? isbn : null,
+            format: parseImportFormat(record['Format']),
+            tags,
+        });
+    });
+}
+
+export const storyGraphFormat: ImportFormat = {
+    id: 'storygraph',
+    label: 'StoryGraph CSV',
+    accept: '.csv',
+    detect: text => isStoryGraphHeader(parseCsvHeader(text)),
+    parse: parseStoryGraphCsv,
+};
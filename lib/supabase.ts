@@ -6,6 +6,10 @@ const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 export const supabase = createClient(supabaseUrl, supabaseKey)
 
 // Types for our database
+export type ProgressUnit = 'pages' | 'location' | 'minutes'
+
+export type BookFormat = 'hardcover' | 'paperback' | 'ebook' | 'audiobook'
+
 export interface Book {
   id: string
   title: string
@@ -15,7 +19,119 @@ export interface Book {
   reading_status: 'to-read' | 'reading' | 'finished'  // Add this line
   created_at: string
   progress_percentage?: number;
+  page_count?: number | null;
+  current_page?: number | null;
+  progress_unit?: ProgressUnit;
   date_started?: string | null;
   date_finished?: string | null;
   reading_notes?: string | null;
-}
\ No newline at end of file
+  rating?: number | null;
+  review?: string | null;
+  tags?: string[];
+  series_name?: string | null;
+  series_position?: number | null;
+  isbn_10?: string | null;
+  isbn_13?: string | null;
+  publisher?: string | null;
+  published_date?: string | null;
+  language?: string | null;
+  format?: BookFormat | null;
+  reading_cycles?: ReadingCycle[];
+  authors?: BookAuthor[];          // linked author records; `author` stays the display string
+  deleted_at?: string | null;      // set while the book is in the trash
+}
+
+export interface ReadingSession {
+  id: string
+  book_id: string
+  started_at: string
+  ended_at?: string | null
+  from_page?: number | null
+  to_page: number
+  note?: string | null
+  created_at: string
+}
+
+// One complete read of a book - re-reads each get their own cycle
+export interface ReadingCycle {
+  id: string
+  book_id: string
+  date_started?: string | null
+  date_finished: string
+  rating?: number | null
+  notes?: string | null
+  created_at: string
+}
+
+// A passage, a note written while reading, or a bookmarked place. Bookmarks have no text.
+export type HighlightKind = 'highlight' | 'note' | 'bookmark'
+
+// A quote or passage saved from a book
+export interface Highlight {
+  id: string
+  book_id: string
+  kind: HighlightKind
+  text: string
+  location?: number | null     // page, location or minute, in the book's progress unit
+  note?: string | null
+  tags: string[]
+  created_at: string
+}
+
+// Old and new values of each field changed in one edit
+export type BookFieldChanges = Record<string, { old: unknown; new: unknown }>
+
+// One edit to a book, kept so it can be reviewed and reverted
+export interface BookChange {
+  id: string
+  book_id: string
+  changes: BookFieldChanges
+  created_at: string
+}
+
+export interface Tag {
+  id: string
+  name: string
+  created_at: string
+}
+
+// A user-created shelf; book_ids are kept in the shelf's manual order
+export interface Shelf {
+  id: string
+  name: string
+  description?: string | null
+  created_at: string
+  book_ids: string[]
+}
+// The filters a smart shelf saves - everything in the library view that narrows the books
+export interface SmartShelfFilters {
+  query: string
+  category: string | null
+  status: string | null
+  shelf_id: string | null
+  tags: string[]
+  tag_match_mode: 'and' | 'or'
+  min_rating: number | null
+}
+
+// A saved set of filters, re-evaluated against the library whenever it's shown
+export interface SmartShelf {
+  id: string
+  name: string
+  filters: SmartShelfFilters
+  created_at: string
+}
+
+// A person who wrote books in the library. Merged duplicate spellings are kept as aliases
+// so books added later under an old spelling still link to the same author.
+export interface Author {
+  id: string
+  name: string
+  sort_name: string
+  aliases: string[]
+  created_at: string
+  book_count?: number
+}
+
+// An author as listed on a book, in credit order
+export type BookAuthor = Pick<Author, 'id' | 'name' | 'sort_name'>
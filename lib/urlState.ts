@@ -0,0 +1,39 @@
+// lib/urlState.ts - Library view state <-> URL query parameters, for shareable deep links
+// e.g. /?category=Programming&status=reading&view=table&q=rust
+
+export type ViewMode = 'grid' | 'table' | 'series';
+
+export interface LibraryUrlState {
+    query: string;
+    category: string | null;
+    status: string | null;
+    view: ViewMode;
+}
+
+const STATUSES = ['to-read', 'reading', 'finished'];
+const VIEWS: ViewMode[] = ['grid', 'table', 'series'];
+
+// Read the library state from the URL, falling back to the defaults for missing or unknown values
+export function parseLibraryParams(params: URLSearchParams): LibraryUrlState {
+    const status = params.get('status');
+    const view = params.get('view') as ViewMode | null;
+
+    return {
+        query: params.get('q') || '',
+        category: params.get('category') || null,
+        status: status && STATUSES.includes(status) ? status : null,
+        view: view && VIEWS.includes(view) ? view : 'grid',
+    };
+}
+
+// Write the library state as query parameters, leaving defaults out to keep links short
+export function toLibraryParams(state: LibraryUrlState): URLSearchParams {
+    const params = new URLSearchParams();
+
+    if (state.query) params.set('q', state.query);
+    if (state.category) params.set('category', state.category);
+    if (state.status) params.set('status', state.status);
+    if (state.view !== 'grid') params.set('view', state.view);
+
+    return params;
+}